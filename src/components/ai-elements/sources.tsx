@@ -1,5 +1,6 @@
-import { ChevronDownIcon, LayersIcon } from 'lucide-react';
+import { ChevronDownIcon, DatabaseIcon, LayersIcon } from 'lucide-react';
 import type { ComponentProps } from 'react';
+import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
 
@@ -15,9 +16,17 @@ export const Sources = ({ className, ...props }: SourcesProps) => (
 
 export type SourcesTriggerProps = ComponentProps<typeof CollapsibleTrigger> & {
 	count: number;
+	/** The search was served from the cache instead of a new web search */
+	cached?: boolean;
 };
 
-export const SourcesTrigger = ({ className, count, children, ...props }: SourcesTriggerProps) => (
+export const SourcesTrigger = ({
+	className,
+	count,
+	cached,
+	children,
+	...props
+}: SourcesTriggerProps) => (
 	<CollapsibleTrigger
 		className={cn(
 			'flex w-full items-center justify-between gap-4 p-3 hover:bg-accent/50 transition-colors',
@@ -31,6 +40,12 @@ export const SourcesTrigger = ({ className, count, children, ...props }: Sources
 					<LayersIcon className="size-4 text-muted-foreground" />
 					<span className="font-medium text-sm">Sources</span>
 					<span className="text-sm text-muted-foreground">{count} sources</span>
+					{cached && (
+						<Badge className="gap-1 rounded-full text-xs" variant="secondary">
+							<DatabaseIcon className="size-3" />
+							Cached
+						</Badge>
+					)}
 				</div>
 				<ChevronDownIcon className="size-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
 			</>
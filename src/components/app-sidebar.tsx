@@ -3,8 +3,28 @@
 import { Link, useNavigate, useParams } from '@tanstack/react-router';
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { MoonIcon, SearchIcon, SunIcon, Trash2Icon } from 'lucide-react';
-import { useCallback, useMemo, useState } from 'react';
+import {
+	ActivityIcon,
+	ArchiveIcon,
+	ArchiveRestoreIcon,
+	ChevronRightIcon,
+	FolderIcon,
+	FolderPlusIcon,
+	LogOutIcon,
+	MoonIcon,
+	MoreHorizontalIcon,
+	NotebookPenIcon,
+	PencilIcon,
+	PinIcon,
+	PinOffIcon,
+	PlusIcon,
+	SearchIcon,
+	SunIcon,
+	TagIcon,
+	Trash2Icon,
+	UserIcon,
+} from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTheme } from '@/components/theme-provider';
 import {
 	AlertDialog,
@@ -17,10 +37,28 @@ import {
 	AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
 import {
 	DropdownMenu,
+	DropdownMenuCheckboxItem,
 	DropdownMenuContent,
+	DropdownMenuGroup,
 	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
+	DropdownMenuSeparator,
+	DropdownMenuSub,
+	DropdownMenuSubContent,
+	DropdownMenuSubTrigger,
 	DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -30,12 +68,14 @@ import {
 	EmptyMedia,
 	EmptyTitle,
 } from '@/components/ui/empty';
+import { Input } from '@/components/ui/input';
 import {
 	Sidebar,
 	SidebarContent,
 	SidebarFooter,
 	SidebarGroup,
 	SidebarGroupContent,
+	SidebarGroupLabel,
 	SidebarHeader,
 	SidebarInput,
 	SidebarMenu,
@@ -44,13 +84,123 @@ import {
 	useSidebar,
 } from '@/components/ui/sidebar';
 import { useDeleteThread } from '@/hooks/use-delete-thread';
+import { useRefreshSession, useSession } from '@/hooks/use-session';
 import { useThreads } from '@/hooks/use-threads';
+import { useUpdateThread } from '@/hooks/use-update-thread';
+import { signOut } from '@/lib/auth';
+import {
+	getThreadFolder,
+	getThreadTags,
+	isThreadArchived,
+	isThreadPinned,
+	listThreadFolders,
+	listThreadTags,
+	type MemoryThread,
+	normalizeThreadLabel,
+	THREAD_LABEL_MAX_LENGTH,
+} from '@/lib/mastra-queries';
+
+type ThreadLabelKind = 'folder' | 'tag';
+
+interface ThreadTitleInputProps {
+	title: string;
+	/** Called once, with the edited title on Enter or blur, or null on Escape */
+	onDone: (title: string | null) => void;
+}
+
+/**
+ * Inline title editor shown in place of a thread while it is renamed
+ */
+function ThreadTitleInput({ title, onDone }: ThreadTitleInputProps) {
+	const [value, setValue] = useState(title);
+	const inputRef = useRef<HTMLInputElement>(null);
+	const doneRef = useRef(false);
+
+	useEffect(() => {
+		inputRef.current?.focus();
+		inputRef.current?.select();
+	}, []);
+
+	// Enter is followed by a blur when the input unmounts; only the first one counts
+	const finish = (result: string | null) => {
+		if (doneRef.current) return;
+		doneRef.current = true;
+		onDone(result);
+	};
+
+	return (
+		<SidebarInput
+			aria-label="Conversation title"
+			className="h-11 px-3"
+			onBlur={() => finish(value)}
+			onChange={(e) => setValue(e.target.value)}
+			onKeyDown={(e) => {
+				if (e.key === 'Enter') {
+					e.preventDefault();
+					finish(value);
+				}
+				if (e.key === 'Escape') {
+					e.preventDefault();
+					finish(null);
+				}
+			}}
+			ref={inputRef}
+			value={value}
+		/>
+	);
+}
+
+interface ThreadLabelFormProps {
+	kind: ThreadLabelKind;
+	threadTitle: string;
+	onSubmit: (name: string) => void;
+}
+
+/**
+ * Dialog body asking for the name of a new folder or tag for a thread
+ */
+function ThreadLabelForm({ kind, threadTitle, onSubmit }: ThreadLabelFormProps) {
+	const [value, setValue] = useState('');
+	const isFolder = kind === 'folder';
+
+	return (
+		<form
+			className="grid gap-4"
+			onSubmit={(e) => {
+				e.preventDefault();
+				onSubmit(value);
+			}}
+		>
+			<DialogHeader>
+				<DialogTitle>{isFolder ? 'New folder' : 'New tag'}</DialogTitle>
+				<DialogDescription>
+					{isFolder ? 'Move' : 'Tag'} “{threadTitle}”{isFolder ? ' to a new folder' : ''}
+				</DialogDescription>
+			</DialogHeader>
+			<Input
+				aria-label={isFolder ? 'Folder name' : 'Tag name'}
+				autoFocus
+				maxLength={THREAD_LABEL_MAX_LENGTH}
+				onChange={(e) => setValue(e.target.value)}
+				placeholder={isFolder ? 'Japan 2027' : 'work trips'}
+				value={value}
+			/>
+			<DialogFooter>
+				<Button disabled={!normalizeThreadLabel(value)} type="submit">
+					{isFolder ? 'Move' : 'Add tag'}
+				</Button>
+			</DialogFooter>
+		</form>
+	);
+}
 
 export function AppSidebar() {
 	const navigate = useNavigate();
 	const params = useParams({ strict: false });
 	const { setTheme } = useTheme();
 	const { isMobile, setOpenMobile } = useSidebar();
+	const { user } = useSession();
+	const refreshSession = useRefreshSession();
 
 	// Obtener threadId actual de la ruta (si existe)
 	const currentThreadId = 'threadId' in params ? params.threadId : undefined;
@@ -61,6 +211,16 @@ export function AppSidebar() {
 	// Eliminar thread
 	const deleteThread = useDeleteThread();
 
+	// Renombrar, fijar y archivar (metadata del thread, con actualización optimista)
+	const updateThread = useUpdateThread();
+	const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+
+	// Thread al que se le está creando una carpeta o etiqueta nueva
+	const [labelTarget, setLabelTarget] = useState<{
+		thread: MemoryThread;
+		kind: ThreadLabelKind;
+	} | null>(null);
+
 	// Estado para búsqueda
 	const [searchQuery, setSearchQuery] = useState('');
 
@@ -68,15 +228,47 @@ export function AppSidebar() {
 	const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 	const [threadToDelete, setThreadToDelete] = useState<string | null>(null);
 
-	// Filtrar threads por título
+	// Carpetas y etiquetas de todos los threads, para ofrecerlas en el menú de cada uno
+	const { folders, tags } = useMemo(
+		() => ({ folders: listThreadFolders(threads ?? []), tags: listThreadTags(threads ?? []) }),
+		[threads]
+	);
+
+	// Filtrar threads por título, carpeta o etiqueta; "#tag" busca solo en las etiquetas
 	const filteredThreads = useMemo(() => {
 		if (!threads) return [];
 		if (!searchQuery.trim()) return threads;
 
-		const query = searchQuery.toLowerCase();
-		return threads.filter((thread) => (thread.title || 'Untitled').toLowerCase().includes(query));
+		const query = searchQuery.trim().toLowerCase();
+		if (query.startsWith('#')) {
+			const tag = query.slice(1);
+			return threads.filter((thread) =>
+				getThreadTags(thread).some((item) => item.toLowerCase().includes(tag))
+			);
+		}
+		return threads.filter((thread) =>
+			[thread.title || 'Untitled', getThreadFolder(thread) ?? '', ...getThreadTags(thread)].some(
+				(text) => text.toLowerCase().includes(query)
+			)
+		);
 	}, [threads, searchQuery]);
 
+	// Fijados arriba, luego una sección por carpeta y el resto en "Recent"; archivados aparte.
+	// La búsqueda se aplica a todas las secciones
+	const { pinnedThreads, folderGroups, recentThreads, archivedThreads } = useMemo(() => {
+		const active = filteredThreads.filter((thread) => !isThreadArchived(thread));
+		const unpinned = active.filter((thread) => !isThreadPinned(thread));
+		return {
+			pinnedThreads: active.filter(isThreadPinned),
+			folderGroups: listThreadFolders(unpinned).map((folder) => ({
+				folder,
+				threads: unpinned.filter((thread) => getThreadFolder(thread) === folder),
+			})),
+			recentThreads: unpinned.filter((thread) => !getThreadFolder(thread)),
+			archivedThreads: filteredThreads.filter(isThreadArchived),
+		};
+	}, [filteredThreads]);
+
 	const handleNewChat = useCallback(() => {
 		navigate({ to: '/' });
 		if (isMobile) {
@@ -84,6 +276,73 @@ export function AppSidebar() {
 		}
 	}, [navigate, isMobile, setOpenMobile]);
 
+	const handleRename = useCallback(
+		(thread: MemoryThread, title: string | null) => {
+			setRenamingThreadId(null);
+			const trimmed = title?.trim();
+			if (!trimmed || trimmed === thread.title) return;
+			updateThread.mutate({ threadId: thread.id, title: trimmed });
+		},
+		[updateThread]
+	);
+
+	const handleTogglePin = useCallback(
+		(thread: MemoryThread) => {
+			updateThread.mutate({ threadId: thread.id, metadata: { pinned: !isThreadPinned(thread) } });
+		},
+		[updateThread]
+	);
+
+	// Archivar también lo desfija, para que al restaurarlo vuelva a la lista normal
+	const handleToggleArchive = useCallback(
+		(thread: MemoryThread) => {
+			const archived = !isThreadArchived(thread);
+			updateThread.mutate({
+				threadId: thread.id,
+				metadata: archived ? { archived, pinned: false } : { archived },
+			});
+		},
+		[updateThread]
+	);
+
+	const handleMoveToFolder = useCallback(
+		(thread: MemoryThread, folder: string | undefined) => {
+			if (folder === getThreadFolder(thread)) return;
+			updateThread.mutate({ threadId: thread.id, metadata: { folder } });
+		},
+		[updateThread]
+	);
+
+	const handleToggleTag = useCallback(
+		(thread: MemoryThread, tag: string, checked: boolean) => {
+			const threadTags = getThreadTags(thread).filter((item) => item !== tag);
+			updateThread.mutate({
+				threadId: thread.id,
+				metadata: { tags: checked ? [...threadTags, tag] : threadTags },
+			});
+		},
+		[updateThread]
+	);
+
+	// Carpeta o etiqueta nueva escrita en el diálogo; si ya existe con otras mayúsculas se reutiliza
+	const handleAddLabel = useCallback(
+		(name: string) => {
+			if (!labelTarget) return;
+			const { thread, kind } = labelTarget;
+			setLabelTarget(null);
+			if (kind === 'folder') {
+				const folder = normalizeThreadLabel(name, folders);
+				if (folder) handleMoveToFolder(thread, folder);
+				return;
+			}
+			const tag = normalizeThreadLabel(name, tags);
+			if (tag && !getThreadTags(thread).includes(tag)) {
+				handleToggleTag(thread, tag, true);
+			}
+		},
+		[labelTarget, folders, tags, handleMoveToFolder, handleToggleTag]
+	);
+
 	const handleDeleteClick = useCallback((e: React.MouseEvent, threadId: string) => {
 		e.preventDefault();
 		e.stopPropagation();
@@ -108,6 +367,143 @@ export function AppSidebar() {
 		setThreadToDelete(null);
 	}, []);
 
+	// Cerrar sesión: la ruta raíz redirige a /sign-in al refrescar la sesión
+	const handleSignOut = useCallback(async () => {
+		await signOut();
+		await refreshSession();
+	}, [refreshSession]);
+
+	const renderThread = (thread: MemoryThread) => {
+		if (renamingThreadId === thread.id) {
+			return (
+				<SidebarMenuItem key={thread.id}>
+					<ThreadTitleInput
+						onDone={(title) => handleRename(thread, title)}
+						title={thread.title || 'Untitled'}
+					/>
+				</SidebarMenuItem>
+			);
+		}
+
+		const pinned = isThreadPinned(thread);
+		const archived = isThreadArchived(thread);
+		const folder = getThreadFolder(thread);
+		const threadTags = getThreadTags(thread);
+
+		return (
+			<SidebarMenuItem key={thread.id}>
+				<SidebarMenuButton
+					className="h-auto py-3 px-3 pr-9"
+					isActive={currentThreadId === thread.id}
+					onClick={() => {
+						if (isMobile) {
+							setOpenMobile(false);
+						}
+					}}
+					render={<Link params={{ threadId: thread.id }} to="/chat/$threadId" />}
+				>
+					<div className="flex min-w-0 flex-1 flex-col gap-0.5">
+						<span className="truncate text-sm font-medium">{thread.title || 'Untitled'}</span>
+						<span className="truncate text-xs text-muted-foreground">
+							{thread.createdAt
+								? formatDistanceToNow(new Date(thread.createdAt), {
+										addSuffix: true,
+										locale: es,
+									})
+								: ''}
+							{threadTags.length > 0 && ` · ${threadTags.map((tag) => `#${tag}`).join(' ')}`}
+						</span>
+					</div>
+				</SidebarMenuButton>
+				<DropdownMenu>
+					<DropdownMenuTrigger
+						render={
+							<Button
+								aria-label="Conversation actions"
+								className="absolute right-1 top-1/2 -translate-y-1/2 size-7 opacity-0 group-hover/menu-item:opacity-100 data-popup-open:opacity-100 transition-opacity"
+								size="icon"
+								variant="ghost"
+							/>
+						}
+					>
+						<MoreHorizontalIcon className="size-3" />
+					</DropdownMenuTrigger>
+					<DropdownMenuContent align="start" className="w-44" side="right">
+						<DropdownMenuItem onClick={() => setRenamingThreadId(thread.id)}>
+							<PencilIcon />
+							Rename
+						</DropdownMenuItem>
+						{!archived && (
+							<DropdownMenuItem onClick={() => handleTogglePin(thread)}>
+								{pinned ? <PinOffIcon /> : <PinIcon />}
+								{pinned ? 'Unpin' : 'Pin'}
+							</DropdownMenuItem>
+						)}
+						<DropdownMenuSub>
+							<DropdownMenuSubTrigger>
+								<FolderIcon />
+								Move to folder
+							</DropdownMenuSubTrigger>
+							<DropdownMenuSubContent className="w-44">
+								<DropdownMenuRadioGroup
+									onValueChange={(value: string) => handleMoveToFolder(thread, value || undefined)}
+									value={folder ?? ''}
+								>
+									<DropdownMenuRadioItem value="">No folder</DropdownMenuRadioItem>
+									{folders.map((name) => (
+										<DropdownMenuRadioItem key={name} value={name}>
+											<span className="truncate">{name}</span>
+										</DropdownMenuRadioItem>
+									))}
+								</DropdownMenuRadioGroup>
+								<DropdownMenuSeparator />
+								<DropdownMenuItem onClick={() => setLabelTarget({ thread, kind: 'folder' })}>
+									<FolderPlusIcon />
+									New folder…
+								</DropdownMenuItem>
+							</DropdownMenuSubContent>
+						</DropdownMenuSub>
+						<DropdownMenuSub>
+							<DropdownMenuSubTrigger>
+								<TagIcon />
+								Tags
+							</DropdownMenuSubTrigger>
+							<DropdownMenuSubContent className="w-44">
+								{tags.map((tag) => (
+									<DropdownMenuCheckboxItem
+										checked={threadTags.includes(tag)}
+										key={tag}
+										onCheckedChange={(checked) => handleToggleTag(thread, tag, checked)}
+									>
+										<span className="truncate">#{tag}</span>
+									</DropdownMenuCheckboxItem>
+								))}
+								{tags.length > 0 && <DropdownMenuSeparator />}
+								<DropdownMenuItem onClick={() => setLabelTarget({ thread, kind: 'tag' })}>
+									<PlusIcon />
+									New tag…
+								</DropdownMenuItem>
+							</DropdownMenuSubContent>
+						</DropdownMenuSub>
+						<DropdownMenuItem onClick={() => handleToggleArchive(thread)}>
+							{archived ? <ArchiveRestoreIcon /> : <ArchiveIcon />}
+							{archived ? 'Unarchive' : 'Archive'}
+						</DropdownMenuItem>
+						<DropdownMenuSeparator />
+						<DropdownMenuItem
+							disabled={deleteThread.isPending}
+							onClick={(e) => handleDeleteClick(e, thread.id)}
+							variant="destructive"
+						>
+							<Trash2Icon />
+							Delete
+						</DropdownMenuItem>
+					</DropdownMenuContent>
+				</DropdownMenu>
+			</SidebarMenuItem>
+		);
+	};
+
 	return (
 		<>
 			<Sidebar variant="floating">
@@ -117,7 +513,7 @@ export function AppSidebar() {
 						<SidebarInput
 							className="pl-8"
 							onChange={(e) => setSearchQuery(e.target.value)}
-							placeholder="Search conversations..."
+							placeholder="Search conversations or #tags..."
 							value={searchQuery}
 						/>
 					</div>
@@ -130,68 +526,121 @@ export function AppSidebar() {
 						New Agent
 					</Button>
 				</SidebarHeader>
-				<SidebarContent className="p-2">
+				<SidebarContent className="gap-2 p-2">
+					{pinnedThreads.length > 0 && (
+						<SidebarGroup className="p-0">
+							<SidebarGroupLabel>Pinned</SidebarGroupLabel>
+							<SidebarGroupContent>
+								<SidebarMenu className="gap-1">{pinnedThreads.map(renderThread)}</SidebarMenu>
+							</SidebarGroupContent>
+						</SidebarGroup>
+					)}
+					{folderGroups.map(({ folder, threads: folderThreads }) => (
+						<Collapsible
+							className="group/folder"
+							defaultOpen
+							key={folder}
+							render={<SidebarGroup className="p-0" />}
+						>
+							<SidebarGroupLabel render={<CollapsibleTrigger />}>
+								<ChevronRightIcon className="mr-1 transition-transform group-data-[open]/folder:rotate-90" />
+								<FolderIcon className="mr-1.5" />
+								<span className="truncate">{folder}</span>
+								<span className="ml-1 shrink-0">({folderThreads.length})</span>
+							</SidebarGroupLabel>
+							<CollapsibleContent>
+								<SidebarGroupContent>
+									<SidebarMenu className="gap-1">{folderThreads.map(renderThread)}</SidebarMenu>
+								</SidebarGroupContent>
+							</CollapsibleContent>
+						</Collapsible>
+					))}
 					<SidebarGroup className="p-0">
+						{(pinnedThreads.length > 0 || folderGroups.length > 0) && recentThreads.length > 0 && (
+							<SidebarGroupLabel>Recent</SidebarGroupLabel>
+						)}
 						<SidebarGroupContent>
 							<SidebarMenu className="gap-1">
-								{filteredThreads.length > 0 ? (
-									filteredThreads.map((thread) => (
-										<SidebarMenuItem key={thread.id}>
-											<SidebarMenuButton
-												className="h-auto py-3 px-3"
-												isActive={currentThreadId === thread.id}
-												onClick={() => {
-													if (isMobile) {
-														setOpenMobile(false);
-													}
-												}}
-												render={<Link params={{ threadId: thread.id }} to="/chat/$threadId" />}
-											>
-												<div className="flex min-w-0 flex-1 flex-col gap-0.5">
-													<span className="truncate text-sm font-medium">
-														{thread.title || 'Untitled'}
-													</span>
-													<span className="truncate text-xs text-muted-foreground">
-														{thread.createdAt
-															? formatDistanceToNow(new Date(thread.createdAt), {
-																addSuffix: true,
-																locale: es,
-															})
-															: ''}
-													</span>
-												</div>
-											</SidebarMenuButton>
-											<Button
-												className="absolute right-1 top-1/2 -translate-y-1/2 size-7 opacity-0 group-hover/menu-item:opacity-100 transition-opacity"
-												disabled={deleteThread.isPending}
-												onClick={(e) => handleDeleteClick(e, thread.id)}
-												size="icon"
-												variant="ghost"
-											>
-												<Trash2Icon className="size-3" />
-											</Button>
-										</SidebarMenuItem>
-									))
-								) : searchQuery ? (
-									<Empty className="py-8">
-										<EmptyHeader>
-											<EmptyMedia variant="icon">
-												<SearchIcon />
-											</EmptyMedia>
-											<EmptyTitle>No results found</EmptyTitle>
-											<EmptyDescription>Try a different search term</EmptyDescription>
-										</EmptyHeader>
-									</Empty>
-								) : (
-									<div className="py-8 text-center text-sm text-muted-foreground">
-										No conversations yet
-									</div>
-								)}
+								{recentThreads.map(renderThread)}
+								{filteredThreads.length === 0 &&
+									(searchQuery ? (
+										<Empty className="py-8">
+											<EmptyHeader>
+												<EmptyMedia variant="icon">
+													<SearchIcon />
+												</EmptyMedia>
+												<EmptyTitle>No results found</EmptyTitle>
+												<EmptyDescription>Try a different search term</EmptyDescription>
+											</EmptyHeader>
+										</Empty>
+									) : (
+										<div className="py-8 text-center text-sm text-muted-foreground">
+											No conversations yet
+										</div>
+									))}
 							</SidebarMenu>
 						</SidebarGroupContent>
 					</SidebarGroup>
+					{archivedThreads.length > 0 && (
+						<Collapsible className="group/archived" render={<SidebarGroup className="p-0" />}>
+							<SidebarGroupLabel render={<CollapsibleTrigger />}>
+								<ChevronRightIcon className="mr-1 transition-transform group-data-[open]/archived:rotate-90" />
+								Archived ({archivedThreads.length})
+							</SidebarGroupLabel>
+							<CollapsibleContent>
+								<SidebarGroupContent>
+									<SidebarMenu className="gap-1">{archivedThreads.map(renderThread)}</SidebarMenu>
+								</SidebarGroupContent>
+							</CollapsibleContent>
+						</Collapsible>
+					)}
 				</SidebarContent>
-				<SidebarFooter className="p-2">
+				<SidebarFooter className="gap-2 p-2">
+					<DropdownMenu>
+						<DropdownMenuTrigger
+							render={<Button className="w-full justify-start" variant="ghost" />}
+						>
+							<UserIcon className="size-4 mr-2" />
+							<span className="truncate">{user.name}</span>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent align="start" className="w-[--radix-dropdown-menu-trigger-width]">
+							<DropdownMenuGroup>
+								<DropdownMenuLabel className="truncate">{user.email}</DropdownMenuLabel>
+							</DropdownMenuGroup>
+							<DropdownMenuSeparator />
+							<DropdownMenuItem
+								onClick={() => {
+									if (isMobile) {
+										setOpenMobile(false);
+									}
+								}}
+								render={<Link to="/profile" />}
+							>
+								<NotebookPenIcon className="size-4" />
+								Travel profile
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => {
+									if (isMobile) {
+										setOpenMobile(false);
+									}
+								}}
+								render={
+									<Link
+										search={currentThreadId ? { threadId: currentThreadId } : {}}
+										to="/traces"
+									/>
+								}
+							>
+								<ActivityIcon className="size-4" />
+								Traces
+							</DropdownMenuItem>
+							<DropdownMenuItem onClick={handleSignOut}>
+								<LogOutIcon className="size-4" />
+								Sign out
+							</DropdownMenuItem>
+						</DropdownMenuContent>
+					</DropdownMenu>
 					<DropdownMenu>
 						<DropdownMenuTrigger
 							render={<Button className="w-full justify-start" variant="outline" />}
@@ -209,6 +658,23 @@ export function AppSidebar() {
 				</SidebarFooter>
 			</Sidebar>
 
+			<Dialog
+				onOpenChange={(open) => {
+					if (!open) setLabelTarget(null);
+				}}
+				open={labelTarget !== null}
+			>
+				<DialogContent>
+					{labelTarget && (
+						<ThreadLabelForm
+							kind={labelTarget.kind}
+							onSubmit={handleAddLabel}
+							threadTitle={labelTarget.thread.title || 'Untitled'}
+						/>
+					)}
+				</DialogContent>
+			</Dialog>
+
 			<AlertDialog onOpenChange={setDeleteDialogOpen} open={deleteDialogOpen}>
 				<AlertDialogContent>
 					<AlertDialogHeader>
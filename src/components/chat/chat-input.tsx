@@ -12,7 +12,10 @@ import {
 	PromptInputTextarea,
 	PromptInputTools,
 } from '@/components/ai-elements/prompt-input';
+import type { ThreadUsage } from '@/lib/mastra-queries';
 import { cn } from '@/lib/utils';
+import { ModelPicker } from './molecules/model-picker';
+import { UsageIndicator } from './molecules/usage-indicator';
 
 interface ChatInputProps {
 	value: string;
@@ -22,13 +25,13 @@ interface ChatInputProps {
 	disabled?: boolean;
 	status?: 'ready' | 'streaming' | 'submitted' | 'error';
 	placeholder?: string;
-	contextUsage?: {
-		totalTokens: number;
-		maxTokens: number;
-	};
+	/** Token usage of the thread, shown next to the tools once it has any */
+	usage?: ThreadUsage;
 	messagesCount?: number;
 	searchEnabled?: boolean;
 	onSearchEnabledChange?: (enabled: boolean) => void;
+	modelId?: string;
+	onModelChange?: (modelId: string) => void;
 }
 
 export function ChatInput({
@@ -41,6 +44,9 @@ export function ChatInput({
 	placeholder = 'Ask about travel destinations...',
 	searchEnabled = false,
 	onSearchEnabledChange,
+	modelId,
+	onModelChange,
+	usage,
 }: ChatInputProps) {
 	const handleKeyDown = (e: React.KeyboardEvent) => {
 		if (e.key === 'Enter' && !e.shiftKey) {
@@ -79,6 +85,14 @@ export function ChatInput({
 								<GlobeIcon size={16} />
 								<span>Search</span>
 							</PromptInputButton>
+							{onModelChange && (
+								<ModelPicker
+									disabled={status === 'streaming' || status === 'submitted'}
+									onChange={onModelChange}
+									value={modelId}
+								/>
+							)}
+							{usage && <UsageIndicator usage={usage} />}
 						</PromptInputTools>
 
 						<PromptInputSubmit
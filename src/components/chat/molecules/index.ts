@@ -7,3 +7,7 @@
 
 export { MessageHeader } from './message-header';
 export { MessageActionsBar } from './message-actions-bar';
+export { ModelPicker } from './model-picker';
+export { RecalledThreads } from './recalled-threads';
+export { SummaryNotice } from './summary-notice';
+export { UsageIndicator } from './usage-indicator';
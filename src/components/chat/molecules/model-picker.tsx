@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query';
+import { CheckIcon, ChevronDownIcon } from 'lucide-react';
+import { useState } from 'react';
+import {
+	ModelSelector,
+	ModelSelectorContent,
+	ModelSelectorEmpty,
+	ModelSelectorGroup,
+	ModelSelectorInput,
+	ModelSelectorItem,
+	ModelSelectorList,
+	ModelSelectorLogo,
+	ModelSelectorName,
+	ModelSelectorTrigger,
+} from '@/components/ai-elements/model-selector';
+import { PromptInputButton } from '@/components/ai-elements/prompt-input';
+import { modelsQueryOptions } from '@/lib/mastra-queries';
+
+interface ModelPickerProps {
+	/** Selected model id; the server default when undefined */
+	value?: string;
+	/** Called with the picked model id */
+	onChange: (modelId: string) => void;
+	/** Disable while a response is streaming */
+	disabled?: boolean;
+}
+
+/**
+ * Model picker molecule.
+ * Lists the models allowlisted by the server and shows the current choice as a prompt input button.
+ *
+ * @example
+ * ```tsx
+ * <ModelPicker value={modelId} onChange={setModelId} />
+ * ```
+ */
+export function ModelPicker({ value, onChange, disabled }: ModelPickerProps) {
+	const [open, setOpen] = useState(false);
+	const { data } = useQuery(modelsQueryOptions());
+
+	if (!data || data.models.length === 0) return null;
+
+	const selectedId = value ?? data.defaultModelId;
+	const selected = data.models.find((model) => model.id === selectedId);
+
+	return (
+		<ModelSelector onOpenChange={setOpen} open={open}>
+			<ModelSelectorTrigger
+				render={<PromptInputButton disabled={disabled} size="sm" variant="ghost" />}
+			>
+				{selected && <ModelSelectorLogo provider={selected.provider} />}
+				<span>{selected?.name ?? 'Model'}</span>
+				<ChevronDownIcon className="size-3 text-muted-foreground" />
+			</ModelSelectorTrigger>
+			<ModelSelectorContent title="Select a model">
+				<ModelSelectorInput placeholder="Search models..." />
+				<ModelSelectorList>
+					<ModelSelectorEmpty>No models found</ModelSelectorEmpty>
+					<ModelSelectorGroup heading="Models">
+						{data.models.map((model) => (
+							<ModelSelectorItem
+								key={model.id}
+								onSelect={() => {
+									onChange(model.id);
+									setOpen(false);
+								}}
+								value={`${model.name} ${model.id}`}
+							>
+								<ModelSelectorLogo provider={model.provider} />
+								<div className="flex min-w-0 flex-1 flex-col">
+									<ModelSelectorName>{model.name}</ModelSelectorName>
+									<span className="truncate text-muted-foreground">{model.description}</span>
+								</div>
+								{model.id === selectedId && <CheckIcon className="size-4" />}
+							</ModelSelectorItem>
+						))}
+					</ModelSelectorGroup>
+				</ModelSelectorList>
+			</ModelSelectorContent>
+		</ModelSelector>
+	);
+}
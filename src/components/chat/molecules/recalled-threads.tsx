@@ -0,0 +1,39 @@
+import { Link } from '@tanstack/react-router';
+import { HistoryIcon } from 'lucide-react';
+import type { RecalledThread } from '@/lib/memory-recall';
+
+interface RecalledThreadsProps {
+	/** Other conversations semantic recall drew on for the answer */
+	threads: RecalledThread[];
+}
+
+/**
+ * Recalled threads molecule.
+ * Tells the user that messages from earlier conversations informed the answer,
+ * with a link to each of them.
+ *
+ * @example
+ * ```tsx
+ * <RecalledThreads threads={part.data.threads} />
+ * ```
+ */
+export function RecalledThreads({ threads }: RecalledThreadsProps) {
+	return (
+		<div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-muted-foreground text-xs">
+			<HistoryIcon className="size-3.5 shrink-0" />
+			<span>Remembered from</span>
+			{threads.map((thread, index) => (
+				<span key={thread.threadId}>
+					<Link
+						className="font-medium text-foreground underline-offset-4 hover:underline"
+						params={{ threadId: thread.threadId }}
+						to="/chat/$threadId"
+					>
+						{thread.title}
+					</Link>
+					{index < threads.length - 1 && ','}
+				</span>
+			))}
+		</div>
+	);
+}
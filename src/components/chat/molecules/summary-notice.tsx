@@ -0,0 +1,36 @@
+import { ChevronDownIcon, ScrollTextIcon } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { ThreadSummary } from '@/lib/mastra-queries';
+
+interface SummaryNoticeProps {
+	/** Summary stored in the thread metadata */
+	summary: ThreadSummary;
+}
+
+/**
+ * Summary notice molecule.
+ * Tells the user that older messages only reach the assistant as a summary,
+ * and shows that summary when expanded.
+ *
+ * @example
+ * ```tsx
+ * {summary && <SummaryNotice summary={summary} />}
+ * ```
+ */
+export function SummaryNotice({ summary }: SummaryNoticeProps) {
+	return (
+		<Collapsible className="rounded-lg border border-dashed text-muted-foreground text-xs">
+			<CollapsibleTrigger className="group flex w-full items-center gap-2 px-3 py-2 text-left">
+				<ScrollTextIcon className="size-4 shrink-0" />
+				<span className="flex-1">
+					Older messages are summarized for the assistant to keep the conversation within its
+					context
+				</span>
+				<ChevronDownIcon className="size-4 shrink-0 transition-transform group-data-[panel-open]:rotate-180" />
+			</CollapsibleTrigger>
+			<CollapsibleContent className="whitespace-pre-wrap border-t px-3 py-2">
+				{summary.text}
+			</CollapsibleContent>
+		</Collapsible>
+	);
+}
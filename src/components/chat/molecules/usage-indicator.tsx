@@ -0,0 +1,75 @@
+import {
+	Context,
+	ContextContent,
+	ContextContentBody,
+	ContextContentFooter,
+	ContextContentHeader,
+	ContextTrigger,
+} from '@/components/ai-elements/context';
+import type { ThreadUsage } from '@/lib/mastra-queries';
+
+interface UsageIndicatorProps {
+	/** Usage of the current thread as reported by GET /usage */
+	usage: ThreadUsage;
+}
+
+const tokenFormat = new Intl.NumberFormat('en-US', { notation: 'compact' });
+const costFormat = new Intl.NumberFormat('en-US', {
+	style: 'currency',
+	currency: 'USD',
+	// Single responses usually cost fractions of a cent
+	maximumFractionDigits: 4,
+});
+
+function UsageRow({ label, tokens }: { label: string; tokens: number }) {
+	if (!tokens) return null;
+
+	return (
+		<div className="flex items-center justify-between text-xs">
+			<span className="text-muted-foreground">{label}</span>
+			<span>{tokenFormat.format(tokens)}</span>
+		</div>
+	);
+}
+
+/**
+ * Usage indicator molecule.
+ * Shows how full the model context is and, on hover, the thread's token breakdown
+ * and estimated cost across every agent, title and web search call.
+ *
+ * @example
+ * ```tsx
+ * {usage && <UsageIndicator usage={usage} />}
+ * ```
+ */
+export function UsageIndicator({ usage }: UsageIndicatorProps) {
+	const { context, totals, messages } = usage;
+	if (!context) return null;
+
+	const lastMessage = messages.at(-1);
+
+	return (
+		<Context maxTokens={context.maxTokens} usedTokens={context.usedTokens}>
+			<ContextTrigger size="sm" />
+			<ContextContent>
+				<ContextContentHeader />
+				<ContextContentBody className="space-y-1">
+					<UsageRow label="Input" tokens={totals.inputTokens} />
+					<UsageRow label="Cached input" tokens={totals.cachedInputTokens} />
+					<UsageRow label="Output" tokens={totals.outputTokens} />
+					<UsageRow label="Reasoning" tokens={totals.reasoningTokens} />
+					{lastMessage && (
+						<div className="flex items-center justify-between text-xs">
+							<span className="text-muted-foreground">Last response</span>
+							<span>{costFormat.format(lastMessage.costUSD)}</span>
+						</div>
+					)}
+				</ContextContentBody>
+				<ContextContentFooter>
+					<span className="text-muted-foreground">Estimated cost</span>
+					<span>{costFormat.format(totals.costUSD)}</span>
+				</ContextContentFooter>
+			</ContextContent>
+		</Context>
+	);
+}
@@ -90,6 +90,14 @@ export const MemoizedMessage = memo<MemoizedMessageProps>(
             const hasTool = allParts.some(p => p.type.startsWith('tool-'));
             if (hasTool) return false;
 
+            // Workflow steps report their own progress.
+            const hasWorkflowProgress = allParts.some(p => p.type === 'data-workflow-progress');
+            if (hasWorkflowProgress) return false;
+
+            // Approval requests are shown as their own card.
+            const hasToolApproval = allParts.some(p => p.type === 'data-tool-approval');
+            if (hasToolApproval) return false;
+
             // Check data-network parts for visible content (reasoning or tool results)
             const hasNetworkContent = allParts.some(p => {
                 if (p.type !== 'data-network') return false;
@@ -101,6 +109,8 @@ export const MemoizedMessage = memo<MemoizedMessageProps>(
                     if (step.task?.reason) return true;
                     // Check for tool results
                     if (step.task?.toolResults?.length > 0) return true;
+                    // Check for workflow runs
+                    if (step.task?.steps) return true;
                     return false;
                 });
             });
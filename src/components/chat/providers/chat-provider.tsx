@@ -2,6 +2,7 @@
 
 import { createContext, useContext, useRef, type ReactNode } from 'react';
 import type { UIMessage } from '@ai-sdk/react';
+import type { ToolApprovalData } from '@/lib/tool-approvals';
 
 // ============================================================================
 // Chat Context Types
@@ -29,6 +30,8 @@ interface ChatActionsContextValue {
     toggleWebSearch: () => void;
     /** Reload the last message */
     reload: () => void;
+    /** Approve or reject a tool call the agent run is suspended on */
+    respondToToolApproval: (approval: ToolApprovalData, approved: boolean) => void;
 }
 
 // ============================================================================
@@ -66,6 +69,20 @@ export function useChatActions(): ChatActionsContextValue {
     return context;
 }
 
+/**
+ * Optional version of useChatActions that returns null outside a ChatProvider
+ */
+export function useChatActionsSafe(): ChatActionsContextValue | null {
+    return useContext(ChatActionsContext);
+}
+
+/**
+ * Optional version of useChatStatus that returns null outside a ChatProvider
+ */
+export function useChatStatusSafe(): ChatStatus | null {
+    return useContext(ChatStateContext)?.status ?? null;
+}
+
 /**
  * Hook to get just the messages (optimized, avoids re-render on status change)
  */
@@ -119,6 +136,8 @@ interface ChatProviderProps {
     onToggleWebSearch: () => void;
     /** Reload handler */
     onReload: () => void;
+    /** Tool approval handler */
+    onRespondToToolApproval: (approval: ToolApprovalData, approved: boolean) => void;
     /** Children */
     children: ReactNode;
 }
@@ -138,6 +157,7 @@ interface ChatProviderProps {
  *   onStop={handleStop}
  *   onToggleWebSearch={handleToggle}
  *   onReload={handleReload}
+ *   onRespondToToolApproval={handleToolApproval}
  * >
  *   <Chat.Messages />
  *   <Chat.Input />
@@ -153,6 +173,7 @@ export function ChatProvider({
     onStop,
     onToggleWebSearch,
     onReload,
+    onRespondToToolApproval,
     children,
 }: ChatProviderProps) {
     // Use refs to keep actions stable
@@ -161,6 +182,7 @@ export function ChatProvider({
         stop: onStop,
         toggleWebSearch: onToggleWebSearch,
         reload: onReload,
+        respondToToolApproval: onRespondToToolApproval,
     });
 
     // Update refs on each render
@@ -168,6 +190,7 @@ export function ChatProvider({
     actionsRef.current.stop = onStop;
     actionsRef.current.toggleWebSearch = onToggleWebSearch;
     actionsRef.current.reload = onReload;
+    actionsRef.current.respondToToolApproval = onRespondToToolApproval;
 
     const stateValue: ChatContextValue = {
         threadId,
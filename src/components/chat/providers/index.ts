@@ -9,8 +9,10 @@ export {
     ChatProvider,
     useChatState,
     useChatActions,
+    useChatActionsSafe,
     useChatMessages,
     useChatStatus,
+    useChatStatusSafe,
     useIsChatlStreaming,
     useChatThreadId,
 } from './chat-provider';
@@ -21,12 +21,16 @@ const DynamicToolRendererComponent = memo<RendererProps<DynamicToolPart>>(({ par
                         const webSearchOutput = child.toolOutput as {
                             text?: string;
                             sources?: SourceData[];
+                            cached?: boolean;
                         };
 
                         if (webSearchOutput.sources && webSearchOutput.sources.length > 0) {
                             return (
                                 <Sources key={childIndex}>
-                                    <SourcesTrigger count={webSearchOutput.sources.length} />
+                                    <SourcesTrigger
+                                        cached={webSearchOutput.cached}
+                                        count={webSearchOutput.sources.length}
+                                    />
                                     <SourcesContent>
                                         {webSearchOutput.sources.map((source, i) => (
                                             <Source
@@ -23,6 +23,7 @@
  */
 
 export { dynamicToolRenderer } from './dynamic-tool-renderer';
+export { memoryRecallRenderer } from './memory-recall-renderer';
 export { networkRenderer } from './network-renderer';
 export { reasoningRenderer } from './reasoning-renderer';
 // Export registries
@@ -30,23 +31,44 @@ export { RendererRegistry, rendererRegistry } from './registry';
 // Export individual renderers
 export { textRenderer } from './text-renderer';
 export { toolRenderer } from './tool-renderer';
+export { toolApprovalRenderer } from './tool-approval-renderer';
 export { type ToolUIRegistration, ToolUIRegistry, toolUIRegistry } from './tool-ui-registry';
 // Export types
 export * from './types';
 export { weatherRenderer } from './weather-renderer';
+export { workflowProgressRenderer } from './workflow-progress-renderer';
+export { WorkflowRun, workflowRenderer } from './workflow-renderer';
 
-import { isWeatherData, WeatherCard } from '@/components/chat/tools/weather-card';
+import { ActivitiesCard, isActivitiesData } from '@/components/chat/tools/activities-card';
+import {
+	DestinationCarousel,
+	isDestinationsSearchData,
+} from '@/components/chat/tools/destination-card';
+import {
+	isLocationDisambiguationData,
+	LocationPickerCard,
+} from '@/components/chat/tools/location-picker-card';
+import {
+	isWeatherData,
+	isWeatherForecastData,
+	WeatherCard,
+	WeatherForecastCard,
+} from '@/components/chat/tools/weather-card';
 import { dynamicToolRenderer } from './dynamic-tool-renderer';
+import { memoryRecallRenderer } from './memory-recall-renderer';
 import { networkRenderer } from './network-renderer';
 import { reasoningRenderer } from './reasoning-renderer';
 // Import for registration
 import { rendererRegistry } from './registry';
 import { textRenderer } from './text-renderer';
+import { toolApprovalRenderer } from './tool-approval-renderer';
 import { toolRenderer } from './tool-renderer';
 // Import tool UI registry and register default tool UIs
 import { toolUIRegistry } from './tool-ui-registry';
 import type { MessageRenderer } from './types';
 import { weatherRenderer } from './weather-renderer';
+import { workflowProgressRenderer } from './workflow-progress-renderer';
+import { workflowRenderer } from './workflow-renderer';
 
 // Register all default renderers (cast to base type for registry)
 rendererRegistry.register(textRenderer as MessageRenderer);
@@ -55,6 +77,10 @@ rendererRegistry.register(networkRenderer as MessageRenderer);
 rendererRegistry.register(toolRenderer as MessageRenderer);
 rendererRegistry.register(dynamicToolRenderer as MessageRenderer);
 rendererRegistry.register(weatherRenderer as MessageRenderer);
+rendererRegistry.register(workflowRenderer as MessageRenderer);
+rendererRegistry.register(workflowProgressRenderer as MessageRenderer);
+rendererRegistry.register(toolApprovalRenderer as MessageRenderer);
+rendererRegistry.register(memoryRecallRenderer as MessageRenderer);
 
 // Register default tool UI components
 // These automatically render in both streaming and history contexts
@@ -63,3 +89,27 @@ toolUIRegistry.register({
 	Component: WeatherCard,
 	isValidOutput: isWeatherData,
 });
+
+toolUIRegistry.register({
+	toolIds: ['get-weather', 'weatherTool'],
+	Component: WeatherForecastCard,
+	isValidOutput: isWeatherForecastData,
+});
+
+toolUIRegistry.register({
+	toolIds: ['get-weather', 'weatherTool'],
+	Component: LocationPickerCard,
+	isValidOutput: isLocationDisambiguationData,
+});
+
+toolUIRegistry.register({
+	toolIds: ['destinations-search', 'destinationsSearchTool'],
+	Component: DestinationCarousel,
+	isValidOutput: isDestinationsSearchData,
+});
+
+toolUIRegistry.register({
+	toolIds: ['weather-workflow', 'weatherWorkflow'],
+	Component: ActivitiesCard,
+	isValidOutput: isActivitiesData,
+});
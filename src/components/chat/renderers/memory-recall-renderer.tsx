@@ -0,0 +1,30 @@
+import { memo } from 'react';
+import { RecalledThreads } from '@/components/chat/molecules/recalled-threads';
+import { isMemoryRecallData } from '@/lib/memory-recall';
+import type { MemoryRecallPart, MessageRenderer, RendererProps } from './types';
+import { isMemoryRecallPart } from './types';
+
+/**
+ * Memory Recall Renderer Component
+ * Links the earlier conversations the answer drew on,
+ * both while streaming and when restored from memory
+ */
+const MemoryRecallRendererComponent = memo<RendererProps<MemoryRecallPart>>(
+	({ part, partIndex }) => {
+		if (!isMemoryRecallData(part.data) || part.data.threads.length === 0) return null;
+
+		return <RecalledThreads key={partIndex} threads={part.data.threads} />;
+	}
+);
+
+MemoryRecallRendererComponent.displayName = 'MemoryRecallRenderer';
+
+/**
+ * Memory Recall Renderer definition for the registry
+ */
+export const memoryRecallRenderer: MessageRenderer<MemoryRecallPart> = {
+	type: 'data-memory-recall',
+	canRender: isMemoryRecallPart,
+	Component: MemoryRecallRendererComponent as unknown as React.FC<RendererProps>,
+	priority: 12,
+};
@@ -5,9 +5,11 @@ import { MessageResponse } from '@/components/ai-elements/message';
 import { Reasoning, ReasoningContent, ReasoningTrigger } from '@/components/ai-elements/reasoning';
 import { Source, Sources, SourcesContent, SourcesTrigger } from '@/components/ai-elements/sources';
 import { useNetworkData } from '@/hooks/use-network-data';
+import { type WorkflowRunData, workflowRunFromStream } from '@/lib/workflow-runs';
 import { toolUIRegistry } from './tool-ui-registry';
 import type { MessageRenderer, NetworkPart, RendererProps } from './types';
 import { isNetworkPart } from './types';
+import { WorkflowRun } from './workflow-renderer';
 
 /**
  * Extract tool results that have custom UI components registered
@@ -48,6 +50,18 @@ function extractToolUIFromNetwork(networkData: NetworkPart['data']): Array<{
     return results;
 }
 
+/**
+ * Extract workflow runs from network steps, with their per-step status
+ */
+function extractWorkflowRunsFromNetwork(networkData: NetworkPart['data']): WorkflowRunData[] {
+    if (!networkData?.steps) return [];
+
+    return networkData.steps.flatMap((step) => {
+        const run = workflowRunFromStream(step as Parameters<typeof workflowRunFromStream>[0]);
+        return run ? [run] : [];
+    });
+}
+
 /**
  * Network Renderer Component
  * Renders agent network execution with reasoning, sources, and fallback output
@@ -59,11 +73,14 @@ const NetworkRendererComponent = memo<RendererProps<NetworkPart>>(
         const isStreaming = status === 'streaming' && isLastMessage;
 
         // Use hook for structured data extraction
-        const { reasoning, sources, hasOutput, output } = useNetworkData(networkData);
+        const { reasoning, sources, sourcesCached, hasOutput, output } = useNetworkData(networkData);
 
         // Extract tool results that have custom UI components
         const toolUIResults = useMemo(() => extractToolUIFromNetwork(networkData), [networkData]);
 
+        // Extract workflow runs executed by the network
+        const workflowRuns = useMemo(() => extractWorkflowRunsFromNetwork(networkData), [networkData]);
+
         // Apply fallback only when:
         // 1. No text part in the message
         // 2. Stream finished (status === 'ready')
@@ -81,6 +98,10 @@ const NetworkRendererComponent = memo<RendererProps<NetworkPart>>(
                             <ReasoningContent>{reasoning}</ReasoningContent>
                         </Reasoning>
                     )}
+                    {/* Workflow runs */}
+                    {workflowRuns.map((run, index) => (
+                        <WorkflowRun key={`${run.name}-${index}`} run={run} />
+                    ))}
                     {/* Tool UI components from registry */}
                     {toolUIResults.map(({ Component, data, toolName }, index) => (
                         <Component data={data} key={`${toolName}-${index}`} />
@@ -90,7 +111,7 @@ const NetworkRendererComponent = memo<RendererProps<NetworkPart>>(
                     {/* Show sources if they exist */}
                     {sources && sources.length > 0 && (
                         <Sources>
-                            <SourcesTrigger count={sources.length} />
+                            <SourcesTrigger cached={sourcesCached} count={sources.length} />
                             <SourcesContent>
                                 {sources.map((source, i) => (
                                     <Source
@@ -119,6 +140,10 @@ const NetworkRendererComponent = memo<RendererProps<NetworkPart>>(
                         <ReasoningContent>{reasoning}</ReasoningContent>
                     </Reasoning>
                 )}
+                {/* Workflow runs */}
+                {workflowRuns.map((run, index) => (
+                    <WorkflowRun key={`${run.name}-${index}`} run={run} />
+                ))}
                 {/* Tool UI components from registry */}
                 {toolUIResults.map(({ Component, data, toolName }, index) => (
                     <Component data={data} key={`${toolName}-${index}`} />
@@ -128,7 +153,7 @@ const NetworkRendererComponent = memo<RendererProps<NetworkPart>>(
                 {/* Show sources if they exist */}
                 {sources && sources.length > 0 && (
                     <Sources>
-                        <SourcesTrigger count={sources.length} />
+                        <SourcesTrigger cached={sourcesCached} count={sources.length} />
                         <SourcesContent>
                             {sources.map((source, i) => (
                                 <Source
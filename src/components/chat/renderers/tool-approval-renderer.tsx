@@ -0,0 +1,30 @@
+import { memo } from 'react';
+import { ToolApprovalCard } from '@/components/chat/tools/tool-approval-card';
+import { isToolApprovalData } from '@/lib/tool-approvals';
+import type { MessageRenderer, RendererProps, ToolApprovalPart } from './types';
+import { isToolApprovalPart } from './types';
+
+/**
+ * Tool Approval Renderer Component
+ * Renders the approve/reject card for tool calls the network is suspended on,
+ * both while streaming and when restored from memory
+ */
+const ToolApprovalRendererComponent = memo<RendererProps<ToolApprovalPart>>(
+	({ part, partIndex }) => {
+		if (!isToolApprovalData(part.data)) return null;
+
+		return <ToolApprovalCard data={part.data} key={partIndex} />;
+	}
+);
+
+ToolApprovalRendererComponent.displayName = 'ToolApprovalRenderer';
+
+/**
+ * Tool Approval Renderer definition for the registry
+ */
+export const toolApprovalRenderer: MessageRenderer<ToolApprovalPart> = {
+	type: 'data-tool-approval',
+	canRender: isToolApprovalPart,
+	Component: ToolApprovalRendererComponent as unknown as React.FC<RendererProps>,
+	priority: 12,
+};
@@ -27,6 +27,8 @@ export interface ToolUIRegistration<TOutput = unknown> {
  * ToolUIRegistry - Central registry for tool-specific UI components
  *
  * Maps tool IDs to custom React components for rendering tool outputs.
+ * A tool ID can have several registrations (e.g. one per output variant);
+ * the first one whose `isValidOutput` accepts the output is used.
  * Components registered here automatically render in both:
  * - Streaming context (via network-renderer)
  * - History context (via dynamic-tool-renderer)
@@ -48,14 +50,15 @@ export interface ToolUIRegistration<TOutput = unknown> {
  * ```
  */
 export class ToolUIRegistry {
-    private registrations = new Map<string, ToolUIRegistration>();
+    private registrations = new Map<string, ToolUIRegistration[]>();
 
     /**
      * Register a custom UI component for one or more tool IDs
      */
     register<T>(registration: ToolUIRegistration<T>): void {
         for (const toolId of registration.toolIds) {
-            this.registrations.set(toolId, registration as ToolUIRegistration);
+            const existing = this.registrations.get(toolId) ?? [];
+            this.registrations.set(toolId, [...existing, registration as ToolUIRegistration]);
         }
     }
 
@@ -69,11 +72,11 @@ export class ToolUIRegistry {
     ): { Component: FC<{ data: unknown }>; data: unknown } | null {
         if (!toolName) return null;
 
-        const registration = this.registrations.get(toolName);
+        const registration = this.registrations
+            .get(toolName)
+            ?.find((candidate) => candidate.isValidOutput(output));
         if (!registration) return null;
 
-        if (!registration.isValidOutput(output)) return null;
-
         return {
             Component: registration.Component as FC<{ data: unknown }>,
             data: output,
@@ -96,7 +99,7 @@ export class ToolUIRegistry {
     }
 
     /**
-     * Unregister a tool UI by ID
+     * Unregister all tool UIs for an ID
      */
     unregister(toolId: string): void {
         this.registrations.delete(toolId);
@@ -1,6 +1,9 @@
 import type { NetworkDataPart } from '@mastra/ai-sdk';
 import type { ToolUIPart } from 'ai';
 import type { ReactElement } from 'react';
+import type { MemoryRecallData } from '@/lib/memory-recall';
+import type { ToolApprovalData } from '@/lib/tool-approvals';
+import type { WorkflowRunData } from '@/lib/workflow-runs';
 
 // ============================================================================
 // Base Types
@@ -54,6 +57,41 @@ export interface NetworkPart {
     [key: string]: unknown;
 }
 
+/**
+ * Progress event streamed by a workflow step (see src/mastra/workflows/progress.ts)
+ */
+export interface WorkflowProgressPart {
+    type: 'data-workflow-progress';
+    id?: string;
+    data: {
+        workflow: string;
+        step: string;
+        status: 'running' | 'done';
+        message: string;
+    };
+    [key: string]: unknown;
+}
+
+/**
+ * Approval request for a tool marked with `requireApproval` (see src/mastra/routes/chat.ts)
+ */
+export interface ToolApprovalPart {
+    type: 'data-tool-approval';
+    id?: string;
+    data: ToolApprovalData;
+    [key: string]: unknown;
+}
+
+/**
+ * Other threads semantic recall drew on for the answer (see src/mastra/conversation-recall.ts)
+ */
+export interface MemoryRecallPart {
+    type: 'data-memory-recall';
+    id?: string;
+    data: MemoryRecallData;
+    [key: string]: unknown;
+}
+
 /**
  * Source URL part (Mastra sendSources: true format)
  */
@@ -98,6 +136,8 @@ export interface DynamicToolPart {
             content?: string;
         }>;
         result?: string;
+        /** Workflow run, when the network executed a workflow */
+        workflow?: WorkflowRunData;
     };
     [key: string]: unknown;
 }
@@ -122,6 +162,9 @@ export type MessagePart =
     | TextPart
     | ReasoningPart
     | NetworkPart
+    | WorkflowProgressPart
+    | ToolApprovalPart
+    | MemoryRecallPart
     | SourceUrlPart
     | SourcePart
     | DynamicToolPart
@@ -143,6 +186,18 @@ export const isNetworkPart = (part: GenericPart): part is NetworkPart => {
     return part.type === 'data-network' && 'data' in part;
 };
 
+export const isWorkflowProgressPart = (part: GenericPart): part is WorkflowProgressPart => {
+    return part.type === 'data-workflow-progress' && 'data' in part;
+};
+
+export const isToolApprovalPart = (part: GenericPart): part is ToolApprovalPart => {
+    return part.type === 'data-tool-approval' && 'data' in part;
+};
+
+export const isMemoryRecallPart = (part: GenericPart): part is MemoryRecallPart => {
+    return part.type === 'data-memory-recall' && 'data' in part;
+};
+
 export const isSourceUrlPart = (part: GenericPart): part is SourceUrlPart => {
     return part.type === 'source-url';
 };
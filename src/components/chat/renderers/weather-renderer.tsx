@@ -1,22 +1,33 @@
 import { memo } from 'react';
-import { isWeatherData, WeatherCard } from '@/components/chat/tools/weather-card';
 import { toolUIRegistry } from './tool-ui-registry';
 import type { MessageRenderer, RendererProps, ToolPart } from './types';
 import { isToolPart } from './types';
 
+/**
+ * Get the tool name from a tool part (toolName or name, depending on the source)
+ */
+function getToolName(part: ToolPart): string | undefined {
+    const toolPart = part as unknown as { toolName?: string; name?: string };
+    return toolPart.toolName || toolPart.name;
+}
+
 /**
  * Weather Renderer Component
  * Renders weather tool output in a specialized card format
- * Uses toolUIRegistry for consistent tool ID matching
+ * Uses toolUIRegistry for consistent tool ID matching, so each output
+ * variant (current conditions, multi-day forecast) gets its own card
  */
 const WeatherRendererComponent = memo<RendererProps<ToolPart>>(({ part }) => {
     // Support both Vercel AI SDK 'result' and mapped 'output' properties
     const output = part.output || (part as unknown as { result: unknown }).result;
+    if (!output) return null;
 
-    // Only render if we have valid weather data
-    if (!output || !isWeatherData(output)) return null;
+    // Only render if a registered card accepts the output
+    const customUI = toolUIRegistry.getComponent(getToolName(part), output);
+    if (!customUI) return null;
 
-    return <WeatherCard data={output} />;
+    const { Component, data } = customUI;
+    return <Component data={data} />;
 });
 
 WeatherRendererComponent.displayName = 'WeatherRenderer';
@@ -32,11 +43,8 @@ export const weatherRenderer: MessageRenderer<ToolPart> = {
     canRender: (part) => {
         if (!isToolPart(part)) return false;
 
-        const toolPart = part as unknown as { toolName?: string; name?: string };
-        const name = toolPart.toolName || toolPart.name;
-
         // Use registry to check if this tool has custom UI registered
-        return toolUIRegistry.hasCustomUI(name);
+        return toolUIRegistry.hasCustomUI(getToolName(part));
     },
     Component: WeatherRendererComponent as unknown as React.FC<RendererProps>,
 };
@@ -0,0 +1,46 @@
+import { CheckCircleIcon } from 'lucide-react';
+import { memo } from 'react';
+import { Shimmer } from '@/components/ai-elements/shimmer';
+import type { MessageRenderer, RendererProps, WorkflowProgressPart } from './types';
+import { isWorkflowProgressPart } from './types';
+
+/**
+ * Workflow Progress Renderer Component
+ * Renders progress events streamed by workflow steps, only while the last message is streaming
+ */
+const WorkflowProgressRendererComponent = memo<RendererProps<WorkflowProgressPart>>(
+	({ part, partIndex, isLastMessage, status }) => {
+		if (status !== 'streaming' || !isLastMessage) {
+			return null;
+		}
+
+		const { message, status: stepStatus } = part.data;
+
+		if (stepStatus === 'done') {
+			return (
+				<div className="flex items-center gap-2 text-muted-foreground text-sm" key={partIndex}>
+					<CheckCircleIcon className="size-4 text-green-600" />
+					<span>{message}</span>
+				</div>
+			);
+		}
+
+		return (
+			<Shimmer as="div" className="text-sm" key={partIndex}>
+				{message}
+			</Shimmer>
+		);
+	}
+);
+
+WorkflowProgressRendererComponent.displayName = 'WorkflowProgressRenderer';
+
+/**
+ * Workflow Progress Renderer definition for the registry
+ */
+export const workflowProgressRenderer: MessageRenderer<WorkflowProgressPart> = {
+	type: 'data-workflow-progress',
+	canRender: isWorkflowProgressPart,
+	Component: WorkflowProgressRendererComponent as unknown as React.FC<RendererProps>,
+	priority: 12,
+};
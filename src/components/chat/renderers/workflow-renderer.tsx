@@ -0,0 +1,52 @@
+import { memo } from 'react';
+import { WorkflowRunCard } from '@/components/chat/tools/workflow-run-card';
+import { isWorkflowRunData, type WorkflowRunData } from '@/lib/workflow-runs';
+import { toolUIRegistry } from './tool-ui-registry';
+import type { DynamicToolPart, MessageRenderer, RendererProps } from './types';
+import { isDynamicToolPart } from './types';
+
+/**
+ * Workflow run with its step-by-step status, followed by the custom UI
+ * registered for the workflow's output (toolUIRegistry, keyed by workflow id)
+ */
+export const WorkflowRun = memo<{ run: WorkflowRunData }>(({ run }) => {
+	const outputUI =
+		run.status === 'success' ? toolUIRegistry.getComponent(run.name, run.output) : null;
+
+	return (
+		<>
+			<WorkflowRunCard data={run} />
+			{outputUI && <outputUI.Component data={outputUI.data} />}
+		</>
+	);
+});
+
+WorkflowRun.displayName = 'WorkflowRun';
+
+/**
+ * Workflow Renderer Component
+ * Renders workflow runs restored from memory (dynamic-tool parts built by resolveInitialMessages)
+ */
+const WorkflowRendererComponent = memo<RendererProps<DynamicToolPart>>(({ part, partIndex }) => {
+	const run = part.output.workflow;
+	if (!isWorkflowRunData(run)) return null;
+
+	return (
+		<div className="space-y-2" key={partIndex}>
+			<WorkflowRun run={run} />
+		</div>
+	);
+});
+
+WorkflowRendererComponent.displayName = 'WorkflowRenderer';
+
+/**
+ * Workflow Renderer definition for the registry
+ * Higher priority than the generic dynamic-tool renderer
+ */
+export const workflowRenderer: MessageRenderer<DynamicToolPart> = {
+	type: 'workflow',
+	canRender: (part) => isDynamicToolPart(part) && isWorkflowRunData(part.output?.workflow),
+	Component: WorkflowRendererComponent as unknown as React.FC<RendererProps>,
+	priority: 9,
+};
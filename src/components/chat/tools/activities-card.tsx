@@ -0,0 +1,166 @@
+'use client';
+
+import {
+	ClockIcon,
+	CloudSunIcon,
+	HomeIcon,
+	MapPinIcon,
+	SunIcon,
+	SunriseIcon,
+	ThermometerIcon,
+	TriangleAlertIcon,
+} from 'lucide-react';
+import type { ComponentProps, ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+export interface Activity {
+	name: string;
+	description: string;
+	location: string;
+	timing: string;
+	weatherNote: string;
+}
+
+export interface ActivitiesData {
+	location: string;
+	date: string;
+	weather: {
+		condition: string;
+		maxTemp: number;
+		minTemp: number;
+		precipitationChance: number;
+	};
+	morning: Activity[];
+	afternoon: Activity[];
+	indoor: Activity[];
+	considerations: string[];
+}
+
+interface ActivitiesCardProps extends ComponentProps<'div'> {
+	data: ActivitiesData;
+}
+
+/**
+ * A single suggested activity
+ */
+function ActivityItem({ activity }: { activity: Activity }) {
+	return (
+		<div className="flex flex-col gap-1.5 rounded-md bg-muted/50 p-3">
+			<span className="font-medium text-sm">{activity.name}</span>
+			<p className="text-sm text-muted-foreground">{activity.description}</p>
+			<div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+				<span className="flex items-center gap-1.5">
+					<MapPinIcon className="size-3" />
+					{activity.location}
+				</span>
+				<span className="flex items-center gap-1.5">
+					<ClockIcon className="size-3" />
+					{activity.timing}
+				</span>
+			</div>
+			<span className="flex items-start gap-1.5 text-xs text-muted-foreground">
+				<ThermometerIcon className="mt-0.5 size-3 shrink-0" />
+				{activity.weatherNote}
+			</span>
+		</div>
+	);
+}
+
+/**
+ * A titled group of activities (morning, afternoon, indoor)
+ */
+function ActivitySection({
+	title,
+	icon,
+	activities,
+}: {
+	title: string;
+	icon: ReactNode;
+	activities: Activity[];
+}) {
+	if (activities.length === 0) return null;
+
+	return (
+		<div className="flex flex-col gap-2">
+			<span className="flex items-center gap-1.5 text-xs uppercase text-muted-foreground font-medium tracking-wide">
+				{icon}
+				{title}
+			</span>
+			<div className="grid gap-2 sm:grid-cols-2">
+				{activities.map((activity) => (
+					<ActivityItem activity={activity} key={`${activity.name}-${activity.timing}`} />
+				))}
+			</div>
+		</div>
+	);
+}
+
+/**
+ * ActivitiesCard Component
+ * Weather-aware activity suggestions from weatherWorkflow, matching the Tool component styling.
+ */
+export function ActivitiesCard({ data, className, ...props }: ActivitiesCardProps) {
+	return (
+		<div className={cn('not-prose mb-4 w-full rounded-md border', className)} {...props}>
+			{/* Header - matches ToolHeader styling */}
+			<div className="flex w-full items-center justify-between gap-4 p-3">
+				<div className="flex items-center gap-2">
+					<CloudSunIcon className="size-4 text-muted-foreground" />
+					<span className="font-medium text-sm">Activities in {data.location}</span>
+					<Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+						{data.weather.condition} · {Math.round(data.weather.minTemp)}°–
+						{Math.round(data.weather.maxTemp)}°C · {data.weather.precipitationChance}%
+					</Badge>
+				</div>
+			</div>
+
+			{/* Content - matches ToolContent styling */}
+			<div className="border-t p-4 space-y-4">
+				<ActivitySection
+					activities={data.morning}
+					icon={<SunriseIcon className="size-3" />}
+					title="Morning"
+				/>
+				<ActivitySection
+					activities={data.afternoon}
+					icon={<SunIcon className="size-3" />}
+					title="Afternoon"
+				/>
+				<ActivitySection
+					activities={data.indoor}
+					icon={<HomeIcon className="size-3" />}
+					title="Indoor alternatives"
+				/>
+
+				{data.considerations.length > 0 && (
+					<ul className="flex flex-col gap-1 text-xs text-muted-foreground">
+						{data.considerations.map((consideration) => (
+							<li className="flex items-start gap-1.5" key={consideration}>
+								<TriangleAlertIcon className="mt-0.5 size-3 shrink-0" />
+								{consideration}
+							</li>
+						))}
+					</ul>
+				)}
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Type guard to check if an object is valid ActivitiesData
+ */
+export function isActivitiesData(data: unknown): data is ActivitiesData {
+	if (!data || typeof data !== 'object') return false;
+	const d = data as Record<string, unknown>;
+	return (
+		typeof d.location === 'string' &&
+		typeof d.weather === 'object' &&
+		d.weather !== null &&
+		Array.isArray(d.morning) &&
+		Array.isArray(d.afternoon) &&
+		Array.isArray(d.indoor) &&
+		Array.isArray(d.considerations)
+	);
+}
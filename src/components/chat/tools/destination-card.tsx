@@ -0,0 +1,179 @@
+'use client';
+
+import { CalendarIcon, MapPinIcon, SparklesIcon } from 'lucide-react';
+import type { ComponentProps } from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+	Carousel,
+	CarouselContent,
+	CarouselItem,
+	CarouselNext,
+	CarouselPrevious,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+
+export interface DestinationResult {
+	city: string;
+	country: string;
+	region?: string;
+	description: string;
+	highlights: string[];
+	bestTimeToVisit: string;
+	travelType: string[];
+	budgetTier?: string;
+	score?: number;
+	reasons?: string[];
+}
+
+export interface DestinationsSearchData {
+	query: string;
+	destinations: DestinationResult[];
+}
+
+interface DestinationCardProps extends ComponentProps<'div'> {
+	destination: DestinationResult;
+}
+
+interface DestinationCarouselProps extends ComponentProps<'div'> {
+	data: DestinationsSearchData;
+}
+
+/**
+ * DestinationCard Component
+ * A single destination: highlights, best time to visit and travel-type badges.
+ */
+export function DestinationCard({ destination, className, ...props }: DestinationCardProps) {
+	return (
+		<div
+			className={cn('flex h-full flex-col gap-3 rounded-md bg-muted/50 p-3', className)}
+			{...props}
+		>
+			{/* Title */}
+			<div className="flex items-start justify-between gap-2">
+				<div className="flex flex-col">
+					<span className="font-medium text-sm">{destination.city}</span>
+					<span className="text-xs text-muted-foreground">{destination.country}</span>
+				</div>
+				{destination.budgetTier && (
+					<Badge className="rounded-full text-xs capitalize" variant="outline">
+						{destination.budgetTier}
+					</Badge>
+				)}
+			</div>
+
+			<p className="text-sm text-muted-foreground">{destination.description}</p>
+
+			{/* Highlights */}
+			<div className="flex flex-col gap-1">
+				<span className="text-xs uppercase text-muted-foreground font-medium tracking-wide">
+					Highlights
+				</span>
+				<ul className="flex flex-col gap-0.5 text-sm">
+					{destination.highlights.map((highlight) => (
+						<li className="flex items-center gap-1.5" key={highlight}>
+							<MapPinIcon className="size-3 shrink-0 text-muted-foreground" />
+							{highlight}
+						</li>
+					))}
+				</ul>
+			</div>
+
+			{/* Best time to visit */}
+			<div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+				<CalendarIcon className="size-3 shrink-0" />
+				<span>{destination.bestTimeToVisit}</span>
+			</div>
+
+			{/* Why this matched */}
+			{destination.reasons && destination.reasons.length > 0 && (
+				<div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+					<SparklesIcon className="mt-0.5 size-3 shrink-0" />
+					<span>{destination.reasons.join(' · ')}</span>
+				</div>
+			)}
+
+			{/* Travel types */}
+			<div className="mt-auto flex flex-wrap gap-1.5">
+				{destination.travelType.map((type) => (
+					<Badge className="rounded-full text-xs capitalize" key={type} variant="secondary">
+						{type}
+					</Badge>
+				))}
+			</div>
+		</div>
+	);
+}
+
+/**
+ * DestinationCarousel Component
+ * Renders destinations-search results as a carousel of DestinationCards,
+ * matching the Tool component styling.
+ */
+export function DestinationCarousel({ data, className, ...props }: DestinationCarouselProps) {
+	const hasMultiple = data.destinations.length > 1;
+
+	return (
+		<div className={cn('not-prose mb-4 w-full rounded-md border', className)} {...props}>
+			<Carousel opts={{ align: 'start' }}>
+				{/* Header - matches ToolHeader styling */}
+				<div className="flex w-full items-center justify-between gap-4 p-3">
+					<div className="flex min-w-0 items-center gap-2">
+						<MapPinIcon className="size-4 shrink-0 text-muted-foreground" />
+						<span className="font-medium text-sm">Destinations</span>
+						<Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+							{data.destinations.length}
+						</Badge>
+						{data.query && (
+							<span className="truncate text-xs text-muted-foreground">{data.query}</span>
+						)}
+					</div>
+					{hasMultiple && (
+						<div className="flex shrink-0 items-center gap-1">
+							<CarouselPrevious className="static translate-y-0" />
+							<CarouselNext className="static translate-y-0" />
+						</div>
+					)}
+				</div>
+
+				{/* Content - matches ToolContent styling */}
+				<div className="border-t p-4">
+					<CarouselContent>
+						{data.destinations.map((destination) => (
+							<CarouselItem
+								className={cn(hasMultiple && 'sm:basis-1/2')}
+								key={`${destination.city}-${destination.country}`}
+							>
+								<DestinationCard destination={destination} />
+							</CarouselItem>
+						))}
+					</CarouselContent>
+				</div>
+			</Carousel>
+		</div>
+	);
+}
+
+/**
+ * Type guard to check if an object is valid DestinationsSearchData
+ */
+export function isDestinationsSearchData(data: unknown): data is DestinationsSearchData {
+	if (!data || typeof data !== 'object') return false;
+	const d = data as Record<string, unknown>;
+	return (
+		typeof d.query === 'string' &&
+		Array.isArray(d.destinations) &&
+		d.destinations.length > 0 &&
+		d.destinations.every((destination) => {
+			if (!destination || typeof destination !== 'object') return false;
+			const item = destination as Record<string, unknown>;
+			return (
+				typeof item.city === 'string' &&
+				typeof item.country === 'string' &&
+				typeof item.description === 'string' &&
+				Array.isArray(item.highlights) &&
+				typeof item.bestTimeToVisit === 'string' &&
+				Array.isArray(item.travelType)
+			);
+		})
+	);
+}
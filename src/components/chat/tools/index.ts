@@ -1 +1,30 @@
-export { WeatherCard, isWeatherData, type WeatherData } from './weather-card';
+export {
+	ActivitiesCard,
+	isActivitiesData,
+	type Activity,
+	type ActivitiesData,
+} from './activities-card';
+export {
+	DestinationCard,
+	DestinationCarousel,
+	isDestinationsSearchData,
+	type DestinationResult,
+	type DestinationsSearchData,
+} from './destination-card';
+export {
+	LocationPickerCard,
+	isLocationDisambiguationData,
+	type LocationCandidate,
+	type LocationDisambiguationData,
+} from './location-picker-card';
+export { ToolApprovalCard } from './tool-approval-card';
+export {
+	WeatherCard,
+	WeatherForecastCard,
+	isWeatherData,
+	isWeatherForecastData,
+	type WeatherData,
+	type WeatherForecastData,
+	type WeatherForecastDay,
+} from './weather-card';
+export { WorkflowRunCard } from './workflow-run-card';
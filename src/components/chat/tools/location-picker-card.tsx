@@ -0,0 +1,88 @@
+'use client';
+
+import { MapPinIcon } from 'lucide-react';
+import type { ComponentProps } from 'react';
+import { useState } from 'react';
+import { Suggestion, Suggestions } from '@/components/ai-elements/suggestion';
+import { useChatActionsSafe, useChatStatusSafe } from '@/components/chat/providers';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+export interface LocationCandidate {
+	label: string;
+	name: string;
+	region?: string;
+	country?: string;
+	countryCode?: string;
+	latitude: number;
+	longitude: number;
+	population?: number;
+}
+
+export interface LocationDisambiguationData {
+	mode: 'disambiguation';
+	query: string;
+	candidates: LocationCandidate[];
+}
+
+interface LocationPickerCardProps extends ComponentProps<'div'> {
+	data: LocationDisambiguationData;
+}
+
+/**
+ * LocationPickerCard Component
+ * Shown when a location name matches several places. Picking a candidate sends
+ * its label back to the conversation so the agent can continue with that place.
+ */
+export function LocationPickerCard({ data, className, ...props }: LocationPickerCardProps) {
+	const actions = useChatActionsSafe();
+	const status = useChatStatusSafe();
+	const [selected, setSelected] = useState<string | null>(null);
+
+	const isBusy = status === 'streaming' || status === 'submitted';
+
+	const handleSelect = (label: string) => {
+		if (!actions || isBusy) return;
+		setSelected(label);
+		actions.sendMessage(label);
+	};
+
+	return (
+		<div className={cn('not-prose mb-4 w-full rounded-md border', className)} {...props}>
+			{/* Header - matches ToolHeader styling */}
+			<div className="flex w-full items-center justify-between gap-4 p-3">
+				<div className="flex items-center gap-2">
+					<MapPinIcon className="size-4 text-muted-foreground" />
+					<span className="font-medium text-sm">Which "{data.query}" did you mean?</span>
+					<Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+						{data.candidates.length} matches
+					</Badge>
+				</div>
+			</div>
+
+			{/* Candidates */}
+			<div className="border-t p-4">
+				<Suggestions>
+					{data.candidates.map((candidate) => (
+						<Suggestion
+							disabled={!actions || isBusy || selected !== null}
+							key={candidate.label}
+							onClick={handleSelect}
+							suggestion={candidate.label}
+							variant={selected === candidate.label ? 'default' : 'outline'}
+						/>
+					))}
+				</Suggestions>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Type guard to check if an object is valid LocationDisambiguationData
+ */
+export function isLocationDisambiguationData(data: unknown): data is LocationDisambiguationData {
+	if (!data || typeof data !== 'object') return false;
+	const d = data as Record<string, unknown>;
+	return d.mode === 'disambiguation' && typeof d.query === 'string' && Array.isArray(d.candidates);
+}
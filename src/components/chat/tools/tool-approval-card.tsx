@@ -0,0 +1,135 @@
+'use client';
+
+import type { ToolUIPart } from 'ai';
+import { CheckIcon, ClockIcon, ShieldQuestionIcon, XIcon } from 'lucide-react';
+import type { ComponentProps } from 'react';
+import { useState } from 'react';
+import {
+	Confirmation,
+	ConfirmationAccepted,
+	ConfirmationAction,
+	ConfirmationActions,
+	ConfirmationRejected,
+	ConfirmationRequest,
+	ConfirmationTitle,
+} from '@/components/ai-elements/confirmation';
+import { useChatActionsSafe, useChatStatusSafe } from '@/components/chat/providers';
+import { Badge } from '@/components/ui/badge';
+import type { ToolApprovalData, ToolApprovalStatus } from '@/lib/tool-approvals';
+import { cn } from '@/lib/utils';
+
+interface ToolApprovalCardProps
+	extends Omit<ComponentProps<typeof Confirmation>, 'approval' | 'state'> {
+	data: ToolApprovalData;
+}
+
+/**
+ * Short summary of the tool arguments: the search query when there is one, JSON otherwise
+ */
+function describeArgs(args: unknown): string | null {
+	if (!args || typeof args !== 'object') return null;
+	const { query } = args as { query?: unknown };
+	if (typeof query === 'string') return query;
+	return JSON.stringify(args);
+}
+
+/**
+ * Map the approval status onto the Confirmation ai-element props
+ */
+function toConfirmationProps(id: string, status: ToolApprovalStatus) {
+	switch (status) {
+		case 'pending':
+			return { approval: { id }, state: 'approval-requested' as ToolUIPart['state'] };
+		case 'approved':
+			return {
+				approval: { id, approved: true },
+				state: 'approval-responded' as ToolUIPart['state'],
+			};
+		case 'declined':
+			return {
+				approval: { id, approved: false },
+				state: 'approval-responded' as ToolUIPart['state'],
+			};
+		default:
+			return { approval: { id }, state: 'output-denied' as ToolUIPart['state'] };
+	}
+}
+
+/**
+ * ToolApprovalCard Component
+ * Asks the user to approve a tool call the agent network is suspended on.
+ * Answering resumes the run; the buttons lock as soon as an answer is sent.
+ */
+export function ToolApprovalCard({ data, className, ...props }: ToolApprovalCardProps) {
+	const actions = useChatActionsSafe();
+	const status = useChatStatusSafe();
+	const [answer, setAnswer] = useState<boolean | null>(null);
+
+	const isBusy = status === 'streaming' || status === 'submitted';
+	const approvalStatus: ToolApprovalStatus =
+		data.status === 'pending' && answer !== null ? (answer ? 'approved' : 'declined') : data.status;
+	const summary = describeArgs(data.args);
+	const toolLabel = data.toolName.replace(/[-_]+/g, ' ');
+
+	const handleRespond = (approved: boolean) => {
+		if (!actions || isBusy) return;
+		setAnswer(approved);
+		actions.respondToToolApproval(data, approved);
+	};
+
+	return (
+		<Confirmation
+			className={cn('not-prose mb-4 w-full', className)}
+			{...toConfirmationProps(data.toolCallId, approvalStatus)}
+			{...props}
+		>
+			<ConfirmationTitle className="flex flex-col gap-1.5">
+				<span className="flex items-center gap-2 font-medium text-foreground">
+					<ShieldQuestionIcon className="size-4 text-muted-foreground" />
+					Run {toolLabel}?
+					{approvalStatus === 'pending' && (
+						<Badge className="rounded-full text-xs" variant="secondary">
+							Needs approval
+						</Badge>
+					)}
+				</span>
+				{summary && <span className="text-sm">“{summary}”</span>}
+			</ConfirmationTitle>
+
+			<ConfirmationRequest>
+				{data.reason && <p className="text-muted-foreground text-xs">{data.reason}</p>}
+			</ConfirmationRequest>
+			<ConfirmationAccepted>
+				<span className="flex items-center gap-1.5 text-muted-foreground text-xs">
+					<CheckIcon className="size-3 text-green-600" />
+					Approved
+				</span>
+			</ConfirmationAccepted>
+			<ConfirmationRejected>
+				<span className="flex items-center gap-1.5 text-muted-foreground text-xs">
+					<XIcon className="size-3 text-red-600" />
+					Declined
+				</span>
+			</ConfirmationRejected>
+			{approvalStatus === 'expired' && (
+				<span className="flex items-center gap-1.5 text-muted-foreground text-xs">
+					<ClockIcon className="size-3" />
+					Not answered
+				</span>
+			)}
+
+			<ConfirmationActions>
+				<ConfirmationAction
+					disabled={!actions || isBusy}
+					onClick={() => handleRespond(false)}
+					variant="outline"
+				>
+					Reject
+				</ConfirmationAction>
+				<ConfirmationAction disabled={!actions || isBusy} onClick={() => handleRespond(true)}>
+					Approve
+				</ConfirmationAction>
+			</ConfirmationActions>
+		</Confirmation>
+	);
+}
@@ -1,11 +1,23 @@
 'use client';
 
-import { CloudIcon, DropletsIcon, ThermometerIcon, WindIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+    CalendarDaysIcon,
+    CloudIcon,
+    DropletsIcon,
+    SunIcon,
+    SunriseIcon,
+    SunsetIcon,
+    ThermometerIcon,
+    UmbrellaIcon,
+    WindIcon,
+} from 'lucide-react';
 import type { ComponentProps } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 
 export interface WeatherData {
+    mode?: 'current';
     temperature: number;
     feelsLike: number;
     humidity: number;
@@ -15,10 +27,31 @@ export interface WeatherData {
     location: string;
 }
 
+export interface WeatherForecastDay {
+    date: string;
+    conditions: string;
+    maxTemp: number;
+    minTemp: number;
+    precipitationChance: number;
+    sunrise: string;
+    sunset: string;
+    uvIndex: number;
+}
+
+export interface WeatherForecastData {
+    mode: 'forecast';
+    location: string;
+    days: WeatherForecastDay[];
+}
+
 interface WeatherCardProps extends ComponentProps<'div'> {
     data: WeatherData;
 }
 
+interface WeatherForecastCardProps extends ComponentProps<'div'> {
+    data: WeatherForecastData;
+}
+
 /**
  * WeatherCard Component
  * A standalone, reusable weather display card matching the Tool component styling.
@@ -81,6 +114,86 @@ export function WeatherCard({ data, className, ...props }: WeatherCardProps) {
     );
 }
 
+/**
+ * Format an Open-Meteo ISO date/time, falling back to the raw value if it can't be parsed
+ */
+function formatForecastDate(value: string, pattern: string): string {
+    const date = parseISO(value);
+    return Number.isNaN(date.getTime()) ? value : format(date, pattern);
+}
+
+/**
+ * WeatherForecastCard Component
+ * Forecast variant of WeatherCard: renders a day-by-day strip for multi-day forecasts.
+ */
+export function WeatherForecastCard({ data, className, ...props }: WeatherForecastCardProps) {
+    return (
+        <div
+            className={cn('not-prose mb-4 w-full rounded-md border', className)}
+            {...props}
+        >
+            {/* Header - matches ToolHeader styling */}
+            <div className="flex w-full items-center justify-between gap-4 p-3">
+                <div className="flex items-center gap-2">
+                    <CalendarDaysIcon className="size-4 text-muted-foreground" />
+                    <span className="font-medium text-sm">{data.location}</span>
+                    <Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+                        {data.days.length}-day forecast
+                    </Badge>
+                </div>
+            </div>
+
+            {/* Day-by-day strip */}
+            <div className="border-t p-4">
+                <div className="flex gap-3 overflow-x-auto pb-1">
+                    {data.days.map((day) => (
+                        <div
+                            className="flex min-w-32 flex-col gap-2 rounded-md bg-muted/50 p-3"
+                            key={day.date}
+                        >
+                            <div className="flex flex-col">
+                                <span className="text-xs uppercase text-muted-foreground font-medium tracking-wide">
+                                    {formatForecastDate(day.date, 'EEE')}
+                                </span>
+                                <span className="text-sm font-medium">
+                                    {formatForecastDate(day.date, 'MMM d')}
+                                </span>
+                            </div>
+                            <span className="text-xs text-muted-foreground">{day.conditions}</span>
+                            <div className="flex items-baseline gap-1.5">
+                                <span className="text-lg font-bold tracking-tight">
+                                    {Math.round(day.maxTemp)}°
+                                </span>
+                                <span className="text-sm text-muted-foreground">
+                                    {Math.round(day.minTemp)}°
+                                </span>
+                            </div>
+                            <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+                                <span className="flex items-center gap-1.5">
+                                    <UmbrellaIcon className="size-3" />
+                                    {day.precipitationChance}%
+                                </span>
+                                <span className="flex items-center gap-1.5">
+                                    <SunIcon className="size-3" />
+                                    UV {Math.round(day.uvIndex)}
+                                </span>
+                                <span className="flex items-center gap-1.5">
+                                    <SunriseIcon className="size-3" />
+                                    {formatForecastDate(day.sunrise, 'HH:mm')}
+                                </span>
+                                <span className="flex items-center gap-1.5">
+                                    <SunsetIcon className="size-3" />
+                                    {formatForecastDate(day.sunset, 'HH:mm')}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
+
 /**
  * Type guard to check if an object is valid WeatherData
  */
@@ -93,3 +206,12 @@ export function isWeatherData(data: unknown): data is WeatherData {
         typeof d.conditions === 'string'
     );
 }
+
+/**
+ * Type guard to check if an object is valid WeatherForecastData
+ */
+export function isWeatherForecastData(data: unknown): data is WeatherForecastData {
+    if (!data || typeof data !== 'object') return false;
+    const d = data as Record<string, unknown>;
+    return d.mode === 'forecast' && typeof d.location === 'string' && Array.isArray(d.days);
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import {
+	CheckCircleIcon,
+	ChevronDownIcon,
+	CircleIcon,
+	ClockIcon,
+	PauseCircleIcon,
+	WorkflowIcon,
+	XCircleIcon,
+} from 'lucide-react';
+import type { ComponentProps, ReactNode } from 'react';
+import { Task, TaskContent, TaskItem, TaskTrigger } from '@/components/ai-elements/task';
+import { ToolInput, ToolOutput } from '@/components/ai-elements/tool';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { WorkflowRunData } from '@/lib/workflow-runs';
+
+interface WorkflowRunCardProps extends Omit<ComponentProps<typeof Task>, 'children'> {
+	data: WorkflowRunData;
+}
+
+const statusLabels: Record<string, string> = {
+	pending: 'Pending',
+	running: 'Running',
+	waiting: 'Waiting',
+	success: 'Completed',
+	failed: 'Failed',
+	suspended: 'Suspended',
+	paused: 'Paused',
+	canceled: 'Canceled',
+	bailed: 'Stopped',
+	tripwire: 'Blocked',
+};
+
+function getStatusIcon(status: string): ReactNode {
+	switch (status) {
+		case 'running':
+			return <ClockIcon className="size-4 animate-pulse" />;
+		case 'success':
+			return <CheckCircleIcon className="size-4 text-green-600" />;
+		case 'failed':
+		case 'tripwire':
+			return <XCircleIcon className="size-4 text-red-600" />;
+		case 'suspended':
+		case 'paused':
+		case 'waiting':
+			return <PauseCircleIcon className="size-4 text-yellow-600" />;
+		default:
+			return <CircleIcon className="size-4" />;
+	}
+}
+
+/**
+ * Turn a workflow or step id ("itinerary-workflow", "itineraryWorkflow") into a readable title ("Itinerary workflow")
+ */
+function formatName(name: string): string {
+	const words = name
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.replace(/[-_]+/g, ' ')
+		.trim()
+		.toLowerCase();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * WorkflowRunCard Component
+ * Shows each step of a workflow run with its status, input and output, using the Task ai-element.
+ */
+export function WorkflowRunCard({ data, className, defaultOpen, ...props }: WorkflowRunCardProps) {
+	const isRunning = data.status === 'running';
+
+	return (
+		<Task
+			className={cn('not-prose mb-4 w-full rounded-md border p-3', className)}
+			defaultOpen={defaultOpen ?? isRunning}
+			{...props}
+		>
+			<TaskTrigger title={formatName(data.name)}>
+				<div className="flex w-full cursor-pointer items-center justify-between gap-4">
+					<div className="flex items-center gap-2">
+						<WorkflowIcon className="size-4 text-muted-foreground" />
+						<span className="font-medium text-sm">{formatName(data.name)}</span>
+						<Badge className="gap-1.5 rounded-full text-xs" variant="secondary">
+							{getStatusIcon(data.status)}
+							{statusLabels[data.status] ?? data.status}
+						</Badge>
+					</div>
+					<ChevronDownIcon className="size-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
+				</div>
+			</TaskTrigger>
+			<TaskContent>
+				{data.steps.length === 0 && <TaskItem>Starting…</TaskItem>}
+				{data.steps.map((step) => (
+					<TaskItem key={step.name}>
+						<Task defaultOpen={false}>
+							<TaskTrigger title={step.name}>
+								<div className="flex cursor-pointer items-center gap-2 transition-colors hover:text-foreground">
+									{getStatusIcon(step.status)}
+									<span>{formatName(step.name)}</span>
+									<span className="text-xs">{statusLabels[step.status] ?? step.status}</span>
+								</div>
+							</TaskTrigger>
+							<TaskContent>
+								{step.input != null && <ToolInput className="p-0" input={step.input} />}
+								<ToolOutput className="p-0" errorText={step.error} output={step.output} />
+							</TaskContent>
+						</Task>
+					</TaskItem>
+				))}
+			</TaskContent>
+		</Task>
+	);
+}
@@ -0,0 +1,177 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { RunTrace, TraceSpan } from '@/lib/mastra-queries';
+import { cn } from '@/lib/utils';
+
+interface TraceWaterfallProps {
+	trace: RunTrace;
+	/** Show workflow plumbing (loops, conditions, parallel branches) and memory processors */
+	showInternal?: boolean;
+}
+
+/** Spans that explain how Mastra runs things rather than what the run did */
+const INTERNAL_SPAN_TYPES = new Set([
+	'workflow_loop',
+	'workflow_parallel',
+	'workflow_conditional',
+	'workflow_conditional_eval',
+	'workflow_sleep',
+	'workflow_wait_event',
+	'processor_run',
+]);
+
+const SPAN_COLORS: Record<string, string> = {
+	generic: 'bg-emerald-500',
+	agent_run: 'bg-blue-500',
+	model_generation: 'bg-violet-500',
+	model_step: 'bg-violet-300',
+	tool_call: 'bg-amber-500',
+	mcp_tool_call: 'bg-amber-500',
+	workflow_run: 'bg-slate-400',
+	workflow_step: 'bg-slate-300',
+};
+
+const SPAN_LABELS: Record<string, string> = {
+	generic: 'request',
+	agent_run: 'agent',
+	model_generation: 'model',
+	model_step: 'step',
+	tool_call: 'tool',
+	mcp_tool_call: 'tool',
+	workflow_run: 'workflow',
+	workflow_step: 'step',
+};
+
+const tokenFormat = new Intl.NumberFormat('en-US', { notation: 'compact' });
+
+function formatDuration(ms: number | null): string {
+	if (ms === null) return 'running';
+	return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+interface WaterfallRow {
+	span: TraceSpan;
+	depth: number;
+}
+
+/**
+ * Depth-first order of the visible spans. Hidden spans are skipped and their children
+ * move up to the closest visible ancestor.
+ */
+function buildRows(spans: TraceSpan[], showInternal: boolean): WaterfallRow[] {
+	const byId = new Map(spans.map((span) => [span.spanId, span]));
+	const isVisible = (span: TraceSpan) => showInternal || !INTERNAL_SPAN_TYPES.has(span.type);
+
+	const visibleParent = (span: TraceSpan): string | null => {
+		let parentId = span.parentSpanId;
+		while (parentId) {
+			const parent = byId.get(parentId);
+			if (!parent) return null;
+			if (isVisible(parent)) return parentId;
+			parentId = parent.parentSpanId;
+		}
+		return null;
+	};
+
+	const children = new Map<string | null, TraceSpan[]>();
+	for (const span of spans) {
+		if (!isVisible(span)) continue;
+		const parentId = visibleParent(span);
+		children.set(parentId, [...(children.get(parentId) ?? []), span]);
+	}
+
+	const rows: WaterfallRow[] = [];
+	const visit = (parentId: string | null, depth: number) => {
+		for (const span of children.get(parentId) ?? []) {
+			rows.push({ span, depth });
+			visit(span.spanId, depth + 1);
+		}
+	};
+	visit(null, 0);
+	return rows;
+}
+
+/**
+ * Trace waterfall.
+ * One row per span, indented under its parent, with a bar placed on the request's timeline.
+ * Model calls show their model and token counts; failed spans are marked in red.
+ *
+ * @example
+ * ```tsx
+ * {trace && <TraceWaterfall trace={trace} showInternal={false} />}
+ * ```
+ */
+export function TraceWaterfall({ trace, showInternal = false }: TraceWaterfallProps) {
+	const rows = useMemo(() => buildRows(trace.spans, showInternal), [trace.spans, showInternal]);
+
+	const start = Date.parse(trace.run.startedAt);
+	const end = Math.max(
+		start + (trace.run.durationMs ?? 0),
+		...trace.spans.map((span) => Date.parse(span.endedAt ?? span.startedAt))
+	);
+	const total = Math.max(end - start, 1);
+
+	return (
+		<div className="space-y-1">
+			<div className="flex flex-wrap gap-2 pb-2 text-xs text-muted-foreground">
+				<span>{formatDuration(trace.run.durationMs)}</span>
+				<span>·</span>
+				<span>{trace.totals.modelCalls} model calls</span>
+				<span>·</span>
+				<span>{trace.totals.toolCalls} tool calls</span>
+				<span>·</span>
+				<span>
+					{tokenFormat.format(trace.totals.inputTokens)} in /{' '}
+					{tokenFormat.format(trace.totals.outputTokens)} out tokens
+				</span>
+			</div>
+
+			{rows.map(({ span, depth }) => {
+				const offset = Date.parse(span.startedAt) - start;
+				const duration = span.durationMs ?? end - Date.parse(span.startedAt);
+				const left = (offset / total) * 100;
+				const width = Math.max((duration / total) * 100, 0.5);
+
+				return (
+					<div
+						className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] items-center gap-3"
+						key={span.spanId}
+					>
+						<div
+							className="flex min-w-0 items-center gap-1.5 text-xs"
+							style={{ paddingLeft: `${depth * 12}px` }}
+							title={span.error ?? span.name}
+						>
+							<Badge className="shrink-0 rounded-full px-1.5 text-[10px]" variant="outline">
+								{SPAN_LABELS[span.type] ?? span.type.replace(/_/g, ' ')}
+							</Badge>
+							<span className={cn('truncate', span.error && 'text-destructive')}>{span.name}</span>
+						</div>
+						<div className="relative h-5">
+							<div
+								className={cn(
+									'absolute top-1 h-3 rounded-sm',
+									span.error
+										? 'bg-destructive'
+										: (SPAN_COLORS[span.type] ?? 'bg-muted-foreground/40')
+								)}
+								style={{ left: `${left}%`, width: `${width}%` }}
+							/>
+							<span
+								className="absolute top-0 whitespace-nowrap px-1 text-[10px] text-muted-foreground"
+								style={
+									left + width > 70 ? { right: `${100 - left}%` } : { left: `${left + width}%` }
+								}
+							>
+								{formatDuration(span.durationMs)}
+								{span.model && ` · ${span.model}`}
+								{span.inputTokens !== undefined &&
+									` · ${tokenFormat.format(span.inputTokens)}/${tokenFormat.format(span.outputTokens ?? 0)} tok`}
+							</span>
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
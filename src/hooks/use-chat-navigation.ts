@@ -5,6 +5,7 @@ import { useCallback } from 'react';
 interface ChatNavigationState extends HistoryState {
 	initialMessage?: string;
 	searchEnabled?: boolean;
+	modelId?: string;
 }
 
 /**
@@ -15,7 +16,7 @@ export function useChatNavigation() {
 	const navigate = useNavigate();
 
 	const navigateToChat = useCallback(
-		(threadId: string, initialMessage: string, searchEnabled?: boolean) => {
+		(threadId: string, initialMessage: string, searchEnabled?: boolean, modelId?: string) => {
 			navigate({
 				to: '/chat/$threadId',
 				params: { threadId },
@@ -24,6 +25,7 @@ export function useChatNavigation() {
 				state: {
 					initialMessage,
 					searchEnabled,
+					modelId,
 				} as ChatNavigationState,
 			});
 		},
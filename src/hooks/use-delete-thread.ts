@@ -1,6 +1,7 @@
 import { useMastraClient } from '@mastra/react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { AGENT_ID, RESOURCE_ID } from '@/lib/constants';
+import { useSession } from '@/hooks/use-session';
+import { AGENT_ID } from '@/lib/constants';
 import { mastraQueryKeys } from '@/lib/mastra-queries';
 
 /**
@@ -10,6 +11,7 @@ import { mastraQueryKeys } from '@/lib/mastra-queries';
 export const useDeleteThread = () => {
 	const client = useMastraClient();
 	const queryClient = useQueryClient();
+	const { user } = useSession();
 
 	return useMutation({
 		mutationFn: async (threadId: string) => {
@@ -19,7 +21,7 @@ export const useDeleteThread = () => {
 		onSuccess: () => {
 			// Invalidar queries de threads para refrescar la lista
 			queryClient.invalidateQueries({
-				queryKey: mastraQueryKeys.threads(RESOURCE_ID),
+				queryKey: mastraQueryKeys.threads(user.id),
 			});
 		},
 		onError: (error) => {
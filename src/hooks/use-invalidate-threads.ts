@@ -1,24 +1,26 @@
 import { useQueryClient } from '@tanstack/react-query';
 import { useCallback } from 'react';
-import { mastraQueryKeys, threadsQueryOptions } from '@/lib/mastra-queries';
+import { useSession } from '@/hooks/use-session';
+import { mastraQueryKeys } from '@/lib/mastra-queries';
 
 /**
- * Hook para invalidar la caché de threads y mensajes
+ * Hook para invalidar la caché de threads, mensajes y uso de tokens
  * Útil después de crear o actualizar conversaciones
- * @returns Funciones para invalidar threads y mensajes con delay opcional
+ * @returns Funciones para invalidar threads, mensajes y uso con delay opcional
  */
 export function useInvalidateThreads() {
 	const queryClient = useQueryClient();
+	const { user } = useSession();
 
 	const invalidateThreads = useCallback(
 		(delay = 1000) => {
 			setTimeout(() => {
 				queryClient.invalidateQueries({
-					queryKey: threadsQueryOptions().queryKey,
+					queryKey: mastraQueryKeys.threads(user.id),
 				});
 			}, delay);
 		},
-		[queryClient]
+		[queryClient, user.id]
 	);
 
 	const invalidateThreadMessages = useCallback(
@@ -32,5 +34,17 @@ export function useInvalidateThreads() {
 		[queryClient]
 	);
 
-	return { invalidateThreads, invalidateThreadMessages };
+	// El servidor guarda el uso en segundo plano: se deja un margen antes de refrescarlo
+	const invalidateThreadUsage = useCallback(
+		(threadId: string, delay = 500) => {
+			setTimeout(() => {
+				queryClient.invalidateQueries({
+					queryKey: mastraQueryKeys.usage(threadId),
+				});
+			}, delay);
+		},
+		[queryClient]
+	);
+
+	return { invalidateThreads, invalidateThreadMessages, invalidateThreadUsage };
 }
@@ -7,6 +7,8 @@ interface NetworkDataResult {
     reasoning: string | null;
     /** Sources extracted from web-search step */
     sources: SourceData[] | null;
+    /** Whether the web-search result was served from the search cache */
+    sourcesCached: boolean;
     /** Whether network has completed output */
     hasOutput: boolean;
     /** The final output text */
@@ -37,6 +39,7 @@ export function useNetworkData(
             return {
                 reasoning: null,
                 sources: null,
+                sourcesCached: false,
                 hasOutput: false,
                 output: null,
             };
@@ -53,16 +56,19 @@ export function useNetworkData(
             (step) => step.name === 'web-search' && step.output
         );
         let sources: SourceData[] | null = null;
+        let sourcesCached = false;
         if (webSearchStep?.output) {
-            const output = webSearchStep.output as { sources?: SourceData[] };
+            const output = webSearchStep.output as { sources?: SourceData[]; cached?: boolean };
             sources = output.sources && output.sources.length > 0 ? output.sources : null;
+            sourcesCached = output.cached === true;
         }
 
         // Extract output in order of priority:
         // 1. networkData.output (top-level, available when network finishes)
         // 2. step.output from completed steps
         // 3. step.task.text from running steps (streaming text)
-        let output = networkData.output !== undefined && networkData.output !== null ? String(networkData.output) : null;
+        // Workflow steps report their run state (an object) as output: only text counts here
+        let output = typeof networkData.output === 'string' ? networkData.output : null;
 
         // If no top-level output, search through steps
         if (!output && networkData.steps) {
@@ -71,8 +77,8 @@ export function useNetworkData(
                 const step = networkData.steps[i];
                 
                 // Check step.output first (completed steps)
-                if (step.output !== undefined && step.output !== null) {
-                    const stepOutput = String(step.output);
+                if (typeof step.output === 'string') {
+                    const stepOutput = step.output;
                     if (stepOutput.trim()) {
                         output = stepOutput;
                         break;
@@ -96,6 +102,7 @@ export function useNetworkData(
         return {
             reasoning,
             sources,
+            sourcesCached,
             hasOutput,
             output,
         };
@@ -0,0 +1,33 @@
+import { useQueryClient, useSuspenseQuery } from '@tanstack/react-query';
+import { useRouter } from '@tanstack/react-router';
+import { useCallback } from 'react';
+import { type Session, sessionQueryOptions } from '@/lib/auth';
+
+/**
+ * Hook para obtener la sesión actual (precargada en el beforeLoad de la ruta raíz)
+ * Solo usar en páginas protegidas: la ruta raíz redirige a /sign-in si no hay sesión
+ * @returns Usuario autenticado y token de sesión
+ */
+export function useSession(): Session {
+	const { data: session } = useSuspenseQuery(sessionQueryOptions());
+	if (!session) {
+		throw new Error('useSession must be used on an authenticated page');
+	}
+	return session;
+}
+
+/**
+ * Hook para aplicar un cambio de sesión (sign-in, sign-up, sign-out)
+ * Vacía la caché (threads y mensajes son por usuario) y recarga las rutas:
+ * la ruta raíz redirige a / o a /sign-in según corresponda
+ * @returns Función async para refrescar la sesión
+ */
+export function useRefreshSession() {
+	const queryClient = useQueryClient();
+	const router = useRouter();
+
+	return useCallback(async () => {
+		queryClient.clear();
+		await router.invalidate();
+	}, [queryClient, router]);
+}
@@ -1,12 +1,15 @@
 import { useSuspenseQuery } from '@tanstack/react-query';
+import { useSession } from '@/hooks/use-session';
 import { threadsQueryOptions } from '@/lib/mastra-queries';
 
 /**
  * Hook para listar threads/conversaciones
  * Usa useSuspenseQuery para garantizar que los datos estén disponibles
  * Debe usarse con un loader que precargue los datos
+ * Lista los threads del usuario autenticado
  * @returns Query con lista de threads
  */
 export const useThreads = () => {
-	return useSuspenseQuery(threadsQueryOptions());
+	const { user } = useSession();
+	return useSuspenseQuery(threadsQueryOptions(user.id));
 };
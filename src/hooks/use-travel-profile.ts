@@ -0,0 +1,48 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { authHeaders, getSessionToken } from '@/lib/auth';
+import { MASTRA_BASE_URL } from '@/lib/constants';
+import { mastraQueryKeys, type TravelProfile } from '@/lib/mastra-queries';
+
+/**
+ * Envía el perfil al servidor y devuelve el perfil guardado (sin campos vacíos)
+ */
+async function requestProfile(method: 'PUT' | 'DELETE', profile?: TravelProfile) {
+	const response = await fetch(`${MASTRA_BASE_URL}/profile`, {
+		method,
+		headers: {
+			...authHeaders(getSessionToken()),
+			...(profile ? { 'Content-Type': 'application/json' } : {}),
+		},
+		body: profile ? JSON.stringify({ profile }) : undefined,
+	});
+	const data = await response.json().catch(() => ({}));
+	if (!response.ok) {
+		throw new Error(data.error ?? `Failed to update travel profile: ${response.status}`);
+	}
+	return data.profile as TravelProfile;
+}
+
+/**
+ * Hook para guardar o borrar el perfil de viaje
+ * Ambas mutaciones escriben el resultado en la caché del perfil
+ * @returns Mutations para guardar (PUT) y olvidar (DELETE) el perfil
+ */
+export function useTravelProfileMutations() {
+	const queryClient = useQueryClient();
+
+	const onSuccess = (profile: TravelProfile) => {
+		queryClient.setQueryData(mastraQueryKeys.profile(), profile);
+	};
+
+	const saveProfile = useMutation({
+		mutationFn: (profile: TravelProfile) => requestProfile('PUT', profile),
+		onSuccess,
+	});
+
+	const clearProfile = useMutation({
+		mutationFn: () => requestProfile('DELETE'),
+		onSuccess,
+	});
+
+	return { saveProfile, clearProfile };
+}
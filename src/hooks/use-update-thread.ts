@@ -0,0 +1,71 @@
+import { useMastraClient } from '@mastra/react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSession } from '@/hooks/use-session';
+import { AGENT_ID } from '@/lib/constants';
+import { type MemoryThread, mastraQueryKeys, type ThreadSidebarState } from '@/lib/mastra-queries';
+
+interface UpdateThreadVariables {
+	threadId: string;
+	/** Nuevo título; se ignora si está vacío */
+	title?: string;
+	/** Claves de metadata a cambiar; el resto se conserva y una clave a undefined se borra */
+	metadata?: ThreadSidebarState;
+}
+
+/**
+ * Aplica el cambio a un thread de la lista
+ */
+function applyUpdate(thread: MemoryThread, { title, metadata }: UpdateThreadVariables) {
+	return {
+		...thread,
+		title: title?.trim() || thread.title,
+		metadata: { ...thread.metadata, ...metadata },
+	};
+}
+
+/**
+ * Hook para renombrar, fijar, archivar u organizar un thread en carpetas y etiquetas
+ * Actualiza la lista de threads de forma optimista y la restaura si el servidor falla
+ * @returns Mutation para actualizar título y metadata del thread
+ */
+export const useUpdateThread = () => {
+	const client = useMastraClient();
+	const queryClient = useQueryClient();
+	const { user } = useSession();
+	const queryKey = mastraQueryKeys.threads(user.id);
+
+	return useMutation({
+		mutationFn: async (variables: UpdateThreadVariables) => {
+			const thread = client.getMemoryThread({ threadId: variables.threadId, agentId: AGENT_ID });
+			// El servidor reemplaza la metadata entera: se parte de la guardada, que puede tener
+			// claves más recientes que la caché (modelo, resumen...)
+			const current = await thread.get();
+			const updated = applyUpdate(current, variables);
+			return thread.update({
+				title: updated.title ?? '',
+				metadata: updated.metadata,
+				resourceId: current.resourceId,
+			});
+		},
+		onMutate: async (variables) => {
+			// Evitar que un refetch en curso pise el cambio optimista
+			await queryClient.cancelQueries({ queryKey });
+			const previous = queryClient.getQueryData<MemoryThread[]>(queryKey);
+			queryClient.setQueryData<MemoryThread[]>(queryKey, (threads) =>
+				threads?.map((thread) =>
+					thread.id === variables.threadId ? applyUpdate(thread, variables) : thread
+				)
+			);
+			return { previous };
+		},
+		onError: (error, _variables, context) => {
+			console.error('Failed to update thread:', error);
+			if (context?.previous) {
+				queryClient.setQueryData(queryKey, context.previous);
+			}
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey });
+		},
+	});
+};
@@ -0,0 +1,170 @@
+/**
+ * Autenticación del frontend
+ * El servidor Mastra emite tokens de sesión (/auth/*) y los valida en cada request
+ * con `Authorization: Bearer <token>`. El token se guarda en una cookie para que
+ * los loaders SSR también puedan usarlo.
+ */
+
+import { createIsomorphicFn } from '@tanstack/react-start';
+import { getCookie } from '@tanstack/react-start/server';
+import { MASTRA_BASE_URL } from '@/lib/constants';
+
+export const SESSION_COOKIE = 'session_token';
+
+/**
+ * Usuario autenticado. Su id es el `resource` de Mastra: threads y memoria son por usuario.
+ */
+export interface AuthUser {
+	id: string;
+	email: string;
+	name: string;
+}
+
+export interface Session {
+	user: AuthUser;
+	token: string;
+}
+
+/**
+ * - password: cuentas creadas con sign-up
+ * - local: modo dev, cualquier email/contraseña crea la cuenta al iniciar sesión
+ */
+export type AuthMode = 'password' | 'local';
+
+export interface AuthProviders {
+	mode: AuthMode;
+	providers: Array<{ id: string; name: string }>;
+}
+
+interface SessionResponse {
+	user: AuthUser;
+	token: string;
+	expiresAt: string;
+}
+
+// ============================================================================
+// Token de sesión
+// ============================================================================
+
+/**
+ * Lee el token de sesión: de la request en SSR, de document.cookie en el cliente
+ */
+export const getSessionToken = createIsomorphicFn()
+	.server(() => getCookie(SESSION_COOKIE) ?? null)
+	.client(() => {
+		const entry = document.cookie
+			.split('; ')
+			.find((cookie) => cookie.startsWith(`${SESSION_COOKIE}=`));
+		return entry ? decodeURIComponent(entry.slice(SESSION_COOKIE.length + 1)) : null;
+	});
+
+export function setSessionToken(token: string, expiresAt?: string) {
+	const expires = expiresAt ? `; expires=${new Date(expiresAt).toUTCString()}` : '';
+	// biome-ignore lint/suspicious/noDocumentCookie: el token tiene que ser legible por JS para enviarlo a Mastra
+	document.cookie = `${SESSION_COOKIE}=${encodeURIComponent(token)}; path=/; SameSite=Lax${expires}`;
+}
+
+export function clearSessionToken() {
+	// biome-ignore lint/suspicious/noDocumentCookie: ver setSessionToken
+	document.cookie = `${SESSION_COOKIE}=; path=/; SameSite=Lax; max-age=0`;
+}
+
+/**
+ * Headers de autenticación para el servidor Mastra
+ */
+export function authHeaders(token: string | null | undefined): Record<string, string> {
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// ============================================================================
+// Llamadas a /auth/*
+// ============================================================================
+
+async function authRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+	const response = await fetch(`${MASTRA_BASE_URL}${path}`, {
+		...init,
+		headers: { 'Content-Type': 'application/json', ...init.headers },
+	});
+	const body = await response.json().catch(() => ({}));
+
+	if (!response.ok) {
+		throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+	}
+	return body as T;
+}
+
+/**
+ * Sesión actual, o null si no hay token o ya no es válido
+ */
+export async function fetchSession(): Promise<Session | null> {
+	const token = getSessionToken();
+	if (!token) return null;
+
+	try {
+		const { user } = await authRequest<{ user: AuthUser | null }>('/auth/session', {
+			headers: authHeaders(token),
+		});
+		return user ? { user, token } : null;
+	} catch (error) {
+		console.error('Failed to load session:', error);
+		return null;
+	}
+}
+
+/**
+ * Query options para la sesión actual
+ * Se cachea hasta iniciar o cerrar sesión (ver useRefreshSession)
+ */
+export const authQueryKeys = {
+	session: ['auth', 'session'] as const,
+};
+
+export const sessionQueryOptions = () => ({
+	queryKey: authQueryKeys.session,
+	queryFn: fetchSession,
+	staleTime: Number.POSITIVE_INFINITY,
+	retry: false,
+});
+
+export function fetchAuthProviders(): Promise<AuthProviders> {
+	return authRequest<AuthProviders>('/auth/providers');
+}
+
+export async function signIn(credentials: { email: string; password: string }): Promise<AuthUser> {
+	const session = await authRequest<SessionResponse>('/auth/sign-in', {
+		method: 'POST',
+		body: JSON.stringify(credentials),
+	});
+	setSessionToken(session.token, session.expiresAt);
+	return session.user;
+}
+
+export async function signUp(input: {
+	email: string;
+	password: string;
+	name?: string;
+}): Promise<AuthUser> {
+	const session = await authRequest<SessionResponse>('/auth/sign-up', {
+		method: 'POST',
+		body: JSON.stringify(input),
+	});
+	setSessionToken(session.token, session.expiresAt);
+	return session.user;
+}
+
+export async function signOut(): Promise<void> {
+	const token = getSessionToken();
+	clearSessionToken();
+	if (token) {
+		await authRequest('/auth/sign-out', { method: 'POST', headers: authHeaders(token) }).catch(
+			(error) => console.error('Failed to sign out:', error)
+		);
+	}
+}
+
+/**
+ * URL que inicia el login OAuth; el servidor vuelve a /auth/callback con el token
+ */
+export function oauthSignInUrl(providerId: string): string {
+	return `${MASTRA_BASE_URL}/auth/oauth/${providerId}`;
+}
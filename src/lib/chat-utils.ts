@@ -55,6 +55,7 @@ export function hasRenderableContent(message: UIMessage): boolean {
 			part.type === 'reasoning' ||
 			part.type === 'data-network' ||
 			part.type === 'dynamic-tool' ||
+			part.type === 'data-tool-approval' ||
 			part.type.startsWith('tool-')
 		);
 	});
@@ -1,4 +1,3 @@
 export const MASTRA_BASE_URL = import.meta.env.VITE_MASTRA_BASE_URL || 'http://localhost:4111';
 
 export const AGENT_ID = 'routing-agent';
-export const RESOURCE_ID = '1234_user'; // ID del usuario (constante para el mismo usuario)
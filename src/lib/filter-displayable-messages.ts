@@ -82,6 +82,10 @@ export function filterDisplayableMessages(messages: UIMessage[]): UIMessage[] {
 				if (part.type === 'dynamic-tool') {
 					return true;
 				}
+				// Tool approval requests (from resolved network messages)
+				if (part.type === 'data-tool-approval') {
+					return true;
+				}
 				return false;
 			});
 
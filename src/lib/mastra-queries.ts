@@ -5,9 +5,10 @@
  */
 
 import { toAISdkV5Messages } from '@mastra/ai-sdk/ui';
-import { MastraClient } from '@mastra/client-js';
+import { type ListMemoryThreadsResponse, MastraClient } from '@mastra/client-js';
 import type { MastraUIMessage } from '@mastra/react';
-import { AGENT_ID, MASTRA_BASE_URL, RESOURCE_ID } from '@/lib/constants';
+import { authHeaders, getSessionToken } from '@/lib/auth';
+import { AGENT_ID, MASTRA_BASE_URL } from '@/lib/constants';
 import { filterDisplayableMessages } from '@/lib/filter-displayable-messages';
 import { resolveInitialMessages } from '@/lib/resolve-initial-messages';
 
@@ -18,30 +19,230 @@ import { resolveInitialMessages } from '@/lib/resolve-initial-messages';
 export const mastraQueryKeys = {
 	threads: (resourceId: string) => ['mastra', 'threads', resourceId] as const,
 	messages: (threadId: string) => ['mastra', 'messages', threadId] as const,
+	models: () => ['mastra', 'models'] as const,
+	usage: (threadId: string) => ['mastra', 'usage', threadId] as const,
+	profile: () => ['mastra', 'profile'] as const,
+	traces: (threadId: string) => ['mastra', 'traces', threadId] as const,
+	trace: (traceId: string) => ['mastra', 'trace', traceId] as const,
 };
 
 /**
- * Crear cliente Mastra (singleton pattern)
+ * Modelo seleccionable para un thread (registro permitido del servidor)
+ */
+export interface ModelOption {
+	id: string;
+	name: string;
+	provider: string;
+	description: string;
+}
+
+/**
+ * Tokens y coste estimado (USD) acumulados por el servidor
+ */
+export interface UsageTotals {
+	inputTokens: number;
+	cachedInputTokens: number;
+	outputTokens: number;
+	reasoningTokens: number;
+	totalTokens: number;
+	costUSD: number;
+	calls: number;
+}
+
+/**
+ * Uso de tokens de un thread: total, por mensaje del asistente y ocupación del contexto
+ */
+export interface ThreadUsage {
+	totals: UsageTotals;
+	messages: Array<UsageTotals & { runId: string; createdAt: string }>;
+	context: { usedTokens: number; maxTokens: number; modelId: string } | null;
+}
+
+/**
+ * Thread tal como lo devuelve la lista de threads del usuario
+ */
+export type MemoryThread = ListMemoryThreadsResponse['threads'][number];
+
+/**
+ * Modelo guardado en la metadata del thread, si lo hay
+ */
+export function getThreadModelId(thread: { metadata?: Record<string, unknown> } | undefined) {
+	const modelId = thread?.metadata?.modelId;
+	return typeof modelId === 'string' ? modelId : undefined;
+}
+
+/**
+ * Estado del thread en el sidebar, guardado en su metadata
+ * pinned: se muestra en la sección "Pinned", encima del resto
+ * archived: se oculta de la lista principal y se muestra en "Archived"
+ * folder: carpeta en la que se agrupa (una por thread); sin carpeta va a "Recent"
+ * tags: etiquetas para encontrarlo desde la búsqueda
+ */
+export interface ThreadSidebarState {
+	pinned?: boolean;
+	archived?: boolean;
+	folder?: string;
+	tags?: string[];
+}
+
+/** Longitud máxima del nombre de una carpeta o etiqueta */
+export const THREAD_LABEL_MAX_LENGTH = 40;
+
+export function isThreadPinned(thread: { metadata?: Record<string, unknown> } | undefined) {
+	return thread?.metadata?.pinned === true;
+}
+
+export function isThreadArchived(thread: { metadata?: Record<string, unknown> } | undefined) {
+	return thread?.metadata?.archived === true;
+}
+
+export function getThreadFolder(thread: { metadata?: Record<string, unknown> } | undefined) {
+	const folder = thread?.metadata?.folder;
+	return typeof folder === 'string' && folder ? folder : undefined;
+}
+
+export function getThreadTags(thread: { metadata?: Record<string, unknown> } | undefined) {
+	const tags = thread?.metadata?.tags;
+	return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+}
+
+/**
+ * Limpia el nombre de una carpeta o etiqueta escrito por el usuario
+ * Si ya existe uno igual sin distinguir mayúsculas se reutiliza, para no duplicar "Japón" y "japón"
+ * @returns El nombre a guardar, o undefined si queda vacío
+ */
+export function normalizeThreadLabel(name: string, existing: string[] = []) {
+	const label = name
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/^#+\s*/, '')
+		.slice(0, THREAD_LABEL_MAX_LENGTH)
+		.trim();
+	if (!label) return undefined;
+	return existing.find((item) => item.toLowerCase() === label.toLowerCase()) ?? label;
+}
+
+function sortLabels(labels: Iterable<string>) {
+	return [...new Set(labels)].sort((a, b) =>
+		a.localeCompare(b, undefined, { sensitivity: 'base' })
+	);
+}
+
+/**
+ * Carpetas en uso por los threads del usuario, en orden alfabético
+ */
+export function listThreadFolders(threads: MemoryThread[]) {
+	return sortLabels(threads.flatMap((thread) => getThreadFolder(thread) ?? []));
+}
+
+/**
+ * Etiquetas en uso por los threads del usuario, en orden alfabético
+ */
+export function listThreadTags(threads: MemoryThread[]) {
+	return sortLabels(threads.flatMap(getThreadTags));
+}
+
+/**
+ * Resumen de los mensajes antiguos que el asistente ya no ve literalmente
+ */
+export interface ThreadSummary {
+	text: string;
+	summarizedUntil: string;
+	updatedAt: string;
+}
+
+/**
+ * Resumen guardado en la metadata del thread, si la conversación ya superó la ventana de memoria
+ */
+export function getThreadSummary(
+	thread: { metadata?: Record<string, unknown> } | undefined
+): ThreadSummary | undefined {
+	const summary = thread?.metadata?.summary as Partial<ThreadSummary> | undefined;
+	return typeof summary?.text === 'string' && summary.text ? (summary as ThreadSummary) : undefined;
+}
+
+/**
+ * Perfil de viaje que el asistente recuerda del usuario (working memory de Mastra)
+ */
+export interface TravelProfile {
+	homeAirport?: string;
+	budget?: string;
+	travelParty?: string;
+	dietaryNeeds?: string[];
+	mobility?: string;
+	preferredClimates?: string[];
+	pastTrips?: string[];
+}
+
+/**
+ * Petición a /chat trazada: un mensaje nuevo o la respuesta a una aprobación
+ */
+export interface TraceRun {
+	traceId: string;
+	runId: string | null;
+	kind: 'chat' | 'approval';
+	startedAt: string;
+	endedAt: string | null;
+	durationMs: number | null;
+	status: 'success' | 'error' | 'running';
+}
+
+/**
+ * Span de una traza: routing, ejecución de agente, llamada a modelo, tool, paso de workflow...
+ */
+export interface TraceSpan {
+	spanId: string;
+	parentSpanId: string | null;
+	name: string;
+	type: string;
+	startedAt: string;
+	endedAt: string | null;
+	durationMs: number | null;
+	model?: string;
+	inputTokens?: number;
+	outputTokens?: number;
+	error?: string;
+}
+
+/**
+ * Waterfall de una petición con los totales de tokens y llamadas
+ */
+export interface RunTrace {
+	run: TraceRun;
+	spans: TraceSpan[];
+	totals: { inputTokens: number; outputTokens: number; modelCalls: number; toolCalls: number };
+}
+
+/**
+ * Crear cliente Mastra autenticado con el token de sesión actual
+ * (singleton por token: se recrea al cambiar de sesión)
  */
 let mastraClientInstance: MastraClient | null = null;
+let mastraClientToken: string | null = null;
 
 export function createMastraClient() {
-	if (!mastraClientInstance) {
-		mastraClientInstance = new MastraClient({ baseUrl: MASTRA_BASE_URL });
+	const token = getSessionToken();
+	if (!mastraClientInstance || mastraClientToken !== token) {
+		mastraClientInstance = new MastraClient({
+			baseUrl: MASTRA_BASE_URL,
+			headers: authHeaders(token),
+		});
+		mastraClientToken = token;
 	}
 	return mastraClientInstance;
 }
 
 /**
  * Query options para lista de threads
+ * @param resourceId - ID del usuario autenticado (resource de Mastra)
  * @returns Query options para usar con useQuery, useSuspenseQuery, prefetchQuery o ensureQueryData
  */
-export const threadsQueryOptions = () => ({
-	queryKey: mastraQueryKeys.threads(RESOURCE_ID),
+export const threadsQueryOptions = (resourceId: string) => ({
+	queryKey: mastraQueryKeys.threads(resourceId),
 	queryFn: async () => {
 		const client = createMastraClient();
 		const result = await client.listMemoryThreads({
-			resourceId: RESOURCE_ID,
+			resourceId,
 			agentId: AGENT_ID,
 		});
 
@@ -86,14 +287,17 @@ export const threadMessagesQueryOptions = (threadId: string) => ({
 			return { exists: true, messages: displayableMessages };
 		} catch (error) {
 			// Solo devolver exists: false si es un error 404 (thread no existe)
-			const is404 =
-				(error instanceof Error && error.message.includes('404')) ||
-				(typeof error === 'object' &&
-					error !== null &&
-					'status' in error &&
-					(error as { status: number }).status === 404);
-
-			if (is404) {
+			// o 403 (thread de otro usuario: se trata igual que uno inexistente)
+			const status =
+				typeof error === 'object' && error !== null && 'status' in error
+					? (error as { status: number }).status
+					: undefined;
+			const isMissing =
+				status === 404 ||
+				status === 403 ||
+				(error instanceof Error && /\b(404|403)\b/.test(error.message));
+
+			if (isMissing) {
 				return { exists: false, messages: [] };
 			}
 			throw error;
@@ -105,3 +309,105 @@ export const threadMessagesQueryOptions = (threadId: string) => ({
 	refetchOnWindowFocus: false,
 	refetchOnMount: false, // Cambiar a false para evitar refetch en new chats
 });
+
+/**
+ * Query options para los modelos disponibles en el selector
+ * @returns Query options para usar con useQuery o prefetchQuery
+ */
+export const modelsQueryOptions = () => ({
+	queryKey: mastraQueryKeys.models(),
+	queryFn: async (): Promise<{ models: ModelOption[]; defaultModelId: string }> => {
+		const response = await fetch(`${MASTRA_BASE_URL}/models`, {
+			headers: authHeaders(getSessionToken()),
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to load models: ${response.status}`);
+		}
+		return response.json();
+	},
+	staleTime: Number.POSITIVE_INFINITY,
+	retry: false,
+	refetchOnWindowFocus: false,
+});
+
+/**
+ * Query options para el uso de tokens de un thread
+ * @param threadId - ID del thread
+ * @returns Query options para usar con useQuery; invalidar cuando termina cada respuesta
+ */
+export const threadUsageQueryOptions = (threadId: string) => ({
+	queryKey: mastraQueryKeys.usage(threadId),
+	queryFn: async (): Promise<ThreadUsage> => {
+		const response = await fetch(
+			`${MASTRA_BASE_URL}/usage?threadId=${encodeURIComponent(threadId)}`,
+			{ headers: authHeaders(getSessionToken()) }
+		);
+		if (!response.ok) {
+			throw new Error(`Failed to load usage: ${response.status}`);
+		}
+		return response.json();
+	},
+	retry: false,
+	refetchOnWindowFocus: false,
+});
+
+/**
+ * Query options para el perfil de viaje del usuario actual
+ * @returns Query options para usar con useSuspenseQuery o ensureQueryData
+ */
+export const travelProfileQueryOptions = () => ({
+	queryKey: mastraQueryKeys.profile(),
+	queryFn: async (): Promise<TravelProfile> => {
+		const response = await fetch(`${MASTRA_BASE_URL}/profile`, {
+			headers: authHeaders(getSessionToken()),
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to load travel profile: ${response.status}`);
+		}
+		const { profile } = await response.json();
+		return profile;
+	},
+	retry: false,
+});
+
+/**
+ * Query options para las peticiones trazadas de un thread (más recientes primero)
+ * @param threadId - ID del thread
+ * @returns Query options para usar con useQuery
+ */
+export const threadTracesQueryOptions = (threadId: string) => ({
+	queryKey: mastraQueryKeys.traces(threadId),
+	queryFn: async (): Promise<TraceRun[]> => {
+		const response = await fetch(
+			`${MASTRA_BASE_URL}/traces?threadId=${encodeURIComponent(threadId)}`,
+			{ headers: authHeaders(getSessionToken()) }
+		);
+		if (!response.ok) {
+			throw new Error(`Failed to load traces: ${response.status}`);
+		}
+		const { runs } = await response.json();
+		return runs;
+	},
+	retry: false,
+	refetchOnWindowFocus: false,
+});
+
+/**
+ * Query options para el waterfall de spans de una petición
+ * @param traceId - ID de la traza de la petición
+ * @returns Query options para usar con useQuery
+ */
+export const traceQueryOptions = (traceId: string) => ({
+	queryKey: mastraQueryKeys.trace(traceId),
+	queryFn: async (): Promise<RunTrace> => {
+		const response = await fetch(`${MASTRA_BASE_URL}/traces/${encodeURIComponent(traceId)}`, {
+			headers: authHeaders(getSessionToken()),
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to load trace: ${response.status}`);
+		}
+		return response.json();
+	},
+	retry: false,
+	refetchOnWindowFocus: false,
+});
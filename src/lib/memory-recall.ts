@@ -0,0 +1,46 @@
+/**
+ * Otro thread del usuario cuyos mensajes el asistente recordó (semantic recall de Mastra)
+ * al responder. Llega como part `data-memory-recall` durante el stream y se reconstruye
+ * desde la metadata del mensaje del usuario al recargar.
+ */
+export interface RecalledThread {
+	threadId: string;
+	title: string;
+	score: number;
+}
+
+export interface MemoryRecallData {
+	threads: RecalledThread[];
+}
+
+function isRecalledThread(value: unknown): value is RecalledThread {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as RecalledThread).threadId === 'string' &&
+		typeof (value as RecalledThread).title === 'string'
+	);
+}
+
+/**
+ * Type guard para los datos de un part `data-memory-recall`
+ */
+export function isMemoryRecallData(data: unknown): data is MemoryRecallData {
+	return (
+		typeof data === 'object' &&
+		data !== null &&
+		Array.isArray((data as MemoryRecallData).threads) &&
+		(data as MemoryRecallData).threads.every(isRecalledThread)
+	);
+}
+
+/**
+ * Threads recordados guardados por el servidor en la metadata de un mensaje del usuario
+ * (`recalledThreads`), si los hay
+ */
+export function recallFromMetadata(metadata: unknown): MemoryRecallData | null {
+	if (typeof metadata !== 'object' || metadata === null) return null;
+
+	const data = { threads: (metadata as { recalledThreads?: unknown }).recalledThreads };
+	return isMemoryRecallData(data) && data.threads.length > 0 ? data : null;
+}
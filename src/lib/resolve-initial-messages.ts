@@ -1,5 +1,12 @@
 import type { UIMessage } from '@ai-sdk/react';
+import { recallFromMetadata } from '@/lib/memory-recall';
+import {
+	approvalFromMetadata,
+	TOOL_DECLINED_RESULT,
+	type ToolApprovalStatus,
+} from '@/lib/tool-approvals';
 import { isNetworkMessage } from '@/lib/utils';
+import { type WorkflowRunData, workflowRunFromResult } from '@/lib/workflow-runs';
 
 // Type definitions for parsing network execution data
 
@@ -32,6 +39,8 @@ interface FinalResult {
 	result?: unknown;
 	text?: string;
 	messages?: NestedMessage[];
+	/** Workflow run state (primitiveType === 'workflow') */
+	runResult?: unknown;
 }
 
 interface NetworkExecutionData {
@@ -53,6 +62,65 @@ interface ChildMessage {
 	content?: string;
 }
 
+/**
+ * Parses the network execution JSON stored in a message, if any
+ */
+function parseNetworkData(message: UIMessage): NetworkExecutionData | null {
+	for (const part of message.parts) {
+		if (part.type !== 'text' || !isNetworkMessage(part.text)) continue;
+		try {
+			return JSON.parse(part.text) as NetworkExecutionData;
+		} catch {
+			return null;
+		}
+	}
+	return null;
+}
+
+/**
+ * Works out whether the approval stored at `index` was answered.
+ * A resumed run stores the tool result under a new toolCallId, so the answer is the
+ * next network message for the same tool; a user message before it means the run was abandoned.
+ */
+function resolveApprovalStatus(
+	messages: UIMessage[],
+	index: number,
+	primitiveId: string
+): ToolApprovalStatus {
+	for (const message of messages.slice(index + 1)) {
+		if (message.role === 'user') return 'expired';
+
+		const json = parseNetworkData(message);
+		if (json?.primitiveType !== 'tool' || json.primitiveId !== primitiveId) continue;
+
+		return json.finalResult?.result === TOOL_DECLINED_RESULT ? 'declined' : 'approved';
+	}
+	return 'pending';
+}
+
+/**
+ * Recalled threads are saved on the user message, while streaming they arrive as the first
+ * part of the answer; they are moved to the first assistant message that follows it
+ */
+function attachRecalledThreads(messages: UIMessage[]): UIMessage[] {
+	let pendingRecall: ReturnType<typeof recallFromMetadata> = null;
+
+	return messages.map((message) => {
+		if (message.role === 'user') {
+			pendingRecall = recallFromMetadata(message.metadata);
+			return message;
+		}
+		if (!pendingRecall || message.role !== 'assistant') return message;
+
+		const data = pendingRecall;
+		pendingRecall = null;
+		return {
+			...message,
+			parts: [{ type: 'data-memory-recall', data }, ...message.parts],
+		} as UIMessage;
+	});
+}
+
 /**
  * Resolves initial messages from memory, transforming network execution data
  * from JSON stringified format to dynamic-tool parts.
@@ -61,7 +129,8 @@ interface ChildMessage {
  */
 export const resolveInitialMessages = (messages: UIMessage[]): UIMessage[] => {
 	const messagesLength = messages.length;
-	return messages.map((message, index) => {
+	const allMessages = messages;
+	const resolvedMessages = messages.map((message, index) => {
 		// Check if message contains network execution data
 		const networkPart = message.parts.find(
 			(part): part is { type: 'text'; text: string } =>
@@ -86,6 +155,35 @@ export const resolveInitialMessages = (messages: UIMessage[]): UIMessage[] => {
 					const finalResult = json.finalResult;
 					const messages = finalResult?.messages || [];
 
+					// Tool calls waiting for (or answered with) user approval become approval cards
+					const approval =
+						primitiveType === 'tool'
+							? approvalFromMetadata(message.metadata, selectionReason)
+							: null;
+					if (approval) {
+						return {
+							...message,
+							role: 'assistant' as const,
+							parts: [
+								{
+									type: 'data-tool-approval',
+									id: approval.toolCallId,
+									data: {
+										...approval,
+										status: resolveApprovalStatus(allMessages, index, primitiveId),
+									},
+								},
+							],
+							metadata: {
+								...(message.metadata as Record<string, unknown>),
+								mode: 'network' as const,
+								selectionReason,
+								hasMoreMessages: index < messagesLength - 1,
+								from: 'TOOL' as const,
+							},
+						} as UIMessage;
+					}
+
 					// Build child messages from nested messages
 					const childMessages: ChildMessage[] = [];
 
@@ -137,6 +235,7 @@ export const resolveInitialMessages = (messages: UIMessage[]): UIMessage[] => {
 					let result: {
 						childMessages: ChildMessage[];
 						result: string;
+						workflow?: WorkflowRunData;
 					};
 					if (primitiveType === 'tool') {
 						const toolResult = finalResult?.result as
@@ -164,6 +263,13 @@ export const resolveInitialMessages = (messages: UIMessage[]): UIMessage[] => {
 							],
 							result: toolResult?.text || '',
 						};
+					} else if (primitiveType === 'workflow') {
+						// Workflow runs are stored with their full run state instead of messages
+						result = {
+							childMessages: [],
+							result: '',
+							workflow: workflowRunFromResult(primitiveId, finalResult?.runResult) ?? undefined,
+						};
 					} else {
 						result = {
 							childMessages: childMessages,
@@ -211,4 +317,6 @@ export const resolveInitialMessages = (messages: UIMessage[]): UIMessage[] => {
 		// Return original message if it's not a network message
 		return message;
 	});
+
+	return attachRecalledThreads(resolvedMessages);
 };
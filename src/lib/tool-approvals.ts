@@ -0,0 +1,63 @@
+/**
+ * Estado de una solicitud de aprobación:
+ * - pending: el run de la network está suspendido esperando la respuesta del usuario
+ * - approved / declined: el usuario ya respondió y el run se reanudó
+ * - expired: el usuario siguió la conversación sin responder, el run quedó abandonado
+ */
+export type ToolApprovalStatus = 'pending' | 'approved' | 'declined' | 'expired';
+
+/**
+ * Solicitud de aprobación de una tool marcada con `requireApproval`.
+ * Llega como part `data-tool-approval` durante el stream y se reconstruye desde memoria al recargar.
+ */
+export interface ToolApprovalData {
+	runId: string;
+	toolCallId: string;
+	toolName: string;
+	args: unknown;
+	reason?: string;
+	status: ToolApprovalStatus;
+}
+
+/** Resultado que guarda Mastra cuando el usuario rechaza una tool */
+export const TOOL_DECLINED_RESULT = 'Tool call was not approved by the user';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Extrae la solicitud de aprobación de la metadata de un mensaje de network guardado en memoria
+ * (`requireApprovalMetadata`, indexada por id de tool). El estado lo decide quien llama.
+ */
+export function approvalFromMetadata(
+	metadata: unknown,
+	reason?: string
+): Omit<ToolApprovalData, 'status'> | null {
+	if (!isRecord(metadata) || !isRecord(metadata.requireApprovalMetadata)) return null;
+
+	const [request] = Object.values(metadata.requireApprovalMetadata);
+	if (!isRecord(request)) return null;
+	if (typeof request.runId !== 'string' || typeof request.toolCallId !== 'string') return null;
+
+	return {
+		runId: request.runId,
+		toolCallId: request.toolCallId,
+		toolName: typeof request.toolName === 'string' ? request.toolName : '',
+		args: request.args ?? null,
+		reason,
+	};
+}
+
+/**
+ * Type guard para los datos de un part `data-tool-approval`
+ */
+export function isToolApprovalData(data: unknown): data is ToolApprovalData {
+	return (
+		isRecord(data) &&
+		typeof data.runId === 'string' &&
+		typeof data.toolCallId === 'string' &&
+		typeof data.toolName === 'string' &&
+		typeof data.status === 'string'
+	);
+}
@@ -0,0 +1,102 @@
+/**
+ * Paso de un workflow tal como se muestra en el chat
+ */
+export interface WorkflowRunStep {
+	name: string;
+	status: string;
+	input: unknown;
+	output: unknown;
+	error?: string;
+}
+
+/**
+ * Ejecución de un workflow tal como se muestra en el chat.
+ * Se construye desde el stream de la network mientras corre y desde el resultado guardado en memoria al recargar.
+ */
+export interface WorkflowRunData {
+	name: string;
+	status: string;
+	steps: WorkflowRunStep[];
+	output: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toErrorText(error: unknown): string | undefined {
+	if (!error) return undefined;
+	if (typeof error === 'string') return error;
+	if (isRecord(error) && typeof error.message === 'string') return error.message;
+	return JSON.stringify(error);
+}
+
+/**
+ * Convierte el mapa de pasos (stepId -> resultado) en una lista ordenada.
+ * Ignora entradas que no son pasos (p. ej. la entrada `input` del workflow).
+ */
+function toSteps(steps: unknown, fields: { input: string; output: string }): WorkflowRunStep[] {
+	if (!isRecord(steps)) return [];
+
+	return Object.entries(steps).flatMap(([id, step]) => {
+		if (!isRecord(step) || typeof step.status !== 'string') return [];
+		return [
+			{
+				name: typeof step.name === 'string' ? step.name : id,
+				status: step.status,
+				input: step[fields.input] ?? null,
+				output: step[fields.output] ?? null,
+				error: toErrorText(step.error),
+			},
+		];
+	});
+}
+
+/**
+ * Ejecución de workflow desde un paso de network en streaming (data-network).
+ * `step.task` trae el estado de cada paso; `step.output` el resultado final al terminar.
+ * @returns null si el paso no es un workflow
+ */
+export function workflowRunFromStream(step: {
+	name?: string;
+	status?: string;
+	task?: unknown;
+	output?: unknown;
+}): WorkflowRunData | null {
+	const { task } = step;
+	if (!isRecord(task) || !isRecord(task.steps)) return null;
+
+	return {
+		name: typeof task.name === 'string' && task.name ? task.name : (step.name ?? 'workflow'),
+		status: typeof task.status === 'string' ? task.status : (step.status ?? 'running'),
+		steps: toSteps(task.steps, { input: 'input', output: 'output' }),
+		output: isRecord(step.output) ? (step.output.result ?? null) : null,
+	};
+}
+
+/**
+ * Ejecución de workflow desde el resultado guardado en memoria (`finalResult.runResult`)
+ * @returns null si no hay resultado de ejecución
+ */
+export function workflowRunFromResult(name: string, runResult: unknown): WorkflowRunData | null {
+	if (!isRecord(runResult) || typeof runResult.status !== 'string') return null;
+
+	return {
+		name,
+		status: runResult.status,
+		steps: toSteps(runResult.steps, { input: 'payload', output: 'output' }),
+		output: runResult.result ?? null,
+	};
+}
+
+/**
+ * Type guard para WorkflowRunData
+ */
+export function isWorkflowRunData(data: unknown): data is WorkflowRunData {
+	return (
+		isRecord(data) &&
+		typeof data.name === 'string' &&
+		typeof data.status === 'string' &&
+		Array.isArray(data.steps)
+	);
+}
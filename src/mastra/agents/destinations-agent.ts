@@ -1,10 +1,7 @@
-import { google } from '@ai-sdk/google';
 import { Agent } from '@mastra/core/agent';
 import { memory } from '../memory';
+import { resolveModel } from '../models';
 import { destinationsSearchTool } from '../tools/destinations-tool';
-import { useDevTools } from '../utils/dev-tools';
-
-const baseModel = google('gemini-2.5-flash');
 
 export const destinationsAgent = new Agent({
     id: 'destinations-agent',
@@ -21,6 +18,9 @@ export const destinationsAgent = new Agent({
       When responding:
       - Use the destinationsSearchTool to search for relevant destinations
       - Consider user preferences: type of trip, budget, time of year, interests
+      - Pass known preferences as tool filters: region, travelTypes, month (1-12) and budgetTier
+        (budget, moderate, luxury); keep the free-text query for interests and place names
+      - Results come ranked by relevance; use each destination's reasons to explain why it fits
       - Present destinations in an attractive and organized way
       - Include useful information: highlights, best time to visit, type of experience
       - If the user doesn't specify preferences, ask or suggest varied options
@@ -39,7 +39,7 @@ export const destinationsAgent = new Agent({
       Always consider that the user might want to combine your information with weather data
       to make a better decision.
   `,
-    model: useDevTools(baseModel),
+    model: resolveModel('gemini-2.5-flash', 'destinations-agent'),
     tools: { destinationsSearchTool },
     memory,
 });
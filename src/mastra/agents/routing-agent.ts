@@ -1,12 +1,26 @@
-import { google } from '@ai-sdk/google';
 import { Agent } from '@mastra/core/agent';
+import type { RequestContext } from '@mastra/core/request-context';
+import { withConversationSummary } from '../conversation-summary';
 import { memory } from '../memory';
+import { resolveModel } from '../models';
 import { webSearchTool } from '../tools/web-search-tool';
+import { withTravelProfile } from '../travel-profile';
 import { destinationsAgent } from './destinations-agent';
 import { weatherAgent } from './weather-agent';
-import { useDevTools } from '../utils/dev-tools';
-
-const baseModel = google('gemini-3-flash-preview');
+import { itineraryWorkflow } from '../workflows/itinerary-workflow';
+import { weatherWorkflow } from '../workflows/weather-workflow';
+
+/**
+ * What the assistant knows beyond the recalled messages:
+ * the summary of older messages and the user's travel profile
+ */
+function withUserContext(requestContext: RequestContext | undefined, instructions: string) {
+	return withTravelProfile(
+		memory,
+		requestContext,
+		withConversationSummary(requestContext, instructions)
+	);
+}
 
 export const routingAgent = new Agent({
 	id: 'routing-agent',
@@ -15,13 +29,17 @@ export const routingAgent = new Agent({
 		const webSearchEnabled = requestContext?.get('webSearchEnabled');
 
 		if (webSearchEnabled) {
-			return `
+			return withUserContext(
+				requestContext,
+				`
 You are an intelligent travel assistant with access to multiple tools and agents.
 
 Available tools:
 - web-search: Search the web for current, real-time information (news, events, prices, conditions)
 - weatherAgent: Get structured weather data for any city
 - destinationsAgent: Get expert recommendations on destinations
+- itineraryWorkflow: Build a structured day-by-day itinerary (needs destination, dates, party size, interests)
+- weatherWorkflow: Suggest activities for today based on a city's forecast
 
 IMPORTANT WORKFLOW when web search is available:
 1. If the user's query requires current or recent information:
@@ -43,10 +61,13 @@ When providing your final response:
 
 Always be friendly, enthusiastic about travel, and help the user
 make the best decision for their next adventure.
-`;
+`
+			);
 		}
 
-		return `
+		return withUserContext(
+			requestContext,
+			`
 You are an intelligent travel assistant that coordinates a network of specialized agents
 to help users plan their perfect trips.
 
@@ -57,7 +78,12 @@ Your role is to:
 
 Available agents:
 - Destinations Agent: Expert in tourist destinations, cities, and places to visit
-- Weather Agent: Provides current weather information for any city
+- Weather Agent: Provides current weather and multi-day forecasts (up to 16 days) for any city
+
+Available workflows:
+- Itinerary Workflow: Builds a structured day-by-day itinerary (time slots, activities, locations
+  and weather notes). Needs destination, start and end dates (YYYY-MM-DD), party size and interests
+- Weather Workflow: Checks today's forecast for a city and suggests weather-appropriate activities
 
 Coordination strategies:
 
@@ -73,16 +99,25 @@ Coordination strategies:
 
 3. If the user asks about weather:
    → Use Weather Agent for detailed weather data
+   → For upcoming days or trip dates, ask the Weather Agent for a forecast
 
 4. If the user has specific preferences (beach, mountain, culture, etc.):
    → Use Destinations Agent to match preferences with destinations
    → Use Weather Agent for seasonal information
 
+5. If the user wants a trip plan or itinerary for a specific destination:
+   → Ask for any missing details: dates, number of travelers, interests
+   → Use Itinerary Workflow once you have them, then summarize the plan day by day
+
+6. If the user asks what to do today in a city given the weather:
+   → Use Weather Workflow for weather-aware activity suggestions
+
 Always be friendly, enthusiastic about travel, and help the user
 make the best decision for their next adventure.
-`;
+`
+		);
 	},
-	model: useDevTools(baseModel),
+	model: resolveModel('gemini-3-flash-preview', 'routing-agent'),
 	tools: ({ requestContext }) => {
 		const webSearchEnabled = requestContext?.get('webSearchEnabled');
 		// Solo incluir webSearchTool si está habilitado
@@ -96,5 +131,9 @@ make the best decision for their next adventure.
 		weatherAgent,
 		destinationsAgent,
 	},
+	workflows: {
+		itineraryWorkflow,
+		weatherWorkflow,
+	},
 	memory,
 });
@@ -1,16 +1,14 @@
-import { google } from '@ai-sdk/google';
 import { Agent } from '@mastra/core/agent';
 import { memory } from '../memory';
+import { resolveModel } from '../models';
 import { weatherTool } from '../tools/weather-tool';
-import { useDevTools } from '../utils/dev-tools';
-
-const baseModel = google('gemini-2.5-flash');
 
 export const weatherAgent = new Agent({
     id: 'weather-agent',
     name: 'Weather Agent',
     description: `This agent provides accurate weather information for any location.
-    It uses real-time data to report on temperature, humidity, wind, and weather conditions.
+    It uses real-time data to report on temperature, humidity, wind, and weather conditions,
+    and can provide a day-by-day forecast of up to 16 days.
     Use it when the user asks about weather, atmospheric conditions, or meteorological data for a city or place.`,
     instructions: `
       You are a helpful weather assistant that provides accurate weather information and can help planning activities based on the weather.
@@ -18,15 +16,21 @@ export const weatherAgent = new Agent({
       Your primary function is to help users get weather details for specific locations. When responding:
       - Always ask for a location if none is provided
       - If the location name isn't in English, please translate it
-      - If giving a location with multiple parts (e.g. "New York, NY"), use the most relevant part (e.g. "New York")
+      - Keep region or country qualifiers the user gives (e.g. "Paris, Texas" or "San José, Costa Rica")
+      - If the weatherTool returns mode "disambiguation", don't guess: briefly ask the user which of the
+        candidates they mean (the chat shows them as options). When they answer, call the weatherTool
+        again with the chosen candidate's label as the location
       - Include relevant details like humidity, wind conditions, and precipitation
       - Keep responses concise but informative
       - If the user asks for activities and provides the weather forecast, suggest activities based on the weather forecast.
       - If the user asks for activities, respond in the format they request.
 
-      Use the weatherTool to fetch current weather data.
+      Use the weatherTool to fetch weather data:
+      - mode "current" for the conditions right now
+      - mode "forecast" with the number of days (1-16) when the user asks about upcoming days,
+        a specific date, a weekend or "next week"
   `,
-    model: useDevTools(baseModel),
+    model: resolveModel('gemini-2.5-flash', 'weather-agent'),
     tools: { weatherTool },
     memory,
 });
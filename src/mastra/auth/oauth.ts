@@ -0,0 +1,175 @@
+import type { OAuthProfile } from './store';
+
+/**
+ * OAuth 2.0 authorization-code provider.
+ * Add a provider by implementing this interface and registering it in `oauthProviders`.
+ */
+export interface OAuthProvider {
+	/** Used in URLs (/auth/oauth/:id) and to link accounts, e.g. "github" */
+	id: string;
+	/** Label for the sign-in button */
+	name: string;
+	/** URL the browser is sent to so the user can grant access */
+	getAuthorizationUrl(params: { state: string; redirectUri: string }): string;
+	/**
+	 * Exchange the callback code for the user's profile.
+	 * Must only return an email the provider has verified: accounts are linked by email.
+	 */
+	getProfile(params: { code: string; redirectUri: string }): Promise<OAuthProfile>;
+}
+
+interface OAuthClientConfig {
+	clientId: string;
+	clientSecret: string;
+}
+
+async function fetchJson<T>(url: string, init: RequestInit, provider: string): Promise<T> {
+	const response = await fetch(url, {
+		...init,
+		headers: { Accept: 'application/json', ...init.headers },
+	});
+	if (!response.ok) {
+		throw new Error(`${provider} responded with ${response.status} for ${new URL(url).pathname}`);
+	}
+	return (await response.json()) as T;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * GitHub (https://github.com/settings/developers)
+ */
+export function createGitHubProvider({ clientId, clientSecret }: OAuthClientConfig): OAuthProvider {
+	return {
+		id: 'github',
+		name: 'GitHub',
+		getAuthorizationUrl: ({ state, redirectUri }) => {
+			const url = new URL('https://github.com/login/oauth/authorize');
+			url.search = new URLSearchParams({
+				client_id: clientId,
+				redirect_uri: redirectUri,
+				scope: 'read:user user:email',
+				state,
+			}).toString();
+			return url.toString();
+		},
+		getProfile: async ({ code, redirectUri }) => {
+			const { access_token: accessToken } = await fetchJson<{ access_token?: string }>(
+				'https://github.com/login/oauth/access_token',
+				{
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({
+						client_id: clientId,
+						client_secret: clientSecret,
+						code,
+						redirect_uri: redirectUri,
+					}),
+				},
+				'GitHub'
+			);
+			if (!accessToken) throw new Error('GitHub did not return an access token');
+
+			const headers = { Authorization: `Bearer ${accessToken}` };
+			const [user, emails] = await Promise.all([
+				fetchJson<{ id: number; login: string; name: string | null }>(
+					'https://api.github.com/user',
+					{ headers },
+					'GitHub'
+				),
+				fetchJson<Array<{ email: string; primary: boolean; verified: boolean }>>(
+					'https://api.github.com/user/emails',
+					{ headers },
+					'GitHub'
+				),
+			]);
+
+			const email = emails.find((entry) => entry.primary && entry.verified)?.email;
+			if (!email) throw new Error('Your GitHub account has no verified primary email');
+
+			return { id: String(user.id), email, name: user.name ?? user.login };
+		},
+	};
+}
+
+/**
+ * Google (https://console.cloud.google.com/apis/credentials)
+ */
+export function createGoogleProvider({ clientId, clientSecret }: OAuthClientConfig): OAuthProvider {
+	return {
+		id: 'google',
+		name: 'Google',
+		getAuthorizationUrl: ({ state, redirectUri }) => {
+			const url = new URL('https://accounts.google.com/o/oauth2/v2/auth');
+			url.search = new URLSearchParams({
+				client_id: clientId,
+				redirect_uri: redirectUri,
+				response_type: 'code',
+				scope: 'openid email profile',
+				state,
+			}).toString();
+			return url.toString();
+		},
+		getProfile: async ({ code, redirectUri }) => {
+			const { access_token: accessToken } = await fetchJson<{ access_token?: string }>(
+				'https://oauth2.googleapis.com/token',
+				{
+					method: 'POST',
+					headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+					body: new URLSearchParams({
+						client_id: clientId,
+						client_secret: clientSecret,
+						code,
+						grant_type: 'authorization_code',
+						redirect_uri: redirectUri,
+					}),
+				},
+				'Google'
+			);
+			if (!accessToken) throw new Error('Google did not return an access token');
+
+			const profile = await fetchJson<{
+				sub: string;
+				email: string;
+				email_verified: boolean;
+				name?: string;
+			}>(
+				'https://openidconnect.googleapis.com/v1/userinfo',
+				{ headers: { Authorization: `Bearer ${accessToken}` } },
+				'Google'
+			);
+			if (!profile.email_verified) throw new Error('Your Google email is not verified');
+
+			return { id: profile.sub, email: profile.email, name: profile.name ?? profile.email };
+		},
+	};
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+function fromEnv(prefix: string): OAuthClientConfig | null {
+	const clientId = process.env[`${prefix}_CLIENT_ID`];
+	const clientSecret = process.env[`${prefix}_CLIENT_SECRET`];
+	return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+function createProvidersFromEnv(): Record<string, OAuthProvider> {
+	const providers: OAuthProvider[] = [];
+
+	const github = fromEnv('GITHUB');
+	if (github) providers.push(createGitHubProvider(github));
+
+	const google = fromEnv('GOOGLE');
+	if (google) providers.push(createGoogleProvider(google));
+
+	return Object.fromEntries(providers.map((provider) => [provider.id, provider]));
+}
+
+/**
+ * OAuth providers enabled through their `<PROVIDER>_CLIENT_ID` / `<PROVIDER>_CLIENT_SECRET` env vars
+ */
+export const oauthProviders = createProvidersFromEnv();
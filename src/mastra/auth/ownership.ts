@@ -0,0 +1,121 @@
+import { MASTRA_RESOURCE_ID_KEY } from '@mastra/core/request-context';
+import type { ContextWithMastra } from '@mastra/core/server';
+import type { AuthUser } from './store';
+
+/** /api/memory/threads/:threadId and /api/memory/network/threads/:threadId, with any sub-path */
+const THREAD_PATH = /^\/api\/memory(?:\/network)?\/threads\/([^/]+)/;
+/** Thread listing, which is filtered by the `resourceId` query param */
+const THREAD_LIST_PATH = /^\/api\/memory(?:\/network)?\/threads\/?$/;
+/** Mastra's trace API lists every user's traces; the app serves the user's own under /traces */
+const OBSERVABILITY_PATH = /^\/api\/observability(?:\/|$)/;
+
+/**
+ * Thread and resource ids a request refers to, wherever the Mastra API or /chat carry them
+ */
+interface RequestScope {
+	threadIds: string[];
+	resourceIds: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function addString(target: string[], value: unknown) {
+	if (typeof value === 'string' && value) target.push(value);
+}
+
+async function readJsonBody(c: ContextWithMastra): Promise<Record<string, unknown> | null> {
+	if (c.req.method === 'GET' || !c.req.header('content-type')?.includes('application/json')) {
+		return null;
+	}
+	try {
+		// Hono caches the parsed body, so the route handler can still read it
+		const body = await c.req.json();
+		return isRecord(body) ? body : null;
+	} catch {
+		return null;
+	}
+}
+
+async function getRequestScope(c: ContextWithMastra): Promise<RequestScope> {
+	const scope: RequestScope = { threadIds: [], resourceIds: [] };
+
+	const threadMatch = c.req.path.match(THREAD_PATH);
+	if (threadMatch) addString(scope.threadIds, decodeURIComponent(threadMatch[1]));
+
+	addString(scope.threadIds, c.req.query('threadId'));
+	addString(scope.resourceIds, c.req.query('resourceId'));
+
+	const body = await readJsonBody(c);
+	if (body) {
+		addString(scope.threadIds, body.threadId);
+		addString(scope.resourceIds, body.resourceId);
+
+		// Agent and /chat requests: { memory: { thread, resource } }
+		if (isRecord(body.memory)) {
+			addString(scope.threadIds, body.memory.thread);
+			addString(scope.resourceIds, body.memory.resource);
+		}
+
+		// save-messages
+		if (Array.isArray(body.messages)) {
+			for (const message of body.messages) {
+				if (!isRecord(message)) continue;
+				addString(scope.threadIds, message.threadId);
+				addString(scope.resourceIds, message.resourceId);
+			}
+		}
+	}
+
+	return scope;
+}
+
+/**
+ * Owner of a thread, or null when it does not exist yet (new chats create it on the first message)
+ */
+async function getThreadOwner(c: ContextWithMastra, threadId: string): Promise<string | null> {
+	const memoryStore = await c.get('mastra').getStorage()?.getStore('memory');
+	const thread = await memoryStore?.getThreadById({ threadId });
+	return thread?.resourceId ?? null;
+}
+
+/**
+ * Server middleware that scopes every authenticated request to the signed-in user:
+ * - the user id becomes the memory resource (overriding whatever the client sent)
+ * - requests naming another user's resource or thread are rejected with 403
+ */
+export async function threadOwnership(c: ContextWithMastra, next: () => Promise<void>) {
+	const requestContext = c.get('requestContext');
+	const user = requestContext?.get('user') as AuthUser | undefined;
+
+	// Public routes (sign-in, OAuth) and the dev playground carry no user
+	if (!user) {
+		return next();
+	}
+
+	requestContext.set(MASTRA_RESOURCE_ID_KEY, user.id);
+
+	const { threadIds, resourceIds } = await getRequestScope(c);
+
+	if (OBSERVABILITY_PATH.test(c.req.path)) {
+		return c.json({ error: 'Access denied' }, 403);
+	}
+
+	if (THREAD_LIST_PATH.test(c.req.path) && c.req.method === 'GET' && resourceIds.length === 0) {
+		return c.json({ error: 'resourceId is required' }, 400);
+	}
+
+	if (resourceIds.some((resourceId) => resourceId !== user.id)) {
+		return c.json({ error: 'Access denied' }, 403);
+	}
+
+	for (const threadId of new Set(threadIds)) {
+		const owner = await getThreadOwner(c, threadId);
+		if (owner && owner !== user.id) {
+			return c.json({ error: 'Access denied' }, 403);
+		}
+	}
+
+	return next();
+}
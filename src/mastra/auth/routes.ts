@@ -0,0 +1,260 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { registerApiRoute } from '@mastra/core/server';
+import { oauthProviders } from './oauth';
+import {
+	AuthError,
+	type AuthUser,
+	createSession,
+	createUser,
+	deleteSession,
+	findOrCreateOAuthUser,
+	getSessionUser,
+	verifyCredentials,
+} from './store';
+
+/**
+ * - password: accounts are created through sign-up and checked on sign-in
+ * - local: dev mode, signing in with an unknown email creates the account on the spot
+ */
+export type AuthMode = 'password' | 'local';
+
+export const AUTH_MODE: AuthMode = process.env.AUTH_MODE === 'local' ? 'local' : 'password';
+
+/** Frontend origin the OAuth callback sends the browser back to */
+const APP_URL = process.env.APP_URL ?? 'http://localhost:3000';
+
+/** Signs OAuth state; without AUTH_SECRET a random key is used, so pending logins break on restart */
+const AUTH_SECRET = process.env.AUTH_SECRET ?? randomBytes(32).toString('hex');
+
+const OAUTH_STATE_COOKIE = 'oauth_state';
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+interface CredentialsBody {
+	email?: string;
+	password?: string;
+	name?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getBearerToken(authorization: string | undefined): string | null {
+	const token = authorization?.replace(/^Bearer\s+/i, '').trim();
+	return token || null;
+}
+
+async function startSession(user: AuthUser) {
+	const session = await createSession(user.id);
+	return { user, ...session };
+}
+
+function authErrorResponse(error: unknown) {
+	if (error instanceof AuthError) {
+		return Response.json({ error: error.message }, { status: error.status });
+	}
+	throw error;
+}
+
+function sign(value: string): string {
+	return createHmac('sha256', AUTH_SECRET).update(value).digest('base64url');
+}
+
+/**
+ * OAuth state: `<provider>.<nonce>.<expiry>.<signature>`.
+ * The nonce is also kept in a cookie so the callback only completes in the browser that started it.
+ */
+function createOAuthState(provider: string) {
+	const nonce = randomBytes(16).toString('base64url');
+	const payload = `${provider}.${nonce}.${Date.now() + OAUTH_STATE_TTL_MS}`;
+	return { nonce, state: `${payload}.${sign(payload)}` };
+}
+
+function verifyOAuthState(
+	state: string,
+	provider: string,
+	cookieHeader: string | undefined
+): boolean {
+	const [stateProvider, nonce, expiresAt, signature] = state.split('.');
+	if (!stateProvider || !nonce || !expiresAt || !signature) return false;
+
+	const expected = Buffer.from(sign(`${stateProvider}.${nonce}.${expiresAt}`));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false;
+
+	const cookieNonce = cookieHeader
+		?.split(';')
+		.map((part) => part.trim().split('='))
+		.find(([name]) => name === OAUTH_STATE_COOKIE)?.[1];
+
+	return stateProvider === provider && cookieNonce === nonce && Number(expiresAt) > Date.now();
+}
+
+function redirectToApp(params: Record<string, string>, clearStateCookie = false) {
+	const url = new URL('/auth/callback', APP_URL);
+	// Fragment rather than query string, so the token stays out of server logs and Referer headers
+	url.hash = new URLSearchParams(params).toString();
+
+	const headers = new Headers({ Location: url.toString() });
+	if (clearStateCookie) {
+		headers.append(
+			'Set-Cookie',
+			`${OAUTH_STATE_COOKIE}=; Path=/auth/oauth; HttpOnly; SameSite=Lax; Max-Age=0`
+		);
+	}
+	return new Response(null, { status: 302, headers });
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /auth/providers - sign-in options shown on the sign-in page
+ */
+export const authProvidersRoute = registerApiRoute('/auth/providers', {
+	method: 'GET',
+	requiresAuth: false,
+	handler: async (c) =>
+		c.json({
+			mode: AUTH_MODE,
+			providers: Object.values(oauthProviders).map(({ id, name }) => ({ id, name })),
+		}),
+});
+
+/**
+ * GET /auth/session - user behind the bearer token, `{ user: null }` when signed out
+ */
+export const authSessionRoute = registerApiRoute('/auth/session', {
+	method: 'GET',
+	requiresAuth: false,
+	handler: async (c) => {
+		const token = getBearerToken(c.req.header('Authorization'));
+		return c.json({ user: token ? await getSessionUser(token) : null });
+	},
+});
+
+/**
+ * POST /auth/sign-up - register an email/password account and start a session
+ */
+export const authSignUpRoute = registerApiRoute('/auth/sign-up', {
+	method: 'POST',
+	requiresAuth: false,
+	handler: async (c) => {
+		const { email, password, name } = await c.req.json<CredentialsBody>();
+		if (!email || !password) {
+			return c.json({ error: 'email and password are required' }, 400);
+		}
+
+		try {
+			return c.json(await startSession(await createUser({ email, password, name })));
+		} catch (error) {
+			return authErrorResponse(error);
+		}
+	},
+});
+
+/**
+ * POST /auth/sign-in - check email/password and start a session
+ */
+export const authSignInRoute = registerApiRoute('/auth/sign-in', {
+	method: 'POST',
+	requiresAuth: false,
+	handler: async (c) => {
+		const { email, password } = await c.req.json<CredentialsBody>();
+		if (!email || !password) {
+			return c.json({ error: 'email and password are required' }, 400);
+		}
+
+		try {
+			const user = await verifyCredentials(email, password, {
+				createIfMissing: AUTH_MODE === 'local',
+			});
+			return c.json(await startSession(user));
+		} catch (error) {
+			return authErrorResponse(error);
+		}
+	},
+});
+
+/**
+ * POST /auth/sign-out - end the session behind the bearer token
+ */
+export const authSignOutRoute = registerApiRoute('/auth/sign-out', {
+	method: 'POST',
+	requiresAuth: false,
+	handler: async (c) => {
+		const token = getBearerToken(c.req.header('Authorization'));
+		if (token) await deleteSession(token);
+		return c.json({ success: true });
+	},
+});
+
+/**
+ * GET /auth/oauth/:provider - send the browser to the provider's consent screen
+ */
+export const authOAuthStartRoute = registerApiRoute('/auth/oauth/:provider', {
+	method: 'GET',
+	requiresAuth: false,
+	handler: async (c) => {
+		const providerId = c.req.param('provider');
+		const provider = oauthProviders[providerId];
+		if (!provider) {
+			return c.json({ error: `Unknown OAuth provider: ${providerId}` }, 404);
+		}
+
+		const { nonce, state } = createOAuthState(provider.id);
+		const redirectUri = new URL(`/auth/oauth/${provider.id}/callback`, c.req.url).toString();
+
+		return new Response(null, {
+			status: 302,
+			headers: {
+				Location: provider.getAuthorizationUrl({ state, redirectUri }),
+				'Set-Cookie': `${OAUTH_STATE_COOKIE}=${nonce}; Path=/auth/oauth; HttpOnly; SameSite=Lax; Max-Age=${OAUTH_STATE_TTL_MS / 1000}`,
+			},
+		});
+	},
+});
+
+/**
+ * GET /auth/oauth/:provider/callback - finish the login and hand the session token to the app
+ */
+export const authOAuthCallbackRoute = registerApiRoute('/auth/oauth/:provider/callback', {
+	method: 'GET',
+	requiresAuth: false,
+	handler: async (c) => {
+		const provider = oauthProviders[c.req.param('provider')];
+		const code = c.req.query('code');
+		const state = c.req.query('state');
+
+		if (
+			!provider ||
+			!code ||
+			!state ||
+			!verifyOAuthState(state, provider.id, c.req.header('Cookie'))
+		) {
+			return redirectToApp({ error: 'The sign-in link is invalid or expired' }, true);
+		}
+
+		try {
+			const redirectUri = new URL(`/auth/oauth/${provider.id}/callback`, c.req.url).toString();
+			const profile = await provider.getProfile({ code, redirectUri });
+			const user = await findOrCreateOAuthUser(provider.id, profile);
+			const { token } = await createSession(user.id);
+			return redirectToApp({ token }, true);
+		} catch (error) {
+			console.error(`OAuth sign-in with ${provider.id} failed:`, error);
+			return redirectToApp({ error: `Could not sign in with ${provider.name}` }, true);
+		}
+	},
+});
+
+export const authRoutes = [
+	authProvidersRoute,
+	authSessionRoute,
+	authSignUpRoute,
+	authSignInRoute,
+	authSignOutRoute,
+	authOAuthStartRoute,
+	authOAuthCallbackRoute,
+];
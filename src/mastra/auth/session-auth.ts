@@ -0,0 +1,24 @@
+import { MastraAuthProvider } from '@mastra/core/server';
+import { type AuthUser, getSessionUser } from './store';
+
+/**
+ * Mastra server auth backed by the session tokens issued by /auth/sign-in.
+ * The Mastra server reads the token from `Authorization: Bearer <token>` and stores
+ * the resolved user in requestContext under `user`.
+ */
+export class SessionAuth extends MastraAuthProvider<AuthUser> {
+	constructor() {
+		// `requiresAuth: false` only matches static route paths, so the
+		// parameterised OAuth routes are made public here as well
+		super({ name: 'session', public: ['/auth/*'] });
+	}
+
+	async authenticateToken(token: string): Promise<AuthUser | null> {
+		return getSessionUser(token);
+	}
+
+	// Any signed-in user may call the API; thread ownership is checked by `threadOwnership`
+	authorizeUser(user: AuthUser): boolean {
+		return Boolean(user?.id);
+	}
+}
@@ -0,0 +1,290 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { Row } from '@libsql/client';
+import { db } from '../db/client';
+
+const scryptAsync = promisify(scrypt) as (
+	password: string,
+	salt: string,
+	keylen: number
+) => Promise<Buffer>;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Sign-up or sign-in failed for a reason the user can act on
+ */
+export class AuthError extends Error {
+	constructor(
+		message: string,
+		public readonly status: 400 | 401 | 403 | 409 = 400
+	) {
+		super(message);
+		this.name = 'AuthError';
+	}
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Signed-in user. The id doubles as the Mastra memory `resource`, so every
+ * thread and message is scoped to the user who created it.
+ */
+export interface AuthUser {
+	id: string;
+	email: string;
+	name: string;
+}
+
+/**
+ * Profile returned by an OAuth provider after the code exchange
+ */
+export interface OAuthProfile {
+	id: string;
+	email: string;
+	name: string;
+}
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+const createTablesSql = [
+	`CREATE TABLE IF NOT EXISTS users (
+	id TEXT PRIMARY KEY,
+	email TEXT NOT NULL UNIQUE,
+	name TEXT NOT NULL,
+	password_hash TEXT,
+	created_at TEXT NOT NULL
+)`,
+	`CREATE TABLE IF NOT EXISTS user_accounts (
+	provider TEXT NOT NULL,
+	provider_account_id TEXT NOT NULL,
+	user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+	created_at TEXT NOT NULL,
+	PRIMARY KEY (provider, provider_account_id)
+)`,
+	`CREATE TABLE IF NOT EXISTS user_sessions (
+	token_hash TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+	expires_at TEXT NOT NULL,
+	created_at TEXT NOT NULL
+)`,
+	'CREATE INDEX IF NOT EXISTS user_sessions_user_idx ON user_sessions (user_id)',
+];
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Create the auth tables on first use.
+ * Safe to call many times: the work only happens once per process.
+ */
+export function ensureAuthTables(): Promise<void> {
+	if (!initPromise) {
+		initPromise = db
+			.batch(createTablesSql, 'write')
+			.then(() => undefined)
+			.catch((error) => {
+				// Allow a retry on the next call instead of caching the failure
+				initPromise = null;
+				throw error;
+			});
+	}
+	return initPromise;
+}
+
+// ============================================================================
+// Passwords
+// ============================================================================
+
+async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16).toString('hex');
+	const key = await scryptAsync(password, salt, KEY_LENGTH);
+	return `scrypt$${salt}$${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+	const [scheme, salt, hash] = stored.split('$');
+	if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+	const expected = Buffer.from(hash, 'hex');
+	const actual = await scryptAsync(password, salt, expected.length);
+	return timingSafeEqual(actual, expected);
+}
+
+function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase();
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+function rowToUser(row: Row): AuthUser {
+	return {
+		id: String(row.id),
+		email: String(row.email),
+		name: String(row.name),
+	};
+}
+
+async function findUserRow(email: string): Promise<Row | undefined> {
+	await ensureAuthTables();
+	const { rows } = await db.execute({
+		sql: 'SELECT * FROM users WHERE email = ?',
+		args: [normalizeEmail(email)],
+	});
+	return rows[0];
+}
+
+async function insertUser(
+	email: string,
+	name: string,
+	passwordHash: string | null
+): Promise<AuthUser> {
+	const normalizedEmail = normalizeEmail(email);
+	const user: AuthUser = {
+		id: randomUUID(),
+		email: normalizedEmail,
+		name: name.trim() || normalizedEmail.split('@')[0],
+	};
+	await db.execute({
+		sql: 'INSERT INTO users (id, email, name, password_hash, created_at) VALUES (?, ?, ?, ?, ?)',
+		args: [user.id, user.email, user.name, passwordHash, new Date().toISOString()],
+	});
+	return user;
+}
+
+/**
+ * Register a new email/password account
+ */
+export async function createUser(input: {
+	email: string;
+	name?: string;
+	password: string;
+}): Promise<AuthUser> {
+	if (!input.email.includes('@')) {
+		throw new AuthError('Enter a valid email address');
+	}
+	if (input.password.length < MIN_PASSWORD_LENGTH) {
+		throw new AuthError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+	}
+	if (await findUserRow(input.email)) {
+		throw new AuthError('An account with this email already exists', 409);
+	}
+
+	return insertUser(input.email, input.name ?? '', await hashPassword(input.password));
+}
+
+/**
+ * Check an email/password pair.
+ * With `createIfMissing` (local dev mode) an unknown email is registered on the spot.
+ */
+export async function verifyCredentials(
+	email: string,
+	password: string,
+	{ createIfMissing = false }: { createIfMissing?: boolean } = {}
+): Promise<AuthUser> {
+	const row = await findUserRow(email);
+
+	if (!row) {
+		if (createIfMissing) return createUser({ email, password });
+		throw new AuthError('Invalid email or password', 401);
+	}
+
+	const passwordHash = row.password_hash;
+	if (typeof passwordHash !== 'string' || !(await verifyPassword(password, passwordHash))) {
+		throw new AuthError('Invalid email or password', 401);
+	}
+
+	return rowToUser(row);
+}
+
+/**
+ * Resolve the user for an OAuth login, linking the provider account to an
+ * existing user with the same email or creating a new one
+ */
+export async function findOrCreateOAuthUser(
+	provider: string,
+	profile: OAuthProfile
+): Promise<AuthUser> {
+	await ensureAuthTables();
+
+	const { rows } = await db.execute({
+		sql: `SELECT users.* FROM user_accounts
+			JOIN users ON users.id = user_accounts.user_id
+			WHERE user_accounts.provider = ? AND user_accounts.provider_account_id = ?`,
+		args: [provider, profile.id],
+	});
+	if (rows[0]) return rowToUser(rows[0]);
+
+	const existing = await findUserRow(profile.email);
+	const user = existing ? rowToUser(existing) : await insertUser(profile.email, profile.name, null);
+
+	await db.execute({
+		sql: 'INSERT INTO user_accounts (provider, provider_account_id, user_id, created_at) VALUES (?, ?, ?, ?)',
+		args: [provider, profile.id, user.id, new Date().toISOString()],
+	});
+
+	return user;
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/** Only a hash of the token is stored, so a leaked database cannot be used to sign in */
+function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session and return its bearer token
+ */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: string }> {
+	await ensureAuthTables();
+
+	const token = randomBytes(32).toString('base64url');
+	const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+	await db.execute({
+		sql: 'INSERT INTO user_sessions (token_hash, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)',
+		args: [hashToken(token), userId, expiresAt, new Date().toISOString()],
+	});
+
+	return { token, expiresAt };
+}
+
+/**
+ * User behind a session token, or null when the token is unknown or expired
+ */
+export async function getSessionUser(token: string): Promise<AuthUser | null> {
+	await ensureAuthTables();
+
+	const { rows } = await db.execute({
+		sql: `SELECT users.* FROM user_sessions
+			JOIN users ON users.id = user_sessions.user_id
+			WHERE user_sessions.token_hash = ? AND user_sessions.expires_at > ?`,
+		args: [hashToken(token), new Date().toISOString()],
+	});
+
+	return rows[0] ? rowToUser(rows[0]) : null;
+}
+
+/**
+ * End a session (sign out)
+ */
+export async function deleteSession(token: string): Promise<void> {
+	await ensureAuthTables();
+	await db.execute({
+		sql: 'DELETE FROM user_sessions WHERE token_hash = ?',
+		args: [hashToken(token)],
+	});
+}
@@ -0,0 +1,57 @@
+import type { MastraMemory } from '@mastra/core/memory';
+import { memoryVector, SEMANTIC_RECALL } from './memory';
+import { embedTexts } from './services/embedder';
+
+/**
+ * User message metadata key listing the threads recalled while answering it
+ */
+export const RECALLED_THREADS_METADATA_KEY = 'recalledThreads';
+
+/**
+ * Another thread of the user with messages similar to the new one
+ */
+export interface RecalledThread {
+	threadId: string;
+	title: string;
+	/** Best similarity between the new message and a message of the thread */
+	score: number;
+}
+
+/**
+ * Threads other than the current one whose messages semantic recall hands to the agents
+ * for this query. Runs the same vector search as Mastra's recall processor, which only adds
+ * the messages to the prompt without saying where they came from.
+ */
+export async function findRecalledThreads(
+	memory: MastraMemory,
+	{ threadId, resourceId, query }: { threadId: string; resourceId: string; query: string }
+): Promise<RecalledThread[]> {
+	const { indexName, topK, threshold } = SEMANTIC_RECALL;
+
+	// The index is created with the first embedded message
+	const indexes = await memoryVector.listIndexes();
+	if (!indexes.includes(indexName)) return [];
+
+	const [queryVector] = await embedTexts([query]);
+	const results = await memoryVector.query({
+		indexName,
+		queryVector,
+		topK,
+		filter: { resource_id: resourceId },
+	});
+
+	const scores = new Map<string, number>();
+	for (const { score, metadata } of results) {
+		const id = metadata?.thread_id;
+		if (typeof id !== 'string' || id === threadId || score < threshold) continue;
+		scores.set(id, Math.max(score, scores.get(id) ?? 0));
+	}
+
+	const recalled: RecalledThread[] = [];
+	for (const [id, score] of scores) {
+		const thread = await memory.getThreadById({ threadId: id });
+		if (!thread || thread.resourceId !== resourceId) continue;
+		recalled.push({ threadId: id, title: thread.title || 'Untitled', score });
+	}
+	return recalled.sort((a, b) => b.score - a.score);
+}
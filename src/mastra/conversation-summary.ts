@@ -0,0 +1,174 @@
+import { google } from '@ai-sdk/google';
+import type { MastraDBMessage, MastraMemory } from '@mastra/core/memory';
+import type { RequestContext } from '@mastra/core/request-context';
+import { generateText } from 'ai';
+import { MEMORY_LAST_MESSAGES } from './memory';
+import { withUsageTracking } from './usage/tracking';
+import { withMockModel } from './utils/mock-model';
+import { withRecording } from './utils/recording';
+
+/**
+ * Thread metadata key the rolling summary is stored under
+ */
+export const THREAD_SUMMARY_METADATA_KEY = 'summary';
+
+/**
+ * requestContext key holding the summary text for the routing agent instructions
+ */
+export const CONVERSATION_SUMMARY_KEY = 'conversationSummary';
+
+/** Longest network result kept in the transcript sent to the summarizer */
+const MAX_RESULT_CHARS = 2000;
+
+const SUMMARY_INSTRUCTIONS = `You maintain the running summary of a travel planning conversation.
+Merge the current summary with the new messages into one updated summary.
+Keep every detail the assistant may need later: destinations, dates, budgets, party size, preferences, constraints, decisions taken and open questions.
+Write plain prose in the language of the conversation, at most 250 words. Respond only with the summary.`;
+
+/**
+ * Summary of the messages that fell out of the memory window, kept in the thread metadata
+ */
+export interface ThreadSummary {
+	text: string;
+	/** createdAt of the newest summarized message */
+	summarizedUntil: string;
+	updatedAt: string;
+}
+
+function isThreadSummary(value: unknown): value is ThreadSummary {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as ThreadSummary).text === 'string' &&
+		typeof (value as ThreadSummary).summarizedUntil === 'string'
+	);
+}
+
+function messageText(message: MastraDBMessage): string {
+	return message.content.parts
+		.map((part) => (part.type === 'text' ? part.text : ''))
+		.join('\n')
+		.trim();
+}
+
+/**
+ * Network results are stored as JSON; only the primitive's answer is worth summarizing
+ */
+function networkResultText(text: string): string {
+	try {
+		const data = JSON.parse(text);
+		const result = data.finalResult?.text || JSON.stringify(data.finalResult?.result ?? '');
+		return `${result}`.slice(0, MAX_RESULT_CHARS);
+	} catch {
+		return text.slice(0, MAX_RESULT_CHARS);
+	}
+}
+
+function transcriptLine(message: MastraDBMessage): string | null {
+	const text = messageText(message);
+	if (!text) return null;
+
+	if (message.role === 'user') return `User: ${text}`;
+	if (message.role !== 'assistant') return null;
+	// Completion check reports carry nothing the user said or was told
+	if (message.content.metadata?.completionResult) return null;
+
+	const answer = text.includes('"isNetwork":true') ? networkResultText(text) : text;
+	return answer ? `Assistant: ${answer}` : null;
+}
+
+function summaryModel(requestContext: RequestContext) {
+	return withUsageTracking(
+		withRecording(withMockModel(google('gemini-2.5-flash-lite'))),
+		requestContext,
+		'summary'
+	);
+}
+
+/**
+ * Summary stored for a thread, if older messages have been summarized
+ */
+export async function getThreadSummary(
+	memory: MastraMemory,
+	threadId: string
+): Promise<ThreadSummary | null> {
+	const thread = await memory.getThreadById({ threadId });
+	const summary = thread?.metadata?.[THREAD_SUMMARY_METADATA_KEY];
+	return isThreadSummary(summary) ? summary : null;
+}
+
+/**
+ * Fold the messages that left the memory window into the thread's rolling summary.
+ * Only the messages since the last summary are sent, together with that summary.
+ */
+export async function updateThreadSummary(
+	memory: MastraMemory,
+	threadId: string,
+	requestContext: RequestContext
+): Promise<ThreadSummary | null> {
+	const thread = await memory.getThreadById({ threadId });
+	if (!thread) return null;
+
+	const existing = thread.metadata?.[THREAD_SUMMARY_METADATA_KEY];
+	const previous = isThreadSummary(existing) ? existing : null;
+
+	const { messages } = await memory.recall({
+		threadId,
+		resourceId: thread.resourceId,
+		perPage: false,
+	});
+	const older = messages.slice(0, Math.max(messages.length - MEMORY_LAST_MESSAGES, 0));
+	const pending = previous
+		? older.filter(
+				(message) => new Date(message.createdAt).toISOString() > previous.summarizedUntil
+			)
+		: older;
+	if (pending.length === 0) return previous;
+
+	const transcript = pending
+		.map(transcriptLine)
+		.filter((line) => line !== null)
+		.join('\n\n');
+
+	const { text } = await generateText({
+		model: summaryModel(requestContext),
+		system: SUMMARY_INSTRUCTIONS,
+		prompt: `Current summary:\n${previous?.text ?? '(none)'}\n\nNew messages:\n${transcript}`,
+	});
+
+	const summary: ThreadSummary = {
+		text: text.trim(),
+		summarizedUntil: new Date(pending[pending.length - 1].createdAt).toISOString(),
+		updatedAt: new Date().toISOString(),
+	};
+
+	// Summarizing takes a while: save over the thread as it is now, so metadata written in the
+	// meantime (title, pin, folder, tags, model) is kept
+	const latest = await memory.getThreadById({ threadId });
+	if (!latest) return summary;
+	await memory.saveThread({
+		thread: {
+			...latest,
+			metadata: { ...latest.metadata, [THREAD_SUMMARY_METADATA_KEY]: summary },
+			updatedAt: new Date(),
+		},
+	});
+	return summary;
+}
+
+/**
+ * Append the conversation summary in requestContext, if any, to agent instructions
+ */
+export function withConversationSummary(
+	requestContext: RequestContext | undefined,
+	instructions: string
+): string {
+	const summary = requestContext?.get(CONVERSATION_SUMMARY_KEY);
+	if (typeof summary !== 'string' || !summary) return instructions;
+
+	return `${instructions}
+## Earlier in this conversation
+Older messages are no longer in your context. This summary of them is all you know about them:
+${summary}
+`;
+}
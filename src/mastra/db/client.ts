@@ -0,0 +1,11 @@
+import { createClient } from '@libsql/client';
+
+/**
+ * LibSQL database shared by Mastra storage, memory and the app's own tables
+ */
+export const DATABASE_URL = 'file:./mastra.db';
+
+/**
+ * Raw LibSQL client for app-owned tables (destination catalog, etc.)
+ */
+export const db = createClient({ url: DATABASE_URL });
@@ -0,0 +1,293 @@
+import type { InValue, Row } from '@libsql/client';
+import { z } from 'zod';
+import { db } from '../db/client';
+import { seedDestinations } from './seed-data';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const regions = [
+	'europe',
+	'asia',
+	'africa',
+	'middle-east',
+	'north-america',
+	'central-america-caribbean',
+	'south-america',
+	'oceania',
+] as const;
+
+export const budgetTiers = ['budget', 'moderate', 'luxury'] as const;
+
+export const destinationSchema = z.object({
+	id: z.string(),
+	city: z.string(),
+	country: z.string(),
+	region: z.enum(regions),
+	latitude: z.number(),
+	longitude: z.number(),
+	description: z.string(),
+	highlights: z.array(z.string()),
+	travelTypes: z.array(z.string()),
+	/** Best months to visit, 1 = January ... 12 = December */
+	bestMonths: z.array(z.number().int().min(1).max(12)),
+	bestTimeToVisit: z.string(),
+	budgetTier: z.enum(budgetTiers),
+	/** Editorial ranking used to order results, higher first */
+	popularity: z.number().int(),
+});
+
+export type Destination = z.infer<typeof destinationSchema>;
+export type Region = (typeof regions)[number];
+export type BudgetTier = (typeof budgetTiers)[number];
+
+export interface DestinationFilters {
+	/** Free-text keywords matched against city, country, description, highlights and travel types */
+	keywords?: string[];
+	region?: Region;
+	/** Destinations matching at least one of these travel types */
+	travelTypes?: string[];
+	/** Month of travel, 1-12 */
+	month?: number;
+	budgetTier?: BudgetTier;
+	/** Maximum number of results (5 by default); null returns every match */
+	limit?: number | null;
+}
+
+const DEFAULT_LIMIT = 5;
+const MIN_KEYWORD_LENGTH = 3;
+
+// ============================================================================
+// Table
+// ============================================================================
+
+const createTableSql = `
+CREATE TABLE IF NOT EXISTS destinations (
+	id TEXT PRIMARY KEY,
+	city TEXT NOT NULL,
+	country TEXT NOT NULL,
+	region TEXT NOT NULL,
+	latitude REAL NOT NULL,
+	longitude REAL NOT NULL,
+	description TEXT NOT NULL,
+	highlights TEXT NOT NULL,
+	travel_types TEXT NOT NULL,
+	best_months TEXT NOT NULL,
+	best_time_to_visit TEXT NOT NULL,
+	budget_tier TEXT NOT NULL,
+	popularity INTEGER NOT NULL DEFAULT 0,
+	search_text TEXT NOT NULL,
+	updated_at TEXT NOT NULL
+)`;
+
+const createIndexesSql = [
+	'CREATE INDEX IF NOT EXISTS destinations_region_idx ON destinations (region)',
+	'CREATE INDEX IF NOT EXISTS destinations_budget_tier_idx ON destinations (budget_tier)',
+];
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Create the destinations table and seed it on first use.
+ * Safe to call many times: the work only happens once per process.
+ */
+export function ensureDestinationCatalog(): Promise<void> {
+	if (!initPromise) {
+		initPromise = (async () => {
+			await db.batch([createTableSql, ...createIndexesSql], 'write');
+
+			const { rows } = await db.execute('SELECT COUNT(*) AS count FROM destinations');
+			if (Number(rows[0]?.count ?? 0) === 0) {
+				await upsertDestinations(seedDestinations);
+			}
+		})().catch((error) => {
+			// Allow a retry on the next call instead of caching the failure
+			initPromise = null;
+			throw error;
+		});
+	}
+	return initPromise;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+function buildSearchText(destination: Destination): string {
+	return [
+		destination.city,
+		destination.country,
+		destination.region,
+		destination.description,
+		destination.bestTimeToVisit,
+		...destination.highlights,
+		...destination.travelTypes,
+	]
+		.join(' ')
+		.toLowerCase();
+}
+
+function parseJsonArray<T>(value: unknown): T[] {
+	if (typeof value !== 'string') return [];
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed : [];
+	} catch {
+		return [];
+	}
+}
+
+function rowToDestination(row: Row): Destination {
+	return destinationSchema.parse({
+		id: row.id,
+		city: row.city,
+		country: row.country,
+		region: row.region,
+		latitude: Number(row.latitude),
+		longitude: Number(row.longitude),
+		description: row.description,
+		highlights: parseJsonArray<string>(row.highlights),
+		travelTypes: parseJsonArray<string>(row.travel_types),
+		bestMonths: parseJsonArray<number>(row.best_months),
+		bestTimeToVisit: row.best_time_to_visit,
+		budgetTier: row.budget_tier,
+		popularity: Number(row.popularity),
+	});
+}
+
+// ============================================================================
+// Repository
+// ============================================================================
+
+/**
+ * Insert or update destinations (matched by id). Used for seeding and curation imports.
+ */
+export async function upsertDestinations(destinations: Destination[]): Promise<void> {
+	const updatedAt = new Date().toISOString();
+
+	await db.batch(
+		destinations.map((input) => {
+			const destination = destinationSchema.parse(input);
+			return {
+				sql: `INSERT INTO destinations (
+					id, city, country, region, latitude, longitude, description, highlights,
+					travel_types, best_months, best_time_to_visit, budget_tier, popularity,
+					search_text, updated_at
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(id) DO UPDATE SET
+					city = excluded.city,
+					country = excluded.country,
+					region = excluded.region,
+					latitude = excluded.latitude,
+					longitude = excluded.longitude,
+					description = excluded.description,
+					highlights = excluded.highlights,
+					travel_types = excluded.travel_types,
+					best_months = excluded.best_months,
+					best_time_to_visit = excluded.best_time_to_visit,
+					budget_tier = excluded.budget_tier,
+					popularity = excluded.popularity,
+					search_text = excluded.search_text,
+					updated_at = excluded.updated_at`,
+				args: [
+					destination.id,
+					destination.city,
+					destination.country,
+					destination.region,
+					destination.latitude,
+					destination.longitude,
+					destination.description,
+					JSON.stringify(destination.highlights),
+					JSON.stringify(destination.travelTypes.map((type) => type.toLowerCase())),
+					JSON.stringify(destination.bestMonths),
+					destination.bestTimeToVisit,
+					destination.budgetTier,
+					destination.popularity,
+					buildSearchText(destination),
+					updatedAt,
+				],
+			};
+		}),
+		'write'
+	);
+}
+
+/**
+ * Find destinations matching the structured filters.
+ * Keywords are OR-ed (any keyword matches); all other filters are AND-ed.
+ * Results are ordered by popularity.
+ */
+export async function findDestinations(filters: DestinationFilters = {}): Promise<Destination[]> {
+	await ensureDestinationCatalog();
+
+	const conditions: string[] = [];
+	const args: InValue[] = [];
+
+	if (filters.region) {
+		conditions.push('region = ?');
+		args.push(filters.region);
+	}
+
+	if (filters.budgetTier) {
+		conditions.push('budget_tier = ?');
+		args.push(filters.budgetTier);
+	}
+
+	if (filters.month) {
+		conditions.push('EXISTS (SELECT 1 FROM json_each(best_months) WHERE json_each.value = ?)');
+		args.push(filters.month);
+	}
+
+	const travelTypes = filters.travelTypes?.map((type) => type.trim().toLowerCase()).filter(Boolean);
+	if (travelTypes && travelTypes.length > 0) {
+		conditions.push(
+			`EXISTS (SELECT 1 FROM json_each(travel_types) WHERE json_each.value IN (${travelTypes.map(() => '?').join(', ')}))`
+		);
+		args.push(...travelTypes);
+	}
+
+	const keywords = filters.keywords
+		?.map((keyword) => keyword.trim().toLowerCase())
+		.filter((keyword) => keyword.length >= MIN_KEYWORD_LENGTH);
+	if (keywords && keywords.length > 0) {
+		conditions.push(`(${keywords.map(() => "search_text LIKE ? ESCAPE '\\'").join(' OR ')})`);
+		args.push(...keywords.map((keyword) => `%${keyword.replace(/[\\%_]/g, '\\$&')}%`));
+	}
+
+	const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+	const limit = filters.limit === null ? '' : 'LIMIT ?';
+	if (filters.limit !== null) args.push(filters.limit ?? DEFAULT_LIMIT);
+
+	const { rows } = await db.execute({
+		sql: `SELECT * FROM destinations ${where} ORDER BY popularity DESC, city ASC ${limit}`,
+		args,
+	});
+
+	return rows.map(rowToDestination);
+}
+
+/**
+ * Every destination in the catalog, most popular first
+ */
+export async function listDestinations(): Promise<Destination[]> {
+	await ensureDestinationCatalog();
+
+	const { rows } = await db.execute(
+		'SELECT * FROM destinations ORDER BY popularity DESC, city ASC'
+	);
+	return rows.map(rowToDestination);
+}
+
+/**
+ * Changes whenever a destination is added, updated or removed, so derived data (e.g. the
+ * destination vectors) can tell when it is stale without reading the whole catalog
+ */
+export async function getCatalogVersion(): Promise<string> {
+	await ensureDestinationCatalog();
+
+	const { rows } = await db.execute(
+		'SELECT COUNT(*) AS count, MAX(updated_at) AS updated_at FROM destinations'
+	);
+	return `${rows[0]?.count ?? 0}:${rows[0]?.updated_at ?? ''}`;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Destination } from './catalog';
+import { scoreDestination } from './scoring';
+
+const barcelona: Destination = {
+	id: 'barcelona',
+	city: 'Barcelona',
+	country: 'Spain',
+	region: 'europe',
+	latitude: 41.3874,
+	longitude: 2.1686,
+	description:
+		'Vibrant city with Gaudí modernist architecture, Mediterranean beaches, and nightlife.',
+	highlights: ['Sagrada Familia', 'Park Güell', 'Barceloneta Beach'],
+	bestMonths: [5, 6, 9, 10],
+	bestTimeToVisit: 'May to June, September to October',
+	travelTypes: ['beach', 'culture', 'nightlife'],
+	budgetTier: 'moderate',
+	popularity: 100,
+};
+
+describe('scoreDestination', () => {
+	it('gives full score when every requested signal matches', () => {
+		const result = scoreDestination(barcelona, { travelTypes: ['beach', 'culture'] });
+
+		expect(result.score).toBe(1);
+		expect(result.reasons).toEqual(['Great for beach, culture trips']);
+	});
+
+	it('scores the share of requested travel types that match', () => {
+		const result = scoreDestination(barcelona, { travelTypes: ['beach', 'skiing'] });
+
+		expect(result.score).toBe(0.5);
+	});
+
+	it('matches query words against types, highlights and description, tolerating plurals', () => {
+		const result = scoreDestination(barcelona, { query: 'beaches and gaudi' });
+
+		expect(result.score).toBe(1);
+		expect(result.reasons).toEqual([
+			'Great for beach trips',
+			'Highlights: Barceloneta Beach',
+			'Mentions beaches, gaudi',
+		]);
+	});
+
+	it('ignores stop words in the query', () => {
+		const result = scoreDestination(barcelona, { query: 'somewhere to travel' });
+
+		expect(result).toEqual({ score: 0, reasons: [] });
+	});
+
+	it('rules out destinations that get no credit for a filter', () => {
+		expect(scoreDestination(barcelona, { query: 'beach', region: 'asia' })).toEqual({
+			score: 0,
+			reasons: [],
+		});
+		// Two months away from its best season
+		expect(scoreDestination(barcelona, { query: 'beach', month: 3 }).score).toBe(0);
+		expect(
+			scoreDestination({ ...barcelona, budgetTier: 'budget' }, { budgetTier: 'luxury' }).score
+		).toBe(0);
+	});
+
+	it('gives full score with the filters as reasons when there is nothing else to weigh', () => {
+		const result = scoreDestination(barcelona, {
+			region: 'europe',
+			month: 6,
+			budgetTier: 'moderate',
+		});
+
+		expect(result).toEqual({
+			score: 1,
+			reasons: ['Located in europe', 'Good season in June', 'Matches the moderate price range'],
+		});
+	});
+
+	it('gives half credit to the month next to the best season', () => {
+		const result = scoreDestination(barcelona, { month: 4 });
+
+		expect(result).toEqual({ score: 0.5, reasons: ['Shoulder season in April'] });
+	});
+
+	it('counts December and January as adjacent months', () => {
+		const winter = { ...barcelona, bestMonths: [1, 2] };
+
+		expect(scoreDestination(winter, { month: 12 }).score).toBe(0.5);
+	});
+
+	it('gives half credit to the next budget tier', () => {
+		const result = scoreDestination(barcelona, { budgetTier: 'luxury' });
+
+		expect(result).toEqual({
+			score: 0.5,
+			reasons: ['Near the luxury price range (moderate)'],
+		});
+	});
+
+	it('weighs the filters with the other signals', () => {
+		// travel types 3 × 0.5 + season 1.5 out of travel types 3 + season 1.5
+		expect(scoreDestination(barcelona, { travelTypes: ['beach', 'skiing'], month: 6 }).score).toBe(
+			0.67
+		);
+	});
+
+	it('weighs semantic similarity with the keyword signals', () => {
+		const result = scoreDestination(barcelona, { travelTypes: ['skiing'] }, 0.9);
+
+		// semantic 3 × 0.9 out of semantic 3 + travel types 3
+		expect(result.score).toBe(0.45);
+		expect(result.reasons).toEqual(['Close match for your description']);
+	});
+
+	it('stays between 0 and 1 with or without a similarity', () => {
+		const criteria = { query: 'beach', travelTypes: ['beach'] };
+
+		expect(scoreDestination(barcelona, criteria).score).toBe(1);
+		expect(scoreDestination(barcelona, criteria, 1).score).toBe(1);
+		expect(scoreDestination(barcelona, criteria, 0).score).toBeLessThan(1);
+	});
+});
@@ -0,0 +1,302 @@
+import {
+	type BudgetTier,
+	budgetTiers,
+	type Destination,
+	findDestinations,
+	type Region,
+} from './catalog';
+import { searchSimilarDestinations } from './semantic';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DestinationCriteria {
+	/** Free-text interests, activities or place names */
+	query?: string;
+	travelTypes?: string[];
+	region?: Region;
+	/** Month of travel, 1-12 */
+	month?: number;
+	budgetTier?: BudgetTier;
+}
+
+export interface RankedDestination {
+	destination: Destination;
+	/** Relevance between 0 and 1, relative to the criteria that were given */
+	score: number;
+	/** Short human-readable reasons why the destination matched */
+	reasons: string[];
+}
+
+/**
+ * Relative weight of each signal. A signal only counts towards the maximum score when the
+ * caller provides it, and the score is divided by that maximum, so it stays between 0 and 1
+ * with or without embeddings. Region, season and budget are also filters: a destination that
+ * gets no credit for one of them scores 0.
+ */
+export const scoringWeights = {
+	semantic: 3,
+	travelTypes: 3,
+	highlights: 2,
+	region: 2,
+	season: 1.5,
+	budget: 1.5,
+	text: 1,
+} as const;
+
+const DEFAULT_LIMIT = 5;
+/** Relative similarity above which a destination counts as a close semantic match */
+const SEMANTIC_REASON_THRESHOLD = 0.8;
+const MIN_KEYWORD_LENGTH = 3;
+const STOP_WORDS = new Set([
+	'and',
+	'for',
+	'the',
+	'with',
+	'where',
+	'want',
+	'trip',
+	'travel',
+	'place',
+	'places',
+	'destination',
+	'destinations',
+	'somewhere',
+	'visit',
+]);
+
+const MONTH_NAMES = [
+	'January',
+	'February',
+	'March',
+	'April',
+	'May',
+	'June',
+	'July',
+	'August',
+	'September',
+	'October',
+	'November',
+	'December',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalize(value: string): string {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.trim();
+}
+
+function tokenize(query: string | undefined): string[] {
+	if (!query) return [];
+	const tokens = normalize(query)
+		.split(/[^a-z0-9-]+/)
+		.filter((token) => token.length >= MIN_KEYWORD_LENGTH && !STOP_WORDS.has(token));
+	return [...new Set(tokens)];
+}
+
+/** Loose match that tolerates simple plurals ("beaches" vs "beach") */
+function matchesWord(text: string, token: string): boolean {
+	if (text.includes(token)) return true;
+	const singular = token.replace(/(es|s)$/, '');
+	return singular.length >= MIN_KEYWORD_LENGTH && text.includes(singular);
+}
+
+/** Months between two months of the year, across the turn of the year (December to January is 1) */
+function monthDistance(a: number, b: number): number {
+	const distance = Math.abs(a - b) % 12;
+	return Math.min(distance, 12 - distance);
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score a single destination against the criteria.
+ * `similarity` is the destination's semantic similarity to the query (0-1), when available.
+ * Returns a score between 0 and 1 and the reasons that contributed to it. Adjacent months and
+ * budget tiers get half credit; a destination outside the region, more than a month away from
+ * its best season or more than one budget tier away scores 0.
+ */
+export function scoreDestination(
+	destination: Destination,
+	criteria: DestinationCriteria,
+	similarity?: number
+): Omit<RankedDestination, 'destination'> {
+	let score = 0;
+	let maxScore = 0;
+	const reasons: string[] = [];
+
+	if (similarity !== undefined) {
+		maxScore += scoringWeights.semantic;
+		score += scoringWeights.semantic * similarity;
+		if (similarity >= SEMANTIC_REASON_THRESHOLD) {
+			reasons.push('Close match for your description');
+		}
+	}
+
+	const destinationTypes = destination.travelTypes.map(normalize);
+	const highlights = destination.highlights.map((highlight) => ({
+		label: highlight,
+		text: normalize(highlight),
+	}));
+
+	// Travel types: requested types plus any query token that names a type
+	const tokens = tokenize(criteria.query);
+	const requestedTypes = new Set([
+		...(criteria.travelTypes ?? []).map(normalize).filter(Boolean),
+		...tokens.filter((token) => destinationTypes.some((type) => matchesWord(type, token))),
+	]);
+	if (requestedTypes.size > 0) {
+		maxScore += scoringWeights.travelTypes;
+		const matchedTypes = destination.travelTypes.filter((type) =>
+			[...requestedTypes].some((requested) => matchesWord(normalize(type), requested))
+		);
+		if (matchedTypes.length > 0) {
+			score += scoringWeights.travelTypes * Math.min(1, matchedTypes.length / requestedTypes.size);
+			reasons.push(`Great for ${matchedTypes.join(', ')} trips`);
+		}
+	}
+
+	// Free-text: highlights weigh more than the rest of the description
+	if (tokens.length > 0) {
+		maxScore += scoringWeights.highlights + scoringWeights.text;
+
+		const matchedHighlights = highlights.filter((highlight) =>
+			tokens.some((token) => matchesWord(highlight.text, token))
+		);
+		if (matchedHighlights.length > 0) {
+			score += scoringWeights.highlights;
+			reasons.push(
+				`Highlights: ${matchedHighlights.map((highlight) => highlight.label).join(', ')}`
+			);
+		}
+
+		const text = normalize(
+			[destination.city, destination.country, destination.description].join(' ')
+		);
+		const matchedTokens = tokens.filter((token) => matchesWord(text, token));
+		if (matchedTokens.length > 0) {
+			score += scoringWeights.text * (matchedTokens.length / tokens.length);
+			reasons.push(`Mentions ${matchedTokens.join(', ')}`);
+		}
+	}
+
+	// Filters: weighted like the other signals, but a destination with no credit is ruled out
+	let matchesFilters = true;
+
+	if (criteria.region) {
+		maxScore += scoringWeights.region;
+		if (destination.region === criteria.region) {
+			score += scoringWeights.region;
+			reasons.push(`Located in ${criteria.region.replace(/-/g, ' ')}`);
+		} else {
+			matchesFilters = false;
+		}
+	}
+
+	if (criteria.month) {
+		maxScore += scoringWeights.season;
+		const month = criteria.month;
+		const distance = Math.min(...destination.bestMonths.map((best) => monthDistance(best, month)));
+		if (distance === 0) {
+			score += scoringWeights.season;
+			reasons.push(`Good season in ${MONTH_NAMES[month - 1]}`);
+		} else if (distance === 1) {
+			score += scoringWeights.season / 2;
+			reasons.push(`Shoulder season in ${MONTH_NAMES[month - 1]}`);
+		} else {
+			matchesFilters = false;
+		}
+	}
+
+	if (criteria.budgetTier) {
+		maxScore += scoringWeights.budget;
+		const distance = Math.abs(
+			budgetTiers.indexOf(destination.budgetTier) - budgetTiers.indexOf(criteria.budgetTier)
+		);
+		if (distance === 0) {
+			score += scoringWeights.budget;
+			reasons.push(`Matches the ${criteria.budgetTier} price range`);
+		} else if (distance === 1) {
+			score += scoringWeights.budget / 2;
+			reasons.push(`Near the ${criteria.budgetTier} price range (${destination.budgetTier})`);
+		} else {
+			matchesFilters = false;
+		}
+	}
+
+	if (!matchesFilters || maxScore === 0) {
+		return { score: 0, reasons: matchesFilters ? reasons : [] };
+	}
+
+	return { score: Math.round((score / maxScore) * 100) / 100, reasons };
+}
+
+/**
+ * Similarity of every destination to the query, scaled so the best match is 1.
+ * Falls back to keyword-only scoring (empty map) when the embedder is unavailable.
+ */
+async function getSimilarities(query: string | undefined): Promise<Map<string, number>> {
+	if (!query?.trim()) return new Map();
+
+	try {
+		const similarities = await searchSimilarDestinations(query);
+		const best = Math.max(0, ...similarities.values());
+		if (best === 0) return new Map();
+
+		return new Map([...similarities].map(([id, similarity]) => [id, similarity / best]));
+	} catch (error) {
+		console.error('Failed to search similar destinations:', error);
+		return new Map();
+	}
+}
+
+/**
+ * Rank the destinations of the requested region, best match first.
+ * Hybrid scoring: semantic similarity to the query plus the weighted keyword, season and budget
+ * matches. Destinations that match nothing or fail a filter are dropped; popularity breaks ties.
+ * When nothing matches, the most popular destinations of the region are returned.
+ */
+export async function rankDestinations(
+	criteria: DestinationCriteria,
+	limit = DEFAULT_LIMIT
+): Promise<RankedDestination[]> {
+	const [destinations, similarities] = await Promise.all([
+		// Season and budget give partial credit to adjacent months and tiers, so only the
+		// region is filtered in SQL
+		findDestinations({ region: criteria.region, limit: null }),
+		getSimilarities(criteria.query),
+	]);
+
+	// With embeddings, a destination missing from the index counts as dissimilar rather than
+	// being scored without the semantic signal, so every result shares the same maximum
+	const similarityOf = (destination: Destination) =>
+		similarities.size > 0 ? (similarities.get(destination.id) ?? 0) : undefined;
+
+	const ranked = destinations
+		.map((destination) => ({
+			destination,
+			...scoreDestination(destination, criteria, similarityOf(destination)),
+		}))
+		.filter((result) => result.score > 0)
+		.sort((a, b) => b.score - a.score || b.destination.popularity - a.destination.popularity);
+
+	if (ranked.length > 0) {
+		return ranked.slice(0, limit);
+	}
+
+	// findDestinations is already ordered by popularity
+	return destinations.slice(0, limit).map((destination) => ({
+		destination,
+		score: 0,
+		reasons: ['Popular destination'],
+	}));
+}
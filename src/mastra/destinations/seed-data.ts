@@ -0,0 +1,278 @@
+import type { Destination } from './catalog';
+
+/**
+ * Initial catalog content, inserted the first time the destinations table is created.
+ * Curated destinations are added with `upsertDestinations`.
+ */
+export const seedDestinations: Destination[] = [
+	// Europe
+	{
+		id: 'barcelona',
+		city: 'Barcelona',
+		country: 'Spain',
+		region: 'europe',
+		latitude: 41.3874,
+		longitude: 2.1686,
+		description:
+			'Vibrant city with Gaudí modernist architecture, Mediterranean beaches, and rich nightlife.',
+		highlights: [
+			'Sagrada Familia',
+			'Park Güell',
+			'Las Ramblas',
+			'Gothic Quarter',
+			'Barceloneta Beach',
+		],
+		bestMonths: [5, 6, 9, 10],
+		bestTimeToVisit: 'May to June, September to October',
+		travelTypes: ['beach', 'culture', 'gastronomy', 'nightlife', 'architecture'],
+		budgetTier: 'moderate',
+		popularity: 100,
+	},
+	{
+		id: 'paris',
+		city: 'Paris',
+		country: 'France',
+		region: 'europe',
+		latitude: 48.8566,
+		longitude: 2.3522,
+		description: 'The city of love, famous for its art, fashion, gastronomy, and iconic monuments.',
+		highlights: ['Eiffel Tower', 'Louvre', 'Notre-Dame', 'Champs-Élysées', 'Montmartre'],
+		bestMonths: [4, 5, 6, 9, 10, 11],
+		bestTimeToVisit: 'April to June, September to November',
+		travelTypes: ['romantic', 'culture', 'art', 'gastronomy', 'fashion'],
+		budgetTier: 'luxury',
+		popularity: 85,
+	},
+	{
+		id: 'rome',
+		city: 'Rome',
+		country: 'Italy',
+		region: 'europe',
+		latitude: 41.9028,
+		longitude: 12.4964,
+		description:
+			'Eternal city with ancient ruins, Renaissance art, and the best pasta in the world.',
+		highlights: ['Colosseum', 'Vatican', 'Trevi Fountain', 'Pantheon', 'Trastevere'],
+		bestMonths: [4, 5, 9, 10],
+		bestTimeToVisit: 'April to May, September to October',
+		travelTypes: ['history', 'culture', 'gastronomy', 'art', 'romantic'],
+		budgetTier: 'moderate',
+		popularity: 80,
+	},
+	{
+		id: 'amsterdam',
+		city: 'Amsterdam',
+		country: 'Netherlands',
+		region: 'europe',
+		latitude: 52.3676,
+		longitude: 4.9041,
+		description:
+			'City of canals, world-class museums, unique architecture, and liberal atmosphere.',
+		highlights: ['Van Gogh Museum', 'Anne Frank House', 'Rijksmuseum', 'Canals', 'Vondelpark'],
+		bestMonths: [4, 5, 6, 7, 8],
+		bestTimeToVisit: 'April to May (tulips), June to August',
+		travelTypes: ['culture', 'art', 'cycling', 'nightlife', 'museums'],
+		budgetTier: 'moderate',
+		popularity: 65,
+	},
+	{
+		id: 'prague',
+		city: 'Prague',
+		country: 'Czech Republic',
+		region: 'europe',
+		latitude: 50.0755,
+		longitude: 14.4378,
+		description: 'Fairytale city with medieval architecture, craft beer, and affordable prices.',
+		highlights: ['Charles Bridge', 'Prague Castle', 'Old Town Square', 'Astronomical Clock'],
+		bestMonths: [5, 6, 7, 8, 9],
+		bestTimeToVisit: 'May to September',
+		travelTypes: ['history', 'architecture', 'budget', 'beer', 'romantic'],
+		budgetTier: 'budget',
+		popularity: 60,
+	},
+	// Asia
+	{
+		id: 'tokyo',
+		city: 'Tokyo',
+		country: 'Japan',
+		region: 'asia',
+		latitude: 35.6762,
+		longitude: 139.6503,
+		description:
+			'Futuristic metropolis that combines ancestral tradition with cutting-edge technology.',
+		highlights: ['Shibuya', 'Senso-ji Temple', 'Mount Fuji', 'Akihabara', 'Shinjuku'],
+		bestMonths: [3, 4, 5, 10, 11],
+		bestTimeToVisit: 'March to May (sakura), October to November',
+		travelTypes: ['technology', 'culture', 'gastronomy', 'temples', 'modern'],
+		budgetTier: 'moderate',
+		popularity: 95,
+	},
+	{
+		id: 'bali',
+		city: 'Bali',
+		country: 'Indonesia',
+		region: 'asia',
+		latitude: -8.4095,
+		longitude: 115.1889,
+		description:
+			'Paradise island with Hindu temples, rice terraces, beaches, and wellness retreats.',
+		highlights: [
+			'Ubud',
+			'Tanah Lot Temple',
+			'Tegallalang Rice Terraces',
+			'Seminyak',
+			'Mount Batur',
+		],
+		bestMonths: [4, 5, 6, 7, 8, 9, 10],
+		bestTimeToVisit: 'April to October (dry season)',
+		travelTypes: ['beach', 'wellness', 'yoga', 'nature', 'spiritual', 'budget'],
+		budgetTier: 'budget',
+		popularity: 88,
+	},
+	{
+		id: 'bangkok',
+		city: 'Bangkok',
+		country: 'Thailand',
+		region: 'asia',
+		latitude: 13.7563,
+		longitude: 100.5018,
+		description:
+			'Chaotic and fascinating city with golden temples, floating markets, and incredible street food.',
+		highlights: ['Grand Palace', 'Wat Pho', 'Floating Market', 'Khao San Road', 'Chatuchak'],
+		bestMonths: [11, 12, 1, 2],
+		bestTimeToVisit: 'November to February',
+		travelTypes: ['culture', 'gastronomy', 'temples', 'budget', 'adventure'],
+		budgetTier: 'budget',
+		popularity: 70,
+	},
+	// Americas
+	{
+		id: 'new-york',
+		city: 'New York',
+		country: 'United States',
+		region: 'north-america',
+		latitude: 40.7128,
+		longitude: -74.006,
+		description:
+			'The city that never sleeps: iconic skyscrapers, Broadway, art, and cultural diversity.',
+		highlights: [
+			'Times Square',
+			'Central Park',
+			'Statue of Liberty',
+			'Empire State',
+			'Brooklyn Bridge',
+		],
+		bestMonths: [4, 5, 6, 9, 10, 11],
+		bestTimeToVisit: 'April to June, September to November',
+		travelTypes: ['urban', 'culture', 'art', 'shopping', 'gastronomy', 'museums'],
+		budgetTier: 'luxury',
+		popularity: 90,
+	},
+	{
+		id: 'cancun',
+		city: 'Cancun',
+		country: 'Mexico',
+		region: 'central-america-caribbean',
+		latitude: 21.1619,
+		longitude: -86.8515,
+		description: 'Caribbean paradise with white sand beaches, Mayan ruins, and vibrant nightlife.',
+		highlights: ['Hotel Zone', 'Chichen Itza', 'Isla Mujeres', 'Xcaret', 'Cenotes'],
+		bestMonths: [12, 1, 2, 3, 4],
+		bestTimeToVisit: 'December to April',
+		travelTypes: ['beach', 'resort', 'history', 'diving', 'nightlife'],
+		budgetTier: 'moderate',
+		popularity: 68,
+	},
+	{
+		id: 'buenos-aires',
+		city: 'Buenos Aires',
+		country: 'Argentina',
+		region: 'south-america',
+		latitude: -34.6037,
+		longitude: -58.3816,
+		description:
+			'Tango capital with European architecture, legendary steaks, and football passion.',
+		highlights: ['La Boca', 'San Telmo', 'Recoleta', 'Puerto Madero', 'Teatro Colón'],
+		bestMonths: [3, 4, 5, 9, 10, 11],
+		bestTimeToVisit: 'March to May, September to November',
+		travelTypes: ['culture', 'gastronomy', 'tango', 'art', 'nightlife'],
+		budgetTier: 'budget',
+		popularity: 62,
+	},
+	{
+		id: 'cusco',
+		city: 'Cusco',
+		country: 'Peru',
+		region: 'south-america',
+		latitude: -13.532,
+		longitude: -71.9675,
+		description: 'Ancient Inca capital, gateway to Machu Picchu and heart of Andean culture.',
+		highlights: [
+			'Machu Picchu',
+			'Sacred Valley',
+			'Plaza de Armas',
+			'Sacsayhuaman',
+			'San Pedro Market',
+		],
+		bestMonths: [5, 6, 7, 8, 9],
+		bestTimeToVisit: 'May to September (dry season)',
+		travelTypes: ['history', 'adventure', 'trekking', 'culture', 'archaeology'],
+		budgetTier: 'budget',
+		popularity: 58,
+	},
+	// Oceania
+	{
+		id: 'sydney',
+		city: 'Sydney',
+		country: 'Australia',
+		region: 'oceania',
+		latitude: -33.8688,
+		longitude: 151.2093,
+		description: 'Coastal city with the iconic Opera House, surf beaches, and relaxed lifestyle.',
+		highlights: ['Sydney Opera House', 'Harbour Bridge', 'Bondi Beach', 'The Rocks', 'Taronga Zoo'],
+		bestMonths: [3, 4, 5, 9, 10, 11],
+		bestTimeToVisit: 'September to November, March to May',
+		travelTypes: ['beach', 'urban', 'surf', 'nature', 'modern'],
+		budgetTier: 'luxury',
+		popularity: 75,
+	},
+	// Africa
+	{
+		id: 'marrakech',
+		city: 'Marrakech',
+		country: 'Morocco',
+		region: 'africa',
+		latitude: 31.6295,
+		longitude: -7.9811,
+		description:
+			'Imperial city with labyrinthine souks, palaces, and the magic of the nearby desert.',
+		highlights: ['Jemaa el-Fna Square', 'Majorelle Garden', 'Medina', 'Bahia Palace', 'Souks'],
+		bestMonths: [3, 4, 5, 9, 10, 11],
+		bestTimeToVisit: 'March to May, September to November',
+		travelTypes: ['culture', 'exotic', 'gastronomy', 'shopping', 'adventure'],
+		budgetTier: 'budget',
+		popularity: 64,
+	},
+	{
+		id: 'cape-town',
+		city: 'Cape Town',
+		country: 'South Africa',
+		region: 'africa',
+		latitude: -33.9249,
+		longitude: 18.4241,
+		description:
+			'Spectacular city between mountains and ocean, with vineyards and African wildlife.',
+		highlights: [
+			'Table Mountain',
+			'Cape of Good Hope',
+			'Robben Island',
+			'V&A Waterfront',
+			'Vineyards',
+		],
+		bestMonths: [11, 12, 1, 2, 3],
+		bestTimeToVisit: 'November to March',
+		travelTypes: ['nature', 'adventure', 'wine', 'safari', 'beach'],
+		budgetTier: 'moderate',
+		popularity: 66,
+	},
+];
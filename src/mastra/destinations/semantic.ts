@@ -0,0 +1,165 @@
+import { createHash } from 'node:crypto';
+import { LibSQLVector } from '@mastra/libsql';
+import { DATABASE_URL } from '../db/client';
+import { embedder as defaultEmbedder, type Embedder, embedTexts } from '../services/embedder';
+import { type Destination, getCatalogVersion, listDestinations } from './catalog';
+
+// ============================================================================
+// Vector store
+// ============================================================================
+
+export const destinationVectorStore = new LibSQLVector({
+	id: 'destinations-vector',
+	url: DATABASE_URL,
+});
+
+/**
+ * One index per embedding model, so switching embedders never mixes vector spaces
+ */
+function indexNameFor(embedder: Embedder): string {
+	const model = embedder.model.modelId.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+	return `destinations_${model}_${embedder.dimension}`;
+}
+
+/**
+ * Text that represents a destination in the vector space
+ */
+function destinationDocument(destination: Destination): string {
+	return [
+		`${destination.city}, ${destination.country}.`,
+		destination.description,
+		`Highlights: ${destination.highlights.join(', ')}.`,
+		`Good for: ${destination.travelTypes.join(', ')}.`,
+		`Best time to visit: ${destination.bestTimeToVisit}.`,
+	].join(' ');
+}
+
+/**
+ * Fingerprint of the text a vector was embedded from, stored in the vector metadata
+ */
+function contentHash(document: string): string {
+	return createHash('sha256').update(document).digest('hex').slice(0, 16);
+}
+
+/**
+ * Content hash of every vector in the index, keyed by destination id
+ */
+async function listIndexedHashes(
+	indexName: string,
+	dimension: number
+): Promise<Map<string, string | undefined>> {
+	const { count } = await destinationVectorStore.describeIndex({ indexName });
+	if (count === 0) return new Map();
+
+	// The store has no listing call: a query that keeps every score returns every vector
+	const probe = Array.from({ length: dimension }, (_, index) => (index === 0 ? 1 : 0));
+	const results = await destinationVectorStore.query({
+		indexName,
+		queryVector: probe,
+		topK: count,
+		minScore: -2,
+	});
+	return new Map(
+		results.map((result) => [
+			result.id,
+			typeof result.metadata?.contentHash === 'string' ? result.metadata.contentHash : undefined,
+		])
+	);
+}
+
+/** Sync of each index, with the catalog version it was started for */
+const syncs = new Map<string, { version: string; promise: Promise<string> }>();
+
+/**
+ * Create the vector index for the embedder and bring it in line with the catalog: destinations
+ * whose text changed since they were embedded (or that have no vector yet) are embedded again,
+ * and vectors of removed destinations are deleted. The sync is reused until the catalog version
+ * changes; concurrent calls share it.
+ */
+export async function ensureDestinationVectors(
+	embedder: Embedder = defaultEmbedder
+): Promise<string> {
+	const indexName = indexNameFor(embedder);
+	const version = await getCatalogVersion();
+
+	const sync = syncs.get(indexName);
+	if (sync?.version === version) return sync.promise;
+
+	const promise = (async () => {
+		const destinations = await listDestinations();
+
+		const indexes = await destinationVectorStore.listIndexes();
+		if (!indexes.includes(indexName)) {
+			await destinationVectorStore.createIndex({
+				indexName,
+				dimension: embedder.dimension,
+				metric: 'cosine',
+			});
+		}
+
+		const indexed = await listIndexedHashes(indexName, embedder.dimension);
+		const documents = destinations.map((destination) => {
+			const text = destinationDocument(destination);
+			return { destination, text, hash: contentHash(text) };
+		});
+
+		const removedIds = [...indexed.keys()].filter(
+			(id) => !destinations.some((destination) => destination.id === id)
+		);
+		if (removedIds.length > 0) {
+			await destinationVectorStore.deleteVectors({ indexName, ids: removedIds });
+		}
+
+		const changed = documents.filter(
+			({ destination, hash }) => indexed.get(destination.id) !== hash
+		);
+		if (changed.length > 0) {
+			await destinationVectorStore.upsert({
+				indexName,
+				vectors: await embedTexts(
+					changed.map(({ text }) => text),
+					embedder
+				),
+				ids: changed.map(({ destination }) => destination.id),
+				metadata: changed.map(({ destination, hash }) => ({
+					id: destination.id,
+					city: destination.city,
+					region: destination.region,
+					contentHash: hash,
+				})),
+			});
+		}
+
+		return indexName;
+	})().catch((error) => {
+		// Allow a retry on the next call instead of caching the failure
+		if (syncs.get(indexName)?.promise === promise) syncs.delete(indexName);
+		throw error;
+	});
+	syncs.set(indexName, { version, promise });
+	return promise;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Cosine similarity (0-1) between the query and every destination, keyed by destination id
+ */
+export async function searchSimilarDestinations(
+	query: string,
+	embedder: Embedder = defaultEmbedder
+): Promise<Map<string, number>> {
+	const indexName = await ensureDestinationVectors(embedder);
+	const [queryVector] = await embedTexts([query], embedder);
+
+	const { count } = await destinationVectorStore.describeIndex({ indexName });
+	const results = await destinationVectorStore.query({
+		indexName,
+		queryVector,
+		topK: count,
+	});
+
+	return new Map(results.map((result) => [result.id, Math.max(0, result.score)]));
+}
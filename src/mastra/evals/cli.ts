@@ -0,0 +1,95 @@
+/**
+ * Eval runner CLI: runs a dataset through the routing agent network, scores it, prints the
+ * scorer averages and saves a JSON and HTML report compared with the previous run.
+ *
+ *   bun run evals                               # default dataset, models from MODEL_PROVIDER
+ *   bun run evals --mock                        # offline models, embedder, web search and weather
+ *   bun run evals --model gemini-2.5-flash      # every agent on one model
+ *   bun run evals --case weather-current --case greeting
+ *   bun run evals --dataset my-cases.json --baseline .evals/routing-<date>.json
+ *
+ * Exits with code 1 when a case scores lower than in the baseline run.
+ */
+import { parseArgs } from 'node:util';
+import { loadDataset } from './dataset';
+import { compareRuns, findLatestReport, readReport, writeReport } from './report';
+
+const DEFAULT_DATASET = 'src/mastra/evals/datasets/routing.json';
+const DEFAULT_OUT_DIR = '.evals';
+
+const { values } = parseArgs({
+	options: {
+		dataset: { type: 'string', default: DEFAULT_DATASET },
+		mock: { type: 'boolean', default: false },
+		model: { type: 'string' },
+		case: { type: 'string', multiple: true },
+		out: { type: 'string', default: DEFAULT_OUT_DIR },
+		baseline: { type: 'string' },
+		'no-baseline': { type: 'boolean', default: false },
+	},
+});
+
+if (values.mock) {
+	// Offline: mock models (which also stand in for Open-Meteo), local embeddings and canned
+	// web search results
+	process.env.MODEL_PROVIDER = 'mock';
+	process.env.EMBEDDER_PROVIDER = 'local';
+	process.env.WEB_SEARCH_PROVIDER = 'fixture';
+}
+
+// Imported after the providers are set: the shared embedder reads EMBEDDER_PROVIDER on load,
+// and the models and the runner import it through the tools
+const { isAllowedModelId } = await import('../models');
+const { runEvalDataset } = await import('./runner');
+const { mastra } = await import('../index');
+
+if (values.model && !isAllowedModelId(values.model)) {
+	console.error(`Unknown model "${values.model}"; pick one from MODEL_REGISTRY in models.ts`);
+	process.exit(2);
+}
+
+const dataset = await loadDataset(values.dataset);
+const baseline = values['no-baseline']
+	? null
+	: values.baseline
+		? await readReport(values.baseline)
+		: await findLatestReport(values.out, dataset.name);
+
+console.log(`Running ${dataset.name} evals (${values.case?.length ?? dataset.cases.length} cases)`);
+
+const run = await runEvalDataset(mastra, dataset, {
+	modelId: isAllowedModelId(values.model) ? values.model : undefined,
+	caseIds: values.case,
+	onCaseComplete: (result) => {
+		const failed = result.scores.filter(({ score }) => score < 1);
+		console.log(`${result.passed ? '✓' : '✗'} ${result.id}`);
+		for (const { scorerId, reason } of failed) {
+			console.log(`    ${scorerId}: ${reason}`);
+		}
+		if (result.output.error) console.log(`    error: ${result.output.error}`);
+	},
+});
+
+const comparison = baseline ? compareRuns(run, baseline) : null;
+const files = await writeReport(values.out, { ...run, comparison });
+
+console.log('');
+for (const summary of run.summary) {
+	const delta = comparison?.scorers.find((s) => s.scorerId === summary.scorerId)?.delta;
+	const change =
+		delta === null || delta === undefined
+			? ''
+			: ` (${delta >= 0 ? '+' : ''}${Math.round(delta * 100)} pts)`;
+	console.log(
+		`${summary.name.padEnd(22)} ${Math.round(summary.mean * 100)}% ${summary.passed}/${summary.total}${change}`
+	);
+}
+for (const change of comparison?.regressions ?? []) {
+	console.log(
+		`Regression: ${change.caseId} ${change.scorerId} ${change.baselineScore} → ${change.score}`
+	);
+}
+console.log(`\nReport: ${files.html}\n        ${files.json}`);
+
+await mastra.shutdown();
+process.exit(comparison?.regressions.length ? 1 : 0);
@@ -0,0 +1,90 @@
+/**
+ * Eval datasets: prompts sent to the routing agent network, with the primitives and tool calls
+ * it is expected to pick and rubric checks on the final answer.
+ *
+ * Datasets are JSON files (see `datasets/routing.json`). Expectations a case leaves out are not
+ * scored for it, so a case can check routing only, the answer only, or both.
+ */
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+export const expectedToolCallSchema = z.object({
+	toolName: z.string(),
+	/** Arguments the call must include; strings match when the actual value contains them, ignoring case and accents */
+	args: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const evalCaseSchema = z.object({
+	id: z.string().regex(/^[a-z0-9-]+$/, 'Case ids are lowercase words separated by dashes'),
+	prompt: z.string().min(1),
+	/** Run with web search enabled, as when the user turns it on in the chat */
+	webSearch: z.boolean().default(false),
+	expected: z
+		.object({
+			/** Agents, workflows and tools the routing agent should select, in any order; [] to answer directly */
+			primitives: z.array(z.string()).optional(),
+			/** Tool calls the network should make, by the routing agent or a sub-agent */
+			toolCalls: z.array(expectedToolCallSchema).optional(),
+		})
+		.default({}),
+	rubric: z
+		.object({
+			/** Words the answer must mention, e.g. the requested city */
+			mentions: z.array(z.string()).optional(),
+			/** Inline citation markers like [1] are allowed in the answer */
+			allowCitations: z.boolean().default(false),
+		})
+		.default({ allowCitations: false }),
+});
+
+export const evalDatasetSchema = z.object({
+	name: z.string(),
+	description: z.string().optional(),
+	cases: z.array(evalCaseSchema).min(1),
+});
+
+export type ExpectedToolCall = z.infer<typeof expectedToolCallSchema>;
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type EvalDataset = z.infer<typeof evalDatasetSchema>;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * A dataset file is not valid JSON or does not match the dataset schema
+ */
+export class InvalidDatasetError extends Error {
+	constructor(
+		public readonly path: string,
+		message: string
+	) {
+		super(`Invalid eval dataset ${path}: ${message}`);
+		this.name = 'InvalidDatasetError';
+	}
+}
+
+export async function loadDataset(path: string): Promise<EvalDataset> {
+	let json: unknown;
+	try {
+		json = JSON.parse(await readFile(path, 'utf8'));
+	} catch (error) {
+		throw new InvalidDatasetError(path, error instanceof Error ? error.message : String(error));
+	}
+
+	const parsed = evalDatasetSchema.safeParse(json);
+	if (!parsed.success) {
+		throw new InvalidDatasetError(path, z.prettifyError(parsed.error));
+	}
+
+	const ids = parsed.data.cases.map((evalCase) => evalCase.id);
+	const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+	if (duplicate) {
+		throw new InvalidDatasetError(path, `case id "${duplicate}" is used more than once`);
+	}
+	return parsed.data;
+}
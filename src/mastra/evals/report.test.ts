@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { compareRuns } from './report';
+import type { EvalCaseResult, EvalRun } from './runner';
+
+function caseResult(id: string, scores: Record<string, number>): EvalCaseResult {
+	return {
+		id,
+		prompt: id,
+		output: { primitives: [], toolCalls: [], answer: '', durationMs: 0 },
+		scores: Object.entries(scores).map(([scorerId, score]) => ({ scorerId, score, reason: '' })),
+		passed: Object.values(scores).every((score) => score === 1),
+	};
+}
+
+function evalRun(id: string, cases: EvalCaseResult[]): EvalRun {
+	const scorerIds = [...new Set(cases.flatMap((result) => result.scores.map((s) => s.scorerId)))];
+	return {
+		id,
+		dataset: 'routing',
+		source: 'replay',
+		modelId: null,
+		startedAt: '2026-10-19T00:00:00.000Z',
+		finishedAt: '2026-10-19T00:01:00.000Z',
+		cases,
+		summary: scorerIds.map((scorerId) => {
+			const scores = cases.flatMap((result) =>
+				result.scores.filter((s) => s.scorerId === scorerId).map((s) => s.score)
+			);
+			return {
+				scorerId,
+				name: scorerId,
+				mean: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+				passed: scores.filter((score) => score === 1).length,
+				total: scores.length,
+			};
+		}),
+	};
+}
+
+describe('compareRuns', () => {
+	it('lists the case scores that went down and up', () => {
+		const baseline = evalRun('before', [
+			caseResult('weather', { 'tool-calls': 1, 'agent-selection': 1 }),
+			caseResult('greeting', { 'agent-selection': 0.5 }),
+		]);
+		const run = evalRun('after', [
+			caseResult('weather', { 'tool-calls': 0.5, 'agent-selection': 1 }),
+			caseResult('greeting', { 'agent-selection': 1 }),
+		]);
+
+		const comparison = compareRuns(run, baseline);
+
+		expect(comparison.baselineId).toBe('before');
+		expect(comparison.regressions).toEqual([
+			{ caseId: 'weather', scorerId: 'tool-calls', score: 0.5, baselineScore: 1 },
+		]);
+		expect(comparison.improvements).toEqual([
+			{ caseId: 'greeting', scorerId: 'agent-selection', score: 1, baselineScore: 0.5 },
+		]);
+	});
+
+	it('averages the baseline over the cases of this run only', () => {
+		const baseline = evalRun('before', [
+			caseResult('weather', { 'tool-calls': 1 }),
+			caseResult('forecast', { 'tool-calls': 0 }),
+		]);
+		const run = evalRun('after', [caseResult('weather', { 'tool-calls': 0.5 })]);
+
+		expect(compareRuns(run, baseline).scorers).toEqual([
+			{ scorerId: 'tool-calls', name: 'tool-calls', mean: 0.5, baselineMean: 1, delta: -0.5 },
+		]);
+	});
+
+	it('has no baseline average or changes for scorers and cases the baseline did not score', () => {
+		const baseline = evalRun('before', [caseResult('weather', { 'tool-calls': 1 })]);
+		const run = evalRun('after', [
+			caseResult('weather', { 'tool-calls': 1, 'no-citations': 0 }),
+			caseResult('greeting', { 'tool-calls': 0 }),
+		]);
+
+		const comparison = compareRuns(run, baseline);
+
+		expect(comparison.scorers.find((s) => s.scorerId === 'no-citations')).toMatchObject({
+			baselineMean: null,
+			delta: null,
+		});
+		expect(comparison.regressions).toEqual([]);
+		expect(comparison.improvements).toEqual([]);
+	});
+});
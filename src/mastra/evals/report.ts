@@ -0,0 +1,245 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { EvalCaseResult, EvalRun } from './runner';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScorerComparison {
+	scorerId: string;
+	name: string;
+	mean: number;
+	baselineMean: number | null;
+	delta: number | null;
+}
+
+export interface CaseScoreChange {
+	caseId: string;
+	scorerId: string;
+	score: number;
+	baselineScore: number;
+}
+
+/**
+ * A run against an earlier run of the same dataset
+ */
+export interface RunComparison {
+	baselineId: string;
+	scorers: ScorerComparison[];
+	/** Case scores that went down */
+	regressions: CaseScoreChange[];
+	/** Case scores that went up */
+	improvements: CaseScoreChange[];
+}
+
+export interface EvalReport extends EvalRun {
+	comparison: RunComparison | null;
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Scores of `run` against `baseline`. Scorer averages of the baseline are taken over the cases
+ * this run has, so running a few cases is not compared with the whole dataset.
+ */
+export function compareRuns(run: EvalRun, baseline: EvalRun): RunComparison {
+	const caseIds = new Set(run.cases.map((result) => result.id));
+	const baselineCases = baseline.cases.filter((result) => caseIds.has(result.id));
+
+	const scorers = run.summary.map((summary) => {
+		const scores = baselineCases.flatMap((result) =>
+			result.scores.filter((score) => score.scorerId === summary.scorerId)
+		);
+		const baselineMean =
+			scores.length > 0 ? scores.reduce((sum, { score }) => sum + score, 0) / scores.length : null;
+		return {
+			scorerId: summary.scorerId,
+			name: summary.name,
+			mean: summary.mean,
+			baselineMean,
+			delta: baselineMean === null ? null : summary.mean - baselineMean,
+		};
+	});
+
+	const changes: CaseScoreChange[] = [];
+	for (const result of run.cases) {
+		const previous = baselineCases.find((baselineCase) => baselineCase.id === result.id);
+		for (const { scorerId, score } of result.scores) {
+			const baselineScore = previous?.scores.find((s) => s.scorerId === scorerId)?.score;
+			if (baselineScore !== undefined && baselineScore !== score) {
+				changes.push({ caseId: result.id, scorerId, score, baselineScore });
+			}
+		}
+	}
+
+	return {
+		baselineId: baseline.id,
+		scorers,
+		regressions: changes.filter((change) => change.score < change.baselineScore),
+		improvements: changes.filter((change) => change.score > change.baselineScore),
+	};
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Latest report of the dataset saved in `dir`, or null on the first run
+ */
+export async function findLatestReport(dir: string, dataset: string): Promise<EvalReport | null> {
+	const files = await readdir(dir).catch(() => [] as string[]);
+	// Report ids end with their start time, so names sort by date
+	const latest = files
+		.filter((file) => file.startsWith(`${dataset}-`) && file.endsWith('.json'))
+		.sort()
+		.at(-1);
+	return latest ? readReport(join(dir, latest)) : null;
+}
+
+export async function readReport(path: string): Promise<EvalReport> {
+	return JSON.parse(await readFile(path, 'utf8'));
+}
+
+/**
+ * Save the report as `<id>.json` and `<id>.html` in `dir`
+ */
+export async function writeReport(
+	dir: string,
+	report: EvalReport
+): Promise<{ json: string; html: string }> {
+	await mkdir(dir, { recursive: true });
+	const json = join(dir, `${report.id}.json`);
+	const html = join(dir, `${report.id}.html`);
+	await writeFile(json, JSON.stringify(report, null, 2));
+	await writeFile(html, renderHtmlReport(report));
+	return { json, html };
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+function percent(value: number): string {
+	return `${Math.round(value * 100)}%`;
+}
+
+function formatDelta(delta: number | null): string {
+	if (delta === null) return '<td class="muted">new</td>';
+	if (Math.abs(delta) < 0.005) return '<td class="muted">±0</td>';
+	const className = delta > 0 ? 'up' : 'down';
+	return `<td class="${className}">${delta > 0 ? '+' : '−'}${percent(Math.abs(delta))}</td>`;
+}
+
+function renderCase(result: EvalCaseResult, comparison: RunComparison | null): string {
+	const regressed = new Set(
+		comparison?.regressions
+			.filter((change) => change.caseId === result.id)
+			.map((change) => change.scorerId)
+	);
+	const scores = result.scores
+		.map(
+			({ scorerId, score, reason }) =>
+				`<li class="${score === 1 ? 'pass' : 'fail'}${regressed.has(scorerId) ? ' regressed' : ''}">
+	<strong>${escapeHtml(scorerId)}</strong> ${percent(score)} · ${escapeHtml(reason)}
+</li>`
+		)
+		.join('\n');
+	const { output } = result;
+
+	return `<details${result.passed ? '' : ' open'}>
+<summary class="${result.passed ? 'pass' : 'fail'}">${escapeHtml(result.id)} <span class="muted">${escapeHtml(result.prompt)}</span></summary>
+<ul>${scores}</ul>
+<dl>
+	<dt>Selected</dt><dd>${escapeHtml(output.primitives.join(', ') || 'nothing')}</dd>
+	<dt>Tool calls</dt><dd><code>${escapeHtml(output.toolCalls.map((call) => `${call.toolName} ${JSON.stringify(call.args)}`).join('\n') || 'none')}</code></dd>
+	<dt>Duration</dt><dd>${(output.durationMs / 1000).toFixed(1)} s</dd>
+	${output.error ? `<dt>Error</dt><dd class="fail">${escapeHtml(output.error)}</dd>` : ''}
+</dl>
+<pre>${escapeHtml(output.answer)}</pre>
+</details>`;
+}
+
+/**
+ * Self-contained HTML page: scorer averages (against the baseline when there is one),
+ * regressions, and every case with its scores, selections, tool calls and answer
+ */
+export function renderHtmlReport(report: EvalReport): string {
+	const { comparison } = report;
+	const passed = report.cases.filter((result) => result.passed).length;
+
+	const scorerRows = report.summary
+		.map((summary) => {
+			const compared = comparison?.scorers.find((scorer) => scorer.scorerId === summary.scorerId);
+			return `<tr>
+	<td>${escapeHtml(summary.name)}</td>
+	<td>${percent(summary.mean)}</td>
+	<td>${summary.passed}/${summary.total}</td>
+	${comparison ? formatDelta(compared?.delta ?? null) : ''}
+</tr>`;
+		})
+		.join('\n');
+
+	const changeList = (title: string, className: string, changes: CaseScoreChange[] = []) =>
+		changes.length > 0
+			? `<h2>${title}</h2>
+<ul>${changes
+					.map(
+						(change) =>
+							`<li class="${className}">${escapeHtml(change.caseId)} · ${escapeHtml(change.scorerId)}: ${percent(change.baselineScore)} → ${percent(change.score)}</li>`
+					)
+					.join('\n')}</ul>`
+			: '';
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Evals · ${escapeHtml(report.id)}</title>
+<style>
+	body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #18181b; }
+	table { border-collapse: collapse; margin: 1rem 0; }
+	th, td { border-bottom: 1px solid #e4e4e7; padding: 0.25rem 1rem 0.25rem 0; text-align: left; }
+	details { border: 1px solid #e4e4e7; border-radius: 0.5rem; margin: 0.5rem 0; padding: 0.5rem 1rem; }
+	summary { cursor: pointer; font-weight: 600; }
+	pre { background: #f4f4f5; border-radius: 0.375rem; padding: 0.75rem; white-space: pre-wrap; }
+	dt { float: left; clear: left; width: 6rem; color: #71717a; }
+	code { white-space: pre-wrap; }
+	.muted { color: #71717a; font-weight: 400; }
+	.pass::marker, .pass { color: #15803d; }
+	.fail::marker, .fail { color: #b91c1c; }
+	.regressed { font-weight: 600; }
+	.up { color: #15803d; }
+	.down { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.dataset)} evals</h1>
+<p class="muted">
+	${escapeHtml(report.startedAt)} · ${report.source} models${report.modelId ? ` · ${escapeHtml(report.modelId)}` : ''}
+	· ${passed}/${report.cases.length} cases passed
+	${comparison ? `· compared with ${escapeHtml(comparison.baselineId)}` : ''}
+</p>
+<table>
+<thead><tr><th>Scorer</th><th>Mean</th><th>Passed</th>${comparison ? '<th>Change</th>' : ''}</tr></thead>
+<tbody>${scorerRows}</tbody>
+</table>
+${changeList('Regressions', 'fail', comparison?.regressions)}
+${changeList('Improvements', 'pass', comparison?.improvements)}
+<h2>Cases</h2>
+${report.cases.map((result) => renderCase(result, comparison)).join('\n')}
+</body>
+</html>
+`;
+}
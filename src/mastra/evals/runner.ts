@@ -0,0 +1,265 @@
+import { randomUUID } from 'node:crypto';
+import type { Mastra } from '@mastra/core/mastra';
+import { RequestContext } from '@mastra/core/request-context';
+import type { ChunkType, MastraAgentNetworkStream } from '@mastra/core/stream';
+import { MODEL_ID_KEY, type ModelId } from '../models';
+import { isMockModelEnabled } from '../utils/mock-model';
+import { getRecordingMode } from '../utils/recording';
+import type { EvalCase, EvalDataset } from './dataset';
+import { evalScorers } from './scorers';
+
+const ROUTING_AGENT_ID = 'routing-agent';
+
+/** Approvals answered per case before giving up, in case a run keeps asking */
+const MAX_APPROVALS = 5;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EvalToolCall {
+	toolName: string;
+	args: Record<string, unknown>;
+}
+
+/**
+ * What the network did for one case
+ */
+export interface EvalRunOutput {
+	/** Agents, workflows and tools the routing agent selected, in order */
+	primitives: string[];
+	/** Tools called by the routing agent and its sub-agents, in order */
+	toolCalls: EvalToolCall[];
+	/** Final answer of the network */
+	answer: string;
+	durationMs: number;
+	error?: string;
+}
+
+export interface EvalScore {
+	scorerId: string;
+	score: number;
+	reason: string;
+}
+
+export interface EvalCaseResult {
+	id: string;
+	prompt: string;
+	output: EvalRunOutput;
+	scores: EvalScore[];
+	/** Every scorer gave the full score */
+	passed: boolean;
+}
+
+/** Where model answers came from: the offline mock, recorded calls or the real providers */
+export type EvalModelSource = 'mock' | 'replay' | 'live';
+
+export interface ScorerSummary {
+	scorerId: string;
+	name: string;
+	/** Average score over the cases the scorer applies to */
+	mean: number;
+	passed: number;
+	total: number;
+}
+
+export interface EvalRunOptions {
+	/** Model for every agent instead of each agent's default */
+	modelId?: ModelId;
+	/** Only run these cases */
+	caseIds?: string[];
+	onCaseComplete?: (result: EvalCaseResult) => void;
+}
+
+export interface EvalRun {
+	id: string;
+	dataset: string;
+	source: EvalModelSource;
+	modelId: ModelId | null;
+	startedAt: string;
+	finishedAt: string;
+	cases: EvalCaseResult[];
+	summary: ScorerSummary[];
+}
+
+// ============================================================================
+// Network run
+// ============================================================================
+
+function parseArgs(json: string): Record<string, unknown> {
+	try {
+		const args = JSON.parse(json);
+		return args && typeof args === 'object' ? args : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Reads a network stream into `output`. Tools the routing agent runs itself carry their input
+ * in the routing decision, which a resumed run does not repeat, so it is kept in `toolInputs`.
+ * Returns whether the run stopped on a tool approval.
+ */
+async function collectNetworkStream(
+	stream: MastraAgentNetworkStream,
+	output: EvalRunOutput,
+	toolInputs: Map<string, Record<string, unknown>>
+): Promise<boolean> {
+	let awaitingApproval = false;
+
+	for await (const chunk of stream as AsyncIterable<ChunkType>) {
+		switch (chunk.type) {
+			case 'routing-agent-end':
+				if (chunk.payload.primitiveId !== 'none') {
+					output.primitives.push(chunk.payload.primitiveId);
+				}
+				if (chunk.payload.primitiveType === 'tool') {
+					toolInputs.set(chunk.payload.primitiveId, parseArgs(chunk.payload.prompt));
+				}
+				break;
+			case 'tool-execution-end':
+				// By the name the routing agent knows the tool by, like sub-agent tool calls
+				output.toolCalls.push({
+					toolName: chunk.payload.primitiveId,
+					args: toolInputs.get(chunk.payload.primitiveId) ?? {},
+				});
+				break;
+			case 'tool-execution-approval':
+				awaitingApproval = true;
+				break;
+			case 'network-execution-event-finish':
+				output.answer = chunk.payload.result;
+				break;
+			default:
+				// Sub-agent tool calls are nested agent chunks
+				if (chunk.type === 'agent-execution-event-tool-call') {
+					const call = (chunk.payload as { payload?: EvalToolCall }).payload;
+					if (call) output.toolCalls.push({ toolName: call.toolName, args: call.args ?? {} });
+				}
+		}
+	}
+	return awaitingApproval;
+}
+
+/**
+ * Run one case through the routing agent network on a thread of its own, approving any tool
+ * approval the way a user who asked for it would. The thread is deleted afterwards.
+ */
+export async function runEvalCase(
+	mastra: Mastra,
+	evalCase: EvalCase,
+	options: Pick<EvalRunOptions, 'modelId'> = {}
+): Promise<EvalRunOutput> {
+	const agent = mastra.getAgentById(ROUTING_AGENT_ID);
+	const requestContext = new RequestContext();
+	requestContext.set('webSearchEnabled', evalCase.webSearch);
+	if (options.modelId) requestContext.set(MODEL_ID_KEY, options.modelId);
+
+	// A resource per case, so working memory and semantic recall don't leak between cases
+	const memory = { thread: randomUUID(), resource: `eval-${randomUUID()}` };
+	const runId = randomUUID();
+	const output: EvalRunOutput = { primitives: [], toolCalls: [], answer: '', durationMs: 0 };
+	const toolInputs = new Map<string, Record<string, unknown>>();
+	const startedAt = Date.now();
+
+	try {
+		let awaitingApproval = await collectNetworkStream(
+			await agent.network(evalCase.prompt, { runId, memory, requestContext }),
+			output,
+			toolInputs
+		);
+		for (let approvals = 0; awaitingApproval && approvals < MAX_APPROVALS; approvals++) {
+			awaitingApproval = await collectNetworkStream(
+				await agent.approveNetworkToolCall({ runId, memory, requestContext }),
+				output,
+				toolInputs
+			);
+		}
+	} catch (error) {
+		output.error = error instanceof Error ? error.message : String(error);
+	} finally {
+		output.durationMs = Date.now() - startedAt;
+		const agentMemory = await agent.getMemory({ requestContext });
+		await agentMemory?.deleteThread(memory.thread).catch(() => {});
+	}
+	return output;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+export async function scoreEvalCase(
+	evalCase: EvalCase,
+	output: EvalRunOutput,
+	source: EvalModelSource = getModelSource()
+): Promise<EvalCaseResult> {
+	const scores: EvalScore[] = [];
+	for (const { scorer, appliesTo } of evalScorers) {
+		if (!appliesTo(evalCase, source)) continue;
+		const result = await scorer.run({ input: evalCase, output });
+		scores.push({ scorerId: scorer.id, score: result.score, reason: String(result.reason ?? '') });
+	}
+
+	return {
+		id: evalCase.id,
+		prompt: evalCase.prompt,
+		output,
+		scores,
+		passed: !output.error && scores.every(({ score }) => score === 1),
+	};
+}
+
+function summarize(cases: EvalCaseResult[]): ScorerSummary[] {
+	return evalScorers.flatMap(({ scorer }) => {
+		const scores = cases.flatMap((result) =>
+			result.scores.filter((score) => score.scorerId === scorer.id)
+		);
+		if (scores.length === 0) return [];
+		return {
+			scorerId: scorer.id,
+			name: scorer.name,
+			mean: scores.reduce((sum, { score }) => sum + score, 0) / scores.length,
+			passed: scores.filter(({ score }) => score === 1).length,
+			total: scores.length,
+		};
+	});
+}
+
+export function getModelSource(): EvalModelSource {
+	if (isMockModelEnabled()) return 'mock';
+	return getRecordingMode() === 'replay' ? 'replay' : 'live';
+}
+
+/**
+ * Run and score the cases of a dataset one after another
+ */
+export async function runEvalDataset(
+	mastra: Mastra,
+	dataset: EvalDataset,
+	options: EvalRunOptions = {}
+): Promise<EvalRun> {
+	const startedAt = new Date();
+	const cases = options.caseIds
+		? dataset.cases.filter((evalCase) => options.caseIds?.includes(evalCase.id))
+		: dataset.cases;
+
+	const results: EvalCaseResult[] = [];
+	for (const evalCase of cases) {
+		const output = await runEvalCase(mastra, evalCase, options);
+		const result = await scoreEvalCase(evalCase, output);
+		results.push(result);
+		options.onCaseComplete?.(result);
+	}
+
+	return {
+		id: `${dataset.name}-${startedAt.toISOString().replace(/[:.]/g, '-')}`,
+		dataset: dataset.name,
+		source: getModelSource(),
+		modelId: options.modelId ?? null,
+		startedAt: startedAt.toISOString(),
+		finishedAt: new Date().toISOString(),
+		cases: results,
+		summary: summarize(results),
+	};
+}
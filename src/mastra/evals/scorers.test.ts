@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { type EvalCase, evalCaseSchema } from './dataset';
+import type { EvalModelSource, EvalRunOutput } from './runner';
+import {
+	agentSelectionScorer,
+	answerMentionsScorer,
+	evalScorers,
+	noCitationsScorer,
+	toolCallScorer,
+} from './scorers';
+
+function evalCase(fields: { expected?: unknown; rubric?: unknown }): EvalCase {
+	return evalCaseSchema.parse({ id: 'case', prompt: 'Prompt', ...fields });
+}
+
+function output(fields: Partial<EvalRunOutput>): EvalRunOutput {
+	return { primitives: [], toolCalls: [], answer: '', durationMs: 0, ...fields };
+}
+
+describe('agentSelectionScorer', () => {
+	const input = evalCase({ expected: { primitives: ['weather-agent', 'activities-agent'] } });
+
+	it('gives the full score for the expected selection, in any order', async () => {
+		const result = await agentSelectionScorer.run({
+			input,
+			output: output({ primitives: ['activities-agent', 'weather-agent'] }),
+		});
+
+		expect(result.score).toBe(1);
+	});
+
+	it('lowers the score for missing and extra picks alike', async () => {
+		const missing = await agentSelectionScorer.run({
+			input,
+			output: output({ primitives: ['weather-agent'] }),
+		});
+		const extra = await agentSelectionScorer.run({
+			input,
+			output: output({ primitives: ['weather-agent', 'activities-agent', 'destinations-agent'] }),
+		});
+
+		expect(missing.score).toBe(1 / 2);
+		expect(extra.score).toBe(2 / 3);
+		expect(missing.reason).toBe('Selected weather-agent, expected weather-agent, activities-agent');
+	});
+
+	it('scores a partial overlap as intersection over union', async () => {
+		const result = await agentSelectionScorer.run({
+			input,
+			output: output({ primitives: ['weather-agent', 'destinations-agent'] }),
+		});
+
+		expect(result.score).toBe(1 / 3);
+	});
+
+	it('gives the full score for answering directly when nothing is expected', async () => {
+		const result = await agentSelectionScorer.run({
+			input: evalCase({ expected: { primitives: [] } }),
+			output: output({}),
+		});
+
+		expect(result).toMatchObject({ score: 1, reason: 'Answered directly' });
+	});
+});
+
+describe('toolCallScorer', () => {
+	const input = evalCase({
+		expected: {
+			toolCalls: [
+				{ toolName: 'weather-tool', args: { location: 'Bogota' } },
+				{ toolName: 'forecast-tool', args: { location: 'Bogota', days: 3 } },
+			],
+		},
+	});
+
+	it('matches string arguments ignoring case and accents, and within longer values', async () => {
+		const result = await toolCallScorer.run({
+			input,
+			output: output({
+				toolCalls: [
+					{ toolName: 'weather-tool', args: { location: 'Bogotá, Colombia' } },
+					{ toolName: 'forecast-tool', args: { location: 'BOGOTA', days: 3 } },
+				],
+			}),
+		});
+
+		expect(result).toMatchObject({ score: 1, reason: 'All expected tool calls were made' });
+	});
+
+	it('counts calls with other non-string arguments as missing', async () => {
+		const result = await toolCallScorer.run({
+			input,
+			output: output({
+				toolCalls: [
+					{ toolName: 'weather-tool', args: { location: 'Bogota' } },
+					{ toolName: 'forecast-tool', args: { location: 'Bogota', days: '3' } },
+				],
+			}),
+		});
+
+		expect(result.score).toBe(1 / 2);
+		expect(result.reason).toBe('missing forecast-tool {"location":"Bogota","days":3}');
+	});
+
+	it('counts calls to tools the case does not expect against the score', async () => {
+		const result = await toolCallScorer.run({
+			input,
+			output: output({
+				toolCalls: [
+					{ toolName: 'weather-tool', args: { location: 'Bogota' } },
+					{ toolName: 'forecast-tool', args: { location: 'Bogota', days: 3 } },
+					{ toolName: 'web-search-tool', args: { query: 'Bogota' } },
+				],
+			}),
+		});
+
+		expect(result.score).toBe(2 / 3);
+		expect(result.reason).toBe('unexpected web-search-tool {"query":"Bogota"}');
+	});
+
+	it('does not count repeated calls to an expected tool against the score', async () => {
+		const result = await toolCallScorer.run({
+			input,
+			output: output({
+				toolCalls: [
+					{ toolName: 'weather-tool', args: { location: 'Lima' } },
+					{ toolName: 'weather-tool', args: { location: 'Bogota' } },
+					{ toolName: 'forecast-tool', args: { location: 'Bogota', days: 3 } },
+				],
+			}),
+		});
+
+		expect(result.score).toBe(1);
+	});
+});
+
+describe('answerMentionsScorer', () => {
+	it('scores the share of the rubric mentions found in the answer', async () => {
+		const result = await answerMentionsScorer.run({
+			input: evalCase({ rubric: { mentions: ['Bogotá', 'umbrella'] } }),
+			output: output({ answer: 'It will rain in bogota tomorrow.' }),
+		});
+
+		expect(result).toMatchObject({ score: 1 / 2, reason: 'Answer does not mention umbrella' });
+	});
+});
+
+describe('noCitationsScorer', () => {
+	it('fails answers with inline citation markers', async () => {
+		const result = await noCitationsScorer.run({
+			input: evalCase({}),
+			output: output({ answer: 'Lisbon hosts a jazz festival [1][12], see [1].' }),
+		});
+
+		expect(result).toMatchObject({ score: 0, reason: 'Answer cites [1], [12]' });
+	});
+
+	it('passes answers without them', async () => {
+		const result = await noCitationsScorer.run({
+			input: evalCase({}),
+			output: output({ answer: 'Lisbon hosts a jazz festival (visitlisboa.com).' }),
+		});
+
+		expect(result.score).toBe(1);
+	});
+});
+
+describe('evalScorers', () => {
+	function applied(input: EvalCase, source: EvalModelSource): string[] {
+		return evalScorers
+			.filter(({ appliesTo }) => appliesTo(input, source))
+			.map(({ scorer }) => scorer.id);
+	}
+
+	it('only runs the scorers whose expectations the case sets', () => {
+		expect(applied(evalCase({ expected: { primitives: [] } }), 'live')).toEqual([
+			'agent-selection',
+			'no-citations',
+		]);
+		expect(applied(evalCase({ rubric: { allowCitations: true } }), 'live')).toEqual([]);
+	});
+
+	it('does not judge citations in mock answers', () => {
+		const input = evalCase({ rubric: { mentions: ['Lisbon'] } });
+
+		expect(applied(input, 'mock')).toEqual(['answer-mentions']);
+		expect(applied(input, 'replay')).toEqual(['answer-mentions', 'no-citations']);
+	});
+});
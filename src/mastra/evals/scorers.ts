@@ -0,0 +1,175 @@
+import { createScorer } from '@mastra/core/evals';
+import type { EvalCase, ExpectedToolCall } from './dataset';
+import type { EvalModelSource, EvalRunOutput, EvalToolCall } from './runner';
+
+/** Inline citation markers, e.g. `[1]` or `[12]` */
+const CITATION_PATTERN = /\[\d+\]/g;
+
+/** Lowercase without accents, so "Bogotá" matches "bogota" */
+function normalize(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/\p{Diacritic}/gu, '')
+		.toLowerCase()
+		.trim();
+}
+
+function list(values: string[]): string {
+	return values.length > 0 ? values.join(', ') : 'nothing';
+}
+
+function argsMatch(expected: ExpectedToolCall['args'], actual: EvalToolCall['args']): boolean {
+	return Object.entries(expected ?? {}).every(([key, value]) => {
+		const actualValue = actual[key];
+		if (typeof value === 'string' && typeof actualValue === 'string') {
+			return normalize(actualValue).includes(normalize(value));
+		}
+		return JSON.stringify(actualValue) === JSON.stringify(value);
+	});
+}
+
+// ============================================================================
+// Scorers
+// ============================================================================
+
+/**
+ * Agent selection accuracy: overlap between the primitives the routing agent picked and the
+ * expected ones (intersection over union), so both a missing and an extra pick lower the score
+ */
+export const agentSelectionScorer = createScorer<EvalCase, EvalRunOutput>({
+	id: 'agent-selection',
+	name: 'Agent selection',
+	description: 'Routing agent picks the expected agents, workflows and tools',
+})
+	.generateScore(({ run }) => {
+		const expected = new Set(run.input?.expected.primitives ?? []);
+		const selected = new Set(run.output.primitives);
+		const union = new Set([...expected, ...selected]);
+		if (union.size === 0) return 1;
+		return [...expected].filter((primitive) => selected.has(primitive)).length / union.size;
+	})
+	.generateReason(({ run, score }) => {
+		const expected = run.input?.expected.primitives ?? [];
+		if (score === 1) {
+			return expected.length > 0 ? `Selected ${list(expected)}` : 'Answered directly';
+		}
+		return `Selected ${list(run.output.primitives)}, expected ${list(expected)}`;
+	});
+
+/**
+ * Tool call correctness: expected calls made with the expected arguments, over the expected
+ * calls plus calls to tools the case does not expect
+ */
+export const toolCallScorer = createScorer<EvalCase, EvalRunOutput>({
+	id: 'tool-calls',
+	name: 'Tool calls',
+	description: 'Network calls the expected tools with the expected arguments',
+})
+	.preprocess(({ run }) => {
+		const expected = run.input?.expected.toolCalls ?? [];
+		const remaining = [...run.output.toolCalls];
+		const missing: ExpectedToolCall[] = [];
+
+		for (const call of expected) {
+			const index = remaining.findIndex(
+				(actual) => actual.toolName === call.toolName && argsMatch(call.args, actual.args)
+			);
+			if (index === -1) missing.push(call);
+			else remaining.splice(index, 1);
+		}
+
+		const expectedNames = new Set(expected.map((call) => call.toolName));
+		const unexpected = remaining.filter((call) => !expectedNames.has(call.toolName));
+		return { expected: expected.length, missing, unexpected };
+	})
+	.generateScore(({ results }) => {
+		const { expected, missing, unexpected } = results.preprocessStepResult;
+		const total = expected + unexpected.length;
+		return total === 0 ? 1 : (expected - missing.length) / total;
+	})
+	.generateReason(({ results }) => {
+		const { missing, unexpected } = results.preprocessStepResult;
+		const problems = [
+			...missing.map(
+				(call) => `missing ${call.toolName}${call.args ? ` ${JSON.stringify(call.args)}` : ''}`
+			),
+			...unexpected.map((call) => `unexpected ${call.toolName} ${JSON.stringify(call.args)}`),
+		];
+		return problems.length > 0 ? problems.join('; ') : 'All expected tool calls were made';
+	});
+
+/**
+ * Answer mentions: share of the rubric's words (e.g. the requested city) found in the answer
+ */
+export const answerMentionsScorer = createScorer<EvalCase, EvalRunOutput>({
+	id: 'answer-mentions',
+	name: 'Answer mentions',
+	description: 'Final answer mentions what the user asked about',
+})
+	.preprocess(({ run }) => {
+		const answer = normalize(run.output.answer);
+		const mentions = run.input?.rubric.mentions ?? [];
+		return { mentions, missing: mentions.filter((word) => !answer.includes(normalize(word))) };
+	})
+	.generateScore(({ results }) => {
+		const { mentions, missing } = results.preprocessStepResult;
+		return mentions.length === 0 ? 1 : (mentions.length - missing.length) / mentions.length;
+	})
+	.generateReason(({ results }) => {
+		const { missing } = results.preprocessStepResult;
+		return missing.length > 0 ? `Answer does not mention ${list(missing)}` : 'Mentions all';
+	});
+
+/**
+ * No leaked citations: web search results are cited with [1], [2]... markers the routing
+ * agent is told to rewrite, since the chat shows sources separately
+ */
+export const noCitationsScorer = createScorer<EvalCase, EvalRunOutput>({
+	id: 'no-citations',
+	name: 'No leaked citations',
+	description: 'Final answer has no inline [n] citation markers',
+})
+	.preprocess(({ run }) => ({ markers: run.output.answer.match(CITATION_PATTERN) ?? [] }))
+	.generateScore(({ results }) => (results.preprocessStepResult.markers.length === 0 ? 1 : 0))
+	.generateReason(({ results }) => {
+		const { markers } = results.preprocessStepResult;
+		return markers.length > 0 ? `Answer cites ${list([...new Set(markers)])}` : 'No citations';
+	});
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export type EvalScorer =
+	| typeof agentSelectionScorer
+	| typeof toolCallScorer
+	| typeof answerMentionsScorer
+	| typeof noCitationsScorer;
+
+/**
+ * Scorers run on every case, each only where the case sets what it checks and where the
+ * models the answers come from can be judged by it
+ */
+export const evalScorers: Array<{
+	scorer: EvalScorer;
+	appliesTo: (evalCase: EvalCase, source: EvalModelSource) => boolean;
+}> = [
+	{
+		scorer: agentSelectionScorer,
+		appliesTo: (evalCase) => evalCase.expected.primitives !== undefined,
+	},
+	{
+		scorer: toolCallScorer,
+		appliesTo: (evalCase) => evalCase.expected.toolCalls !== undefined,
+	},
+	{
+		scorer: answerMentionsScorer,
+		appliesTo: (evalCase) => (evalCase.rubric.mentions?.length ?? 0) > 0,
+	},
+	{
+		scorer: noCitationsScorer,
+		// The mock model never rewrites search results, so its answers say nothing about whether
+		// the routing agent drops the citations
+		appliesTo: (evalCase, source) => source !== 'mock' && !evalCase.rubric.allowCitations,
+	},
+];
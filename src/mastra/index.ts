@@ -1,10 +1,21 @@
-import { networkRoute } from '@mastra/ai-sdk';
 import { Mastra } from '@mastra/core/mastra';
 import { LibSQLStore } from '@mastra/libsql';
 import { PinoLogger } from '@mastra/loggers';
+import { DefaultExporter, Observability, SensitiveDataFilter } from '@mastra/observability';
 import { destinationsAgent } from './agents/destinations-agent';
 import { routingAgent } from './agents/routing-agent';
 import { weatherAgent } from './agents/weather-agent';
+import { threadOwnership } from './auth/ownership';
+import { authRoutes } from './auth/routes';
+import { SessionAuth } from './auth/session-auth';
+import { DATABASE_URL } from './db/client';
+import { isAllowedModelId, MODEL_ID_KEY } from './models';
+import { chatApprovalRoute, chatRoute } from './routes/chat';
+import { modelsRoute } from './routes/models';
+import { profileRoutes } from './routes/profile';
+import { traceRoutes } from './routes/traces';
+import { usageRoute } from './routes/usage';
+import { itineraryWorkflow } from './workflows/itinerary-workflow';
 import { weatherWorkflow } from './workflows/weather-workflow';
 
 export const mastra = new Mastra({
@@ -15,32 +26,54 @@ export const mastra = new Mastra({
 	},
 	workflows: {
 		weatherWorkflow,
+		itineraryWorkflow,
 	},
 	storage: new LibSQLStore({
 		id: 'mastra-storage',
-		url: 'file:./mastra.db',
+		url: DATABASE_URL,
 	}),
 	logger: new PinoLogger({
 		name: 'Mastra',
 		level: 'info',
 	}),
+	// Spans of every run (routing, sub-agents, tools, model calls) are stored in mastra.db
+	observability: new Observability({
+		configs: {
+			default: {
+				serviceName: 'mastra-ai-chat',
+				exporters: [new DefaultExporter()],
+				spanOutputProcessors: [new SensitiveDataFilter()],
+			},
+		},
+	}),
 	server: {
 		cors: {
 			origin: '*',
 			allowMethods: ['*'],
 			allowHeaders: ['*'],
 		},
+		// Every route except /auth/* needs `Authorization: Bearer <session token>`
+		auth: new SessionAuth(),
 		middleware: [
+			{
+				path: '*',
+				handler: threadOwnership,
+			},
 			{
 				path: '/chat',
 				handler: async (c, next) => {
-					// Read body and populate requestContext with webSearchEnabled
+					// Read body and populate requestContext with webSearchEnabled and modelId
 					const body = await c.req.json();
 					const webSearchEnabled = body?.webSearchEnabled ?? false;
 
 					// Get or create requestContext
 					const requestContext = c.get('requestContext') || new Map();
 					requestContext.set('webSearchEnabled', webSearchEnabled);
+
+					// Only allowlisted models; otherwise each agent keeps its default
+					if (isAllowedModelId(body?.modelId)) {
+						requestContext.set(MODEL_ID_KEY, body.modelId);
+					}
 					c.set('requestContext', requestContext);
 
 					await next();
@@ -48,10 +81,13 @@ export const mastra = new Mastra({
 			},
 		],
 		apiRoutes: [
-			networkRoute({
-				path: '/chat',
-				agent: 'routingAgent',
-			}),
+			...authRoutes,
+			chatRoute,
+			chatApprovalRoute,
+			modelsRoute,
+			usageRoute,
+			...profileRoutes,
+			...traceRoutes,
 		],
 	},
 });
@@ -1,17 +1,67 @@
 import { google } from '@ai-sdk/google';
-import { LibSQLStore } from '@mastra/libsql';
+import type { SemanticRecall } from '@mastra/core/memory';
+import { LibSQLStore, LibSQLVector } from '@mastra/libsql';
 import { Memory } from '@mastra/memory';
+import { DATABASE_URL } from './db/client';
+import { embedder } from './services/embedder';
+import { travelProfileSchema } from './travel-profile';
+import { withUsageTracking } from './usage/tracking';
+import { withMockModel } from './utils/mock-model';
+import { withRecording } from './utils/recording';
 
 const agentStorage = new LibSQLStore({
 	id: 'routing-agent-memory',
-	url: 'file:./mastra.db',
+	url: DATABASE_URL,
 });
 
+/**
+ * Messages the agents see verbatim; older ones only reach them through the thread summary
+ * (see conversation-summary.ts). A network turn stores two or three messages.
+ */
+export const MEMORY_LAST_MESSAGES = Number(process.env.MEMORY_LAST_MESSAGES) || 20;
+
+/**
+ * Message embeddings for semantic recall, in the same LibSQL database
+ */
+export const memoryVector = new LibSQLVector({
+	id: 'routing-agent-memory-vector',
+	url: DATABASE_URL,
+});
+
+/**
+ * Past messages of any of the user's threads that resemble the new message are recalled
+ * into the agents' context. Memory stores embeddings in a per-dimension index, which the
+ * recall processor only finds when the name is given explicitly.
+ */
+export const SEMANTIC_RECALL = {
+	topK: 3,
+	messageRange: 1,
+	scope: 'resource',
+	threshold: 0.6,
+	indexName: `memory_messages_${embedder.dimension}`,
+} satisfies SemanticRecall;
+
 export const memory = new Memory({
 	storage: agentStorage,
+	vector: memoryVector,
+	embedder: embedder.model,
+	embedderOptions: { providerOptions: embedder.providerOptions },
 	options: {
+		lastMessages: MEMORY_LAST_MESSAGES,
+		semanticRecall: SEMANTIC_RECALL,
+		// Travel profile shared by all of a user's threads; the routing agent keeps it updated
+		workingMemory: {
+			enabled: true,
+			scope: 'resource',
+			schema: travelProfileSchema,
+		},
 		generateTitle: {
-			model: google('gemini-2.5-flash-lite'),
+			model: ({ requestContext }) =>
+				withUsageTracking(
+					withRecording(withMockModel(google('gemini-2.5-flash-lite'))),
+					requestContext,
+					'title'
+				),
 			instructions:
 				'Generate a concise title (max 6 words) based on the user message. Respond only with the title, no quotes or extra text.',
 		},
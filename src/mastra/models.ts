@@ -0,0 +1,72 @@
+import { google } from '@ai-sdk/google';
+import type { RequestContext } from '@mastra/core/request-context';
+import { withUsageTracking } from './usage/tracking';
+import { useDevTools } from './utils/dev-tools';
+import { withMockModel } from './utils/mock-model';
+import { withRecording } from './utils/recording';
+
+/**
+ * requestContext key holding the model picked for the current thread
+ */
+export const MODEL_ID_KEY = 'modelId';
+
+/**
+ * Thread metadata key the model choice is persisted under
+ */
+export const THREAD_MODEL_METADATA_KEY = 'modelId';
+
+/**
+ * Models users may pick in the chat. Anything else sent by the client is ignored,
+ * so only vetted (and paid-for) models can be run.
+ */
+export const MODEL_REGISTRY = {
+	'gemini-3-flash-preview': {
+		name: 'Gemini 3 Flash',
+		provider: 'google',
+		description: 'Fast and capable, the default',
+	},
+	'gemini-2.5-flash': {
+		name: 'Gemini 2.5 Flash',
+		provider: 'google',
+		description: 'Balanced speed and quality',
+	},
+	'gemini-2.5-flash-lite': {
+		name: 'Gemini 2.5 Flash Lite',
+		provider: 'google',
+		description: 'Fastest and cheapest',
+	},
+	'gemini-2.5-pro': {
+		name: 'Gemini 2.5 Pro',
+		provider: 'google',
+		description: 'Best reasoning, slower',
+	},
+} as const;
+
+export type ModelId = keyof typeof MODEL_REGISTRY;
+
+export const DEFAULT_MODEL_ID: ModelId = 'gemini-3-flash-preview';
+
+export function isAllowedModelId(value: unknown): value is ModelId {
+	return typeof value === 'string' && Object.hasOwn(MODEL_REGISTRY, value);
+}
+
+/**
+ * Registry entries as sent to the frontend model picker
+ */
+export function listModels() {
+	return Object.entries(MODEL_REGISTRY).map(([id, model]) => ({ id, ...model }));
+}
+
+/**
+ * Dynamic agent model: the model picked for the thread when it is allowlisted,
+ * the agent's own default otherwise. Token usage is billed to `agentId`.
+ */
+export function resolveModel(fallbackId: ModelId, agentId: string) {
+	return ({ requestContext }: { requestContext: RequestContext }) => {
+		const requested = requestContext?.get(MODEL_ID_KEY);
+		const modelId = isAllowedModelId(requested) ? requested : fallbackId;
+		return useDevTools(
+			withUsageTracking(withRecording(withMockModel(google(modelId))), requestContext, agentId)
+		);
+	};
+}
@@ -0,0 +1,530 @@
+import { randomUUID } from 'node:crypto';
+import { TransformStream } from 'node:stream/web';
+import { toAISdkStream } from '@mastra/ai-sdk';
+import type { Mastra } from '@mastra/core/mastra';
+import { MASTRA_RESOURCE_ID_KEY, type RequestContext } from '@mastra/core/request-context';
+import { type ContextWithMastra, registerApiRoute } from '@mastra/core/server';
+import type { ChunkType, MastraAgentNetworkStream } from '@mastra/core/stream';
+import { createUIMessageStream, createUIMessageStreamResponse, type UIMessageChunk } from 'ai';
+import {
+	findRecalledThreads,
+	RECALLED_THREADS_METADATA_KEY,
+	type RecalledThread,
+} from '../conversation-recall';
+import {
+	CONVERSATION_SUMMARY_KEY,
+	getThreadSummary,
+	updateThreadSummary,
+} from '../conversation-summary';
+import { isAllowedModelId, MODEL_ID_KEY, type ModelId, THREAD_MODEL_METADATA_KEY } from '../models';
+import {
+	chatTracingContext,
+	failChatTrace,
+	startChatTrace,
+	traceChatStream,
+} from '../tracing/chat-trace';
+import { USAGE_SCOPE_KEY, type UsageScope } from '../usage/tracking';
+
+const ROUTING_AGENT_ID = 'routing-agent';
+/** Workflow a network run executes in; its snapshot keeps the tool call awaiting approval */
+const NETWORK_LOOP_WORKFLOW = 'agent-loop-main-workflow';
+/** Name the routing agent registers the web search tool under */
+const WEB_SEARCH_TOOL_NAME = 'web_search';
+
+/**
+ * Approval request for a tool marked with `requireApproval`, streamed as a `data-tool-approval` part.
+ * The network run suspends until the user answers through POST /chat/approval.
+ */
+export interface ToolApproval {
+	runId: string;
+	toolCallId: string;
+	toolName: string;
+	args: unknown;
+	reason?: string;
+	status: 'pending' | 'approved' | 'declined';
+}
+
+interface ChatRequestBody {
+	messages: unknown[];
+	memory?: { thread: string; resource: string };
+	[key: string]: unknown;
+}
+
+interface ApprovalRequestBody {
+	runId: string;
+	toolCallId: string;
+	toolName: string;
+	args?: unknown;
+	reason?: string;
+	approved: boolean;
+	memory: { thread: string; resource: string };
+}
+
+interface ChatMessage {
+	role?: string;
+	parts?: Array<{ type: string; text?: string }>;
+	metadata?: Record<string, unknown>;
+}
+
+function toolApprovalChunk(data: ToolApproval) {
+	return { type: 'data-tool-approval', id: data.toolCallId, data };
+}
+
+function memoryRecallChunk(threads: RecalledThread[]) {
+	return { type: 'data-memory-recall', data: { threads } };
+}
+
+/**
+ * The AI SDK network transformer drops `tool-execution-approval` chunks,
+ * so they are rewritten as data chunks, which it forwards untouched
+ */
+function forwardApprovalRequests() {
+	return new TransformStream<ChunkType, ChunkType>({
+		transform(chunk, controller) {
+			if (chunk.type !== 'tool-execution-approval') {
+				controller.enqueue(chunk);
+				return;
+			}
+
+			const approval = toolApprovalChunk({
+				runId: chunk.payload.runId,
+				toolCallId: chunk.payload.toolCallId,
+				toolName: chunk.payload.toolName,
+				args: chunk.payload.args,
+				reason: chunk.payload.selectionReason,
+				status: 'pending',
+			});
+			controller.enqueue(approval as unknown as ChunkType);
+		},
+	});
+}
+
+/**
+ * A resumed run starts at the suspended tool, without the routing chunks the AI SDK network
+ * transformer needs to track the run, so it would drop everything that follows.
+ * The routing decision is replayed from the tool call, which still carries it.
+ */
+function replayRoutingDecision() {
+	let replayed = false;
+
+	return new TransformStream<ChunkType, ChunkType>({
+		transform(chunk, controller) {
+			if (!replayed && chunk.type === 'tool-execution-start') {
+				replayed = true;
+				const { args } = chunk.payload;
+				const decision = {
+					task: args.task,
+					primitiveId: args.primitiveId,
+					primitiveType: args.primitiveType,
+					prompt: args.prompt,
+					selectionReason: args.selectionReason,
+					iteration: args.iteration,
+					runId: args.runId,
+				};
+				const replay = [
+					{
+						type: 'routing-agent-start',
+						runId: chunk.runId,
+						from: chunk.from,
+						payload: {
+							networkId: ROUTING_AGENT_ID,
+							agentId: ROUTING_AGENT_ID,
+							runId: args.runId,
+							inputData: { task: args.task, iteration: args.iteration },
+						},
+					},
+					{
+						type: 'routing-agent-end',
+						runId: chunk.runId,
+						from: chunk.from,
+						payload: { ...decision, result: '', isComplete: false },
+					},
+				];
+				for (const replayChunk of replay) {
+					controller.enqueue(replayChunk as unknown as ChunkType);
+				}
+			}
+			controller.enqueue(chunk);
+		},
+	});
+}
+
+function toChatResponse(
+	stream: MastraAgentNetworkStream,
+	prelude: Array<ReturnType<typeof toolApprovalChunk> | ReturnType<typeof memoryRecallChunk>> = []
+) {
+	const networkStream = stream.pipeThrough(
+		forwardApprovalRequests()
+	) as unknown as MastraAgentNetworkStream;
+
+	const uiMessageStream = createUIMessageStream({
+		execute: ({ writer }) => {
+			// Answers to approvals update the pending card before the resumed run streams in;
+			// recalled threads are shown above the answer
+			for (const chunk of prelude) {
+				writer.write(chunk as UIMessageChunk);
+			}
+			writer.merge(
+				toAISdkStream(networkStream, { from: 'network' }) as ReadableStream<UIMessageChunk>
+			);
+		},
+	});
+
+	return createUIMessageStreamResponse({ stream: uiMessageStream });
+}
+
+function getRoutingAgent(mastra: Mastra) {
+	return mastra.getAgentById(ROUTING_AGENT_ID);
+}
+
+/** requestContext is set by the Mastra server but missing from the custom route handler types */
+function getRequestContext(c: unknown) {
+	return (c as ContextWithMastra).get('requestContext');
+}
+
+type RoutingAgent = ReturnType<typeof getRoutingAgent>;
+
+interface SuspendedToolCall {
+	toolName: string;
+	toolCallId: string;
+}
+
+interface NetworkRun {
+	threadId?: string;
+	resourceId?: string;
+	/** Tool call the run is suspended on, null when it is not waiting for an approval */
+	suspendedToolCall: SuspendedToolCall | null;
+}
+
+/**
+ * Thread, resource and pending tool call of a network run, read from its stored snapshot,
+ * or null when the run does not exist
+ */
+async function getNetworkRun(mastra: Mastra, runId: string): Promise<NetworkRun | null> {
+	const workflows = await mastra.getStorage()?.getStore('workflows');
+	const snapshot = await workflows?.loadWorkflowSnapshot({
+		workflowName: NETWORK_LOOP_WORKFLOW,
+		runId,
+	});
+	if (!snapshot) return null;
+
+	const input = snapshot.context.input as
+		| { threadId?: string; threadResourceId?: string }
+		| undefined;
+	const run: NetworkRun = {
+		threadId: input?.threadId,
+		resourceId: input?.threadResourceId,
+		suspendedToolCall: null,
+	};
+	if (snapshot.status !== 'suspended') return run;
+
+	for (const step of Object.values(snapshot.context)) {
+		const approval = (step as { suspendPayload?: { requireToolApproval?: SuspendedToolCall } })
+			.suspendPayload?.requireToolApproval;
+		if (approval?.toolName && approval.toolCallId) {
+			return { ...run, suspendedToolCall: approval };
+		}
+	}
+	return run;
+}
+type ChatMemory = NonNullable<ChatRequestBody['memory']>;
+
+/**
+ * Remember the model picked for a thread in its metadata, creating the thread
+ * if this is its first message so the choice survives reloads
+ */
+async function saveThreadModel(
+	agent: RoutingAgent,
+	{ thread: threadId, resource }: ChatMemory,
+	modelId: ModelId,
+	requestContext: RequestContext
+) {
+	const memory = await agent.getMemory({ requestContext });
+	if (!memory) return;
+
+	const thread = await memory.getThreadById({ threadId });
+	if (!thread) {
+		await memory.createThread({
+			threadId,
+			// The signed-in user wins over the resource sent by the client
+			resourceId: (requestContext.get(MASTRA_RESOURCE_ID_KEY) as string | undefined) ?? resource,
+			title: `New Thread ${new Date().toISOString()}`,
+			metadata: { [THREAD_MODEL_METADATA_KEY]: modelId },
+		});
+		return;
+	}
+
+	if (thread.metadata?.[THREAD_MODEL_METADATA_KEY] === modelId) return;
+	await memory.saveThread({
+		thread: {
+			...thread,
+			metadata: { ...thread.metadata, [THREAD_MODEL_METADATA_KEY]: modelId },
+			updatedAt: new Date(),
+		},
+	});
+}
+
+/**
+ * Model saved for a thread, used when a run is resumed without a new chat request
+ */
+async function getThreadModel(
+	agent: RoutingAgent,
+	threadId: string,
+	requestContext: RequestContext
+): Promise<ModelId | null> {
+	const memory = await agent.getMemory({ requestContext });
+	const thread = await memory?.getThreadById({ threadId });
+	const modelId = thread?.metadata?.[THREAD_MODEL_METADATA_KEY];
+	return isAllowedModelId(modelId) ? modelId : null;
+}
+
+/**
+ * Hand the thread's stored summary of older messages to the routing agent instructions
+ */
+async function applyThreadSummary(
+	agent: RoutingAgent,
+	threadId: string,
+	requestContext: RequestContext
+) {
+	const memory = await agent.getMemory({ requestContext });
+	if (!memory) return;
+
+	const summary = await getThreadSummary(memory, threadId);
+	if (summary) {
+		requestContext.set(CONVERSATION_SUMMARY_KEY, summary.text);
+	}
+}
+
+/** Summary refreshes in progress, one per thread */
+const summaryRefreshes = new Map<string, Promise<void>>();
+
+/**
+ * Fold the messages that left the memory window during a run into the thread summary, ready
+ * for the next run. Started once the answer has been streamed, so the summarizer call never
+ * delays it; if it fails the previous summary stays.
+ */
+function refreshThreadSummary(
+	agent: RoutingAgent,
+	threadId: string,
+	requestContext: RequestContext
+) {
+	if (summaryRefreshes.has(threadId)) return;
+
+	const refresh = (async () => {
+		const memory = await agent.getMemory({ requestContext });
+		if (memory) {
+			await updateThreadSummary(memory, threadId, requestContext);
+		}
+	})()
+		.catch((error) => {
+			console.error(`Failed to summarize thread ${threadId}:`, error);
+		})
+		.finally(() => {
+			summaryRefreshes.delete(threadId);
+		});
+	summaryRefreshes.set(threadId, refresh);
+}
+
+/**
+ * Passes the network stream through and calls `callback` once it has been streamed in full
+ */
+function afterStream(callback: () => void) {
+	return new TransformStream<ChunkType, ChunkType>({
+		transform(chunk, controller) {
+			controller.enqueue(chunk);
+		},
+		flush() {
+			callback();
+		},
+	});
+}
+
+/**
+ * Find the user's other threads that semantic recall draws on for the new message and note
+ * them in its metadata, so the answer can link them after a reload too.
+ * A failed lookup only loses the links; the agents still recall the messages themselves.
+ */
+async function applyRecalledThreads(
+	agent: RoutingAgent,
+	threadId: string,
+	messages: unknown[],
+	requestContext: RequestContext
+): Promise<RecalledThread[]> {
+	const resourceId = requestContext.get(MASTRA_RESOURCE_ID_KEY);
+	const message = messages.at(-1) as ChatMessage | undefined;
+	const query = message?.parts
+		?.map((part) => (part.type === 'text' ? part.text : ''))
+		.join(' ')
+		.trim();
+	if (typeof resourceId !== 'string' || message?.role !== 'user' || !query) return [];
+
+	const memory = await agent.getMemory({ requestContext });
+	if (!memory) return [];
+
+	try {
+		const threads = await findRecalledThreads(memory, { threadId, resourceId, query });
+		if (threads.length > 0) {
+			message.metadata = { ...message.metadata, [RECALLED_THREADS_METADATA_KEY]: threads };
+		}
+		return threads;
+	} catch (error) {
+		console.error(`Failed to look up recalled threads for ${threadId}:`, error);
+		return [];
+	}
+}
+
+/**
+ * POST /chat - runs the routing agent as a network and streams AI SDK UI chunks,
+ * including approval requests for tools that need the user's consent
+ */
+export const chatRoute = registerApiRoute('/chat', {
+	method: 'POST',
+	handler: async (c) => {
+		const { messages, ...options } = await c.req.json<ChatRequestBody>();
+		const agent = getRoutingAgent(c.get('mastra'));
+		const requestContext = getRequestContext(c);
+
+		const modelId = requestContext.get(MODEL_ID_KEY);
+		if (options.memory && isAllowedModelId(modelId)) {
+			await saveThreadModel(agent, options.memory, modelId, requestContext);
+		}
+
+		// The run id is picked here so token usage can be billed to the assistant message
+		const runId = randomUUID();
+		const usageScope: UsageScope = { threadId: options.memory?.thread ?? null, runId };
+		requestContext.set(USAGE_SCOPE_KEY, usageScope);
+
+		let recalledThreads: RecalledThread[] = [];
+		if (options.memory) {
+			await applyThreadSummary(agent, options.memory.thread, requestContext);
+			recalledThreads = await applyRecalledThreads(
+				agent,
+				options.memory.thread,
+				messages,
+				requestContext
+			);
+		}
+
+		const span = startChatTrace(c.get('mastra'), {
+			kind: 'chat',
+			userId: requestContext.get(MASTRA_RESOURCE_ID_KEY) as string | undefined,
+			threadId: options.memory?.thread,
+			runId,
+			input: messages.at(-1),
+			requestContext,
+		});
+
+		let stream: MastraAgentNetworkStream;
+		try {
+			stream = await agent.network(messages as Parameters<typeof agent.network>[0], {
+				...options,
+				runId,
+				requestContext,
+				tracingContext: chatTracingContext(span),
+			});
+		} catch (error) {
+			failChatTrace(span, error);
+			throw error;
+		}
+
+		const { memory } = options;
+		const tracedStream = stream.pipeThrough(traceChatStream(span)).pipeThrough(
+			afterStream(() => {
+				if (memory) refreshThreadSummary(agent, memory.thread, requestContext);
+			})
+		) as unknown as MastraAgentNetworkStream;
+
+		return toChatResponse(
+			tracedStream,
+			recalledThreads.length > 0 ? [memoryRecallChunk(recalledThreads)] : []
+		);
+	},
+});
+
+/**
+ * POST /chat/approval - resumes a network run suspended on a tool approval,
+ * running the tool when approved or telling the agent it was declined
+ */
+export const chatApprovalRoute = registerApiRoute('/chat/approval', {
+	method: 'POST',
+	handler: async (c) => {
+		const { runId, toolCallId, toolName, args, reason, approved, memory } =
+			await c.req.json<ApprovalRequestBody>();
+
+		if (!runId || !toolCallId || typeof approved !== 'boolean' || !memory?.thread) {
+			return c.json({ error: 'runId, toolCallId, approved and memory are required' }, 400);
+		}
+
+		const agent = getRoutingAgent(c.get('mastra'));
+		const requestContext = getRequestContext(c);
+
+		// Only the user whose thread the run belongs to can resume it; other users' runs are
+		// reported as missing rather than forbidden, so run ids cannot be probed
+		const run = await getNetworkRun(c.get('mastra'), runId);
+		if (
+			!run ||
+			run.threadId !== memory.thread ||
+			run.resourceId !== requestContext.get(MASTRA_RESOURCE_ID_KEY)
+		) {
+			return c.json({ error: 'Run not found' }, 404);
+		}
+
+		const suspended = run.suspendedToolCall;
+		if (suspended?.toolCallId !== toolCallId) {
+			return c.json({ error: 'No tool call awaiting approval for this run' }, 409);
+		}
+
+		// The run can only be suspended on a web search if search was enabled for the request that
+		// started it, and the tool must still be registered for the run to resume
+		requestContext.set('webSearchEnabled', suspended.toolName === WEB_SEARCH_TOOL_NAME);
+
+		// Resume on the model the thread was using
+		const modelId = await getThreadModel(agent, memory.thread, requestContext);
+		if (modelId) {
+			requestContext.set(MODEL_ID_KEY, modelId);
+		}
+
+		const usageScope: UsageScope = { threadId: memory.thread, runId };
+		requestContext.set(USAGE_SCOPE_KEY, usageScope);
+
+		await applyThreadSummary(agent, memory.thread, requestContext);
+
+		const span = startChatTrace(c.get('mastra'), {
+			kind: 'approval',
+			userId: requestContext.get(MASTRA_RESOURCE_ID_KEY) as string | undefined,
+			threadId: memory.thread,
+			runId,
+			input: { toolName, args, approved },
+			requestContext,
+		});
+
+		const options = { runId, memory, requestContext, tracingContext: chatTracingContext(span) };
+		let stream: MastraAgentNetworkStream;
+		try {
+			stream = approved
+				? await agent.approveNetworkToolCall(options)
+				: await agent.declineNetworkToolCall(options);
+		} catch (error) {
+			failChatTrace(span, error);
+			throw error;
+		}
+		// Traced before the replay, which repeats a decision the original request already recorded
+		const resumedStream = stream
+			.pipeThrough(traceChatStream(span))
+			.pipeThrough(replayRoutingDecision())
+			.pipeThrough(
+				afterStream(() => refreshThreadSummary(agent, memory.thread, requestContext))
+			) as unknown as MastraAgentNetworkStream;
+
+		return toChatResponse(resumedStream, [
+			toolApprovalChunk({
+				runId,
+				toolCallId,
+				toolName,
+				args,
+				reason,
+				status: approved ? 'approved' : 'declined',
+			}),
+		]);
+	},
+});
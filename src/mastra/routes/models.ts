@@ -0,0 +1,10 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { DEFAULT_MODEL_ID, listModels } from '../models';
+
+/**
+ * GET /models - models the user can pick for a thread
+ */
+export const modelsRoute = registerApiRoute('/models', {
+	method: 'GET',
+	handler: async (c) => c.json({ models: listModels(), defaultModelId: DEFAULT_MODEL_ID }),
+});
@@ -0,0 +1,59 @@
+import { MASTRA_RESOURCE_ID_KEY } from '@mastra/core/request-context';
+import { type ContextWithMastra, registerApiRoute } from '@mastra/core/server';
+import { memory } from '../memory';
+import { getTravelProfile, saveTravelProfile, travelProfileSchema } from '../travel-profile';
+
+/** Signed-in user id; the session middleware guarantees one on these routes */
+function getUserId(c: unknown): string | undefined {
+	const requestContext = (c as ContextWithMastra).get('requestContext');
+	return requestContext.get(MASTRA_RESOURCE_ID_KEY) as string | undefined;
+}
+
+const signInRequired = { error: 'Sign in to manage your travel profile' };
+
+/**
+ * GET /profile - what the assistant remembers about the signed-in user
+ */
+export const getProfileRoute = registerApiRoute('/profile', {
+	method: 'GET',
+	handler: async (c) => {
+		const userId = getUserId(c);
+		if (!userId) return c.json(signInRequired, 401);
+
+		return c.json({ profile: await getTravelProfile(memory, userId) });
+	},
+});
+
+/**
+ * PUT /profile - replace the profile with the one edited by the user
+ */
+export const updateProfileRoute = registerApiRoute('/profile', {
+	method: 'PUT',
+	handler: async (c) => {
+		const userId = getUserId(c);
+		if (!userId) return c.json(signInRequired, 401);
+
+		const body = await c.req.json<{ profile?: unknown }>().catch(() => ({ profile: undefined }));
+		const result = travelProfileSchema.safeParse(body.profile);
+		if (!result.success) {
+			return c.json({ error: 'Invalid travel profile', issues: result.error.issues }, 400);
+		}
+
+		return c.json({ profile: await saveTravelProfile(memory, userId, result.data) });
+	},
+});
+
+/**
+ * DELETE /profile - make the assistant forget everything in the profile
+ */
+export const clearProfileRoute = registerApiRoute('/profile', {
+	method: 'DELETE',
+	handler: async (c) => {
+		const userId = getUserId(c);
+		if (!userId) return c.json(signInRequired, 401);
+
+		return c.json({ profile: await saveTravelProfile(memory, userId, {}) });
+	},
+});
+
+export const profileRoutes = [getProfileRoute, updateProfileRoute, clearProfileRoute];
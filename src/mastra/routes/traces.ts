@@ -0,0 +1,45 @@
+import { MASTRA_RESOURCE_ID_KEY } from '@mastra/core/request-context';
+import { type ContextWithMastra, registerApiRoute } from '@mastra/core/server';
+import { getRunTrace, listThreadRuns } from '../tracing/store';
+
+/** Signed-in user id; the session middleware guarantees one on these routes */
+function getUserId(c: unknown): string | undefined {
+	const requestContext = (c as ContextWithMastra).get('requestContext');
+	return requestContext.get(MASTRA_RESOURCE_ID_KEY) as string | undefined;
+}
+
+const signInRequired = { error: 'Sign in to see traces' };
+
+/**
+ * GET /traces?threadId= - traced /chat requests of a thread of the signed-in user, newest first
+ */
+export const listTracesRoute = registerApiRoute('/traces', {
+	method: 'GET',
+	handler: async (c) => {
+		const userId = getUserId(c);
+		if (!userId) return c.json(signInRequired, 401);
+
+		const threadId = c.req.query('threadId');
+		if (!threadId) return c.json({ error: 'threadId is required' }, 400);
+
+		return c.json({ runs: await listThreadRuns(c.get('mastra'), userId, threadId) });
+	},
+});
+
+/**
+ * GET /traces/:traceId - span waterfall of one request
+ */
+export const getTraceRoute = registerApiRoute('/traces/:traceId', {
+	method: 'GET',
+	handler: async (c) => {
+		const userId = getUserId(c);
+		if (!userId) return c.json(signInRequired, 401);
+
+		const trace = await getRunTrace(c.get('mastra'), userId, c.req.param('traceId'));
+		if (!trace) return c.json({ error: 'Trace not found' }, 404);
+
+		return c.json(trace);
+	},
+});
+
+export const traceRoutes = [listTracesRoute, getTraceRoute];
@@ -0,0 +1,21 @@
+import { MASTRA_RESOURCE_ID_KEY } from '@mastra/core/request-context';
+import { type ContextWithMastra, registerApiRoute } from '@mastra/core/server';
+import { getThreadUsage, getUserUsage } from '../usage/store';
+
+/**
+ * GET /usage - token usage and estimated cost of the signed-in user.
+ * With `?threadId=` the usage of that thread, per assistant message, instead of per thread.
+ */
+export const usageRoute = registerApiRoute('/usage', {
+	method: 'GET',
+	handler: async (c) => {
+		const requestContext = (c as unknown as ContextWithMastra).get('requestContext');
+		const userId = requestContext.get(MASTRA_RESOURCE_ID_KEY) as string | undefined;
+		if (!userId) {
+			return c.json({ error: 'Sign in to see usage' }, 401);
+		}
+
+		const threadId = c.req.query('threadId');
+		return c.json(threadId ? await getThreadUsage(userId, threadId) : await getUserUsage(userId));
+	},
+});
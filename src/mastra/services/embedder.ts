@@ -0,0 +1,141 @@
+/**
+ * Text embedders shared by the destination vector index (and anything else that needs embeddings).
+ *
+ * An embedder is an AI SDK embedding model plus the vector dimension it produces, so it can be
+ * passed to `embedMany`, to Mastra vector stores and to Mastra memory alike. Gemini is used by
+ * default; set EMBEDDER_PROVIDER=local for a deterministic offline embedder (no API calls).
+ */
+import { google } from '@ai-sdk/google';
+import type { EmbeddingModelV3, SharedV3ProviderOptions } from '@ai-sdk/provider';
+import { embedMany } from 'ai';
+
+const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+const GEMINI_DIMENSION = 768;
+const LOCAL_DIMENSION = 256;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EmbedderProvider = 'gemini' | 'local';
+
+export interface Embedder {
+	provider: EmbedderProvider;
+	model: EmbeddingModelV3;
+	/** Length of every vector produced by the model */
+	dimension: number;
+	/** Provider options to send with every embedding call */
+	providerOptions?: SharedV3ProviderOptions;
+}
+
+// ============================================================================
+// Gemini
+// ============================================================================
+
+export function createGeminiEmbedder(dimension = GEMINI_DIMENSION): Embedder {
+	return {
+		provider: 'gemini',
+		model: google.textEmbedding(GEMINI_EMBEDDING_MODEL),
+		dimension,
+		providerOptions: { google: { outputDimensionality: dimension } },
+	};
+}
+
+// ============================================================================
+// Local (deterministic, offline)
+// ============================================================================
+
+/** 32-bit FNV-1a hash */
+function hash(value: string): number {
+	let result = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		result ^= value.charCodeAt(i);
+		result = Math.imul(result, 0x01000193);
+	}
+	return result >>> 0;
+}
+
+function localFeatures(text: string): string[] {
+	const words = text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((word) => word.length > 2)
+		.map((word) => word.replace(/(es|s)$/, ''));
+
+	const features: string[] = [];
+	for (const word of words) {
+		features.push(`w:${word}`);
+		// Character trigrams make related word forms ("mountain", "mountainous") land close together
+		const padded = `^${word}$`;
+		for (let i = 0; i < padded.length - 2; i++) {
+			features.push(`t:${padded.slice(i, i + 3)}`);
+		}
+	}
+	return features;
+}
+
+/**
+ * Hashed bag-of-words embedding. Same text always gives the same unit vector, which makes
+ * it suitable for tests and offline development, not for real semantic quality.
+ */
+export function embedLocally(text: string, dimension = LOCAL_DIMENSION): number[] {
+	const vector = new Array<number>(dimension).fill(0);
+
+	for (const feature of localFeatures(text)) {
+		const bucket = hash(feature);
+		const weight = feature.startsWith('w:') ? 1 : 0.5;
+		vector[bucket % dimension] += bucket & 0x80000000 ? -weight : weight;
+	}
+
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+export function createLocalEmbedder(dimension = LOCAL_DIMENSION): Embedder {
+	return {
+		provider: 'local',
+		model: {
+			specificationVersion: 'v3',
+			provider: 'local',
+			modelId: `hashed-bow-${dimension}`,
+			maxEmbeddingsPerCall: Number.POSITIVE_INFINITY,
+			supportsParallelCalls: true,
+			doEmbed: async ({ values }) => ({
+				embeddings: values.map((value) => embedLocally(value, dimension)),
+				warnings: [],
+			}),
+		},
+		dimension,
+	};
+}
+
+// ============================================================================
+// Shared instance
+// ============================================================================
+
+export function createEmbedder(
+	provider: EmbedderProvider = process.env.EMBEDDER_PROVIDER === 'local' ? 'local' : 'gemini'
+): Embedder {
+	return provider === 'local' ? createLocalEmbedder() : createGeminiEmbedder();
+}
+
+export const embedder = createEmbedder();
+
+/**
+ * Embed a batch of texts with the given embedder (the shared one by default)
+ */
+export async function embedTexts(
+	values: string[],
+	using: Embedder = embedder
+): Promise<number[][]> {
+	if (values.length === 0) return [];
+
+	const { embeddings } = await embedMany({
+		model: using.model,
+		values,
+		providerOptions: using.providerOptions,
+	});
+	return embeddings;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createOpenMeteoClient } from './open-meteo';
+import { openMeteoFixtureFetch } from './open-meteo-fixture';
+
+const client = createOpenMeteoClient({ fetch: openMeteoFixtureFetch, cacheTtlMs: 0 });
+
+describe('openMeteoFixtureFetch', () => {
+	it('geocodes catalog destinations to their coordinates', async () => {
+		expect(await client.geocode('barcelona')).toMatchObject({
+			name: 'Barcelona',
+			country: 'Spain',
+			latitude: 41.3874,
+			longitude: 2.1686,
+		});
+	});
+
+	it('makes up a stable place for any other name', async () => {
+		const place = await client.geocode('são paulo');
+
+		expect(place.name).toBe('São Paulo');
+		expect(await client.geocode('São Paulo')).toEqual(place);
+		expect(await client.resolveLocation('São Paulo')).toEqual({
+			status: 'resolved',
+			location: place,
+		});
+	});
+
+	it('returns the same weather for the same place', async () => {
+		const place = await client.geocode('Lisbon');
+		const weather = await client.getCurrentWeather(place);
+
+		expect(await client.getCurrentWeather(place)).toEqual(weather);
+		expect(weather.humidity).toBeGreaterThanOrEqual(40);
+		expect(weather.humidity).toBeLessThanOrEqual(90);
+	});
+
+	it('returns one forecast day per requested day, starting today', async () => {
+		const days = await client.getDailyForecast(await client.geocode('Tokyo'), 5);
+
+		expect(days).toHaveLength(5);
+		expect(days[0].date).toBe(new Date().toISOString().slice(0, 10));
+		for (const day of days) {
+			expect(day.minTemp).toBeLessThan(day.maxTemp);
+			expect(day.precipitationChance).toBeGreaterThanOrEqual(0);
+			expect(day.precipitationChance).toBeLessThanOrEqual(100);
+		}
+	});
+});
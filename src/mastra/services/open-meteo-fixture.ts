@@ -0,0 +1,142 @@
+/**
+ * Offline stand-in for the Open-Meteo geocoding and forecast APIs, used by the Open-Meteo
+ * client while MODEL_PROVIDER=mock so the weather tool and workflows never leave the machine.
+ *
+ * Places from the destination catalog geocode to their real coordinates; any other name
+ * becomes a made-up place with stable coordinates. Weather is derived from the coordinates
+ * and the date: the same place and day always get the same numbers.
+ */
+import { createHash } from 'node:crypto';
+import { seedDestinations } from '../destinations/seed-data';
+import type { GeocodingResult } from './open-meteo';
+
+/** Weather codes the stand-in cycles through: clear, cloudy, rain and showers */
+const WEATHER_CODES = [0, 1, 2, 3, 61, 80];
+
+function normalizeName(value: string): string {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.trim()
+		.toLowerCase();
+}
+
+/** Deterministic number in [0, 1) for a key */
+function noise(key: string): number {
+	return createHash('sha256').update(key).digest().readUInt32BE(0) / 2 ** 32;
+}
+
+function titleCase(value: string): string {
+	return value.replace(
+		/(^|\s)(\p{L})/gu,
+		(_, space: string, letter: string) => space + letter.toUpperCase()
+	);
+}
+
+function geocode(name: string): GeocodingResult[] {
+	const query = normalizeName(name);
+	if (!query) return [];
+
+	const known = seedDestinations.find((destination) => normalizeName(destination.city) === query);
+	if (known) {
+		return [
+			{
+				name: known.city,
+				latitude: known.latitude,
+				longitude: known.longitude,
+				country: known.country,
+			},
+		];
+	}
+
+	return [
+		{
+			name: titleCase(name.trim()),
+			latitude: Math.round((noise(`lat:${query}`) * 120 - 60) * 100) / 100,
+			longitude: Math.round((noise(`lon:${query}`) * 360 - 180) * 100) / 100,
+			country: 'Offline',
+		},
+	];
+}
+
+/** Temperature around which a place's weather varies: warmer near the equator and in summer */
+function baseTemperature(latitude: number, date: Date): number {
+	const summer = latitude >= 0 ? 7 : 1;
+	const season = Math.cos(((date.getUTCMonth() + 1 - summer) / 12) * 2 * Math.PI);
+	return 27 - Math.abs(latitude) * 0.35 + season * Math.min(Math.abs(latitude) / 4, 10);
+}
+
+function day(latitude: number, longitude: number, date: Date) {
+	const key = `${latitude},${longitude},${date.toISOString().slice(0, 10)}`;
+	const temperature = baseTemperature(latitude, date) + (noise(`temp:${key}`) - 0.5) * 6;
+	const code = WEATHER_CODES[Math.floor(noise(`code:${key}`) * WEATHER_CODES.length)];
+	return {
+		code,
+		max: Math.round((temperature + 4) * 10) / 10,
+		min: Math.round((temperature - 4) * 10) / 10,
+		current: Math.round(temperature * 10) / 10,
+		rain:
+			code >= 61
+				? 60 + Math.round(noise(`rain:${key}`) * 40)
+				: Math.round(noise(`rain:${key}`) * 20),
+		wind: Math.round(5 + noise(`wind:${key}`) * 25),
+		humidity: Math.round(40 + noise(`humidity:${key}`) * 50),
+	};
+}
+
+function forecast(params: URLSearchParams): unknown {
+	const latitude = Number(params.get('latitude'));
+	const longitude = Number(params.get('longitude'));
+	const now = new Date();
+
+	if (params.has('current')) {
+		const today = day(latitude, longitude, now);
+		return {
+			current: {
+				time: now.toISOString().slice(0, 16),
+				temperature_2m: today.current,
+				apparent_temperature: Math.round((today.current - today.wind / 10) * 10) / 10,
+				relative_humidity_2m: today.humidity,
+				wind_speed_10m: today.wind,
+				wind_gusts_10m: Math.round(today.wind * 1.6),
+				weather_code: today.code,
+			},
+		};
+	}
+
+	const dates = Array.from({ length: Number(params.get('forecast_days') ?? 7) }, (_, index) => {
+		const date = new Date(now);
+		date.setUTCDate(now.getUTCDate() + index);
+		return date;
+	});
+	const days = dates.map((date) => ({ date, ...day(latitude, longitude, date) }));
+	return {
+		daily: {
+			time: days.map(({ date }) => date.toISOString().slice(0, 10)),
+			weather_code: days.map(({ code }) => code),
+			temperature_2m_max: days.map(({ max }) => max),
+			temperature_2m_min: days.map(({ min }) => min),
+			precipitation_probability_max: days.map(({ rain }) => rain),
+			sunrise: days.map(({ date }) => `${date.toISOString().slice(0, 10)}T07:00`),
+			sunset: days.map(({ date }) => `${date.toISOString().slice(0, 10)}T19:30`),
+			uv_index_max: days.map(({ code }) => (code <= 1 ? 7 : 3)),
+		},
+	};
+}
+
+/**
+ * `fetch` answering the geocoding (`/v1/search`) and forecast (`/v1/forecast`) requests the
+ * Open-Meteo client makes, whatever the base URL
+ */
+export const openMeteoFixtureFetch: typeof fetch = async (input) => {
+	const url = new URL(input instanceof Request ? input.url : String(input));
+
+	if (url.pathname.endsWith('/v1/search')) {
+		const results = geocode(url.searchParams.get('name') ?? '');
+		return Response.json(results.length > 0 ? { results } : {});
+	}
+	if (url.pathname.endsWith('/v1/forecast')) {
+		return Response.json(forecast(url.searchParams));
+	}
+	return new Response('Not found', { status: 404 });
+};
@@ -0,0 +1,187 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	createOpenMeteoClient,
+	type GeocodingResult,
+	LocationNotFoundError,
+	type OpenMeteoClientOptions,
+	OpenMeteoUpstreamError,
+} from './open-meteo';
+
+const paris: GeocodingResult = {
+	name: 'Paris',
+	latitude: 48.85,
+	longitude: 2.35,
+	country: 'France',
+	country_code: 'FR',
+	admin1: 'Île-de-France',
+};
+const parisTexas: GeocodingResult = {
+	name: 'Paris',
+	latitude: 33.66,
+	longitude: -95.56,
+	country: 'United States',
+	country_code: 'US',
+	admin1: 'Texas',
+};
+
+const currentResponse = {
+	current: {
+		time: '2026-10-19T12:00',
+		temperature_2m: 18,
+		apparent_temperature: 17,
+		relative_humidity_2m: 60,
+		wind_speed_10m: 10,
+		wind_gusts_10m: 20,
+		weather_code: 1,
+	},
+};
+
+function json(body: unknown, status = 200): Response {
+	return new Response(JSON.stringify(body), { status });
+}
+
+/**
+ * Client answering from `respond`, with fast retries and no cache unless overridden
+ */
+function clientWith(
+	respond: (url: string, init?: RequestInit) => Response | Promise<Response>,
+	options: OpenMeteoClientOptions = {}
+) {
+	const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) =>
+		respond(String(input), init)
+	);
+	const client = createOpenMeteoClient({
+		geocodingUrl: 'http://geo.test/',
+		forecastUrl: 'http://forecast.test',
+		retries: 1,
+		cacheTtlMs: 0,
+		fetch: fetch as unknown as typeof globalThis.fetch,
+		...options,
+	});
+	return { client, fetch };
+}
+
+describe('createOpenMeteoClient', () => {
+	it('calls the configured base URLs', async () => {
+		const { client, fetch } = clientWith(() => json({ results: [paris] }));
+
+		await client.geocode('Paris');
+
+		expect(fetch.mock.calls[0][0]).toBe('http://geo.test/v1/search?name=Paris&count=1');
+	});
+
+	it('retries 5xx responses', async () => {
+		const { client, fetch } = clientWith(() =>
+			fetch.mock.calls.length === 1 ? json({}, 503) : json(currentResponse)
+		);
+
+		const weather = await client.getCurrentWeather(paris);
+
+		expect(weather.temperature).toBe(18);
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('gives up after the last retry with the upstream status', async () => {
+		const { client, fetch } = clientWith(() => json({}, 429));
+
+		await expect(client.getCurrentWeather(paris)).rejects.toMatchObject({
+			name: 'OpenMeteoUpstreamError',
+			status: 429,
+		});
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not retry other error statuses', async () => {
+		const { client, fetch } = clientWith(() => json({}, 400));
+
+		await expect(client.getCurrentWeather(paris)).rejects.toBeInstanceOf(OpenMeteoUpstreamError);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('reports network failures as unreachable', async () => {
+		const { client, fetch } = clientWith(() => {
+			throw new TypeError('fetch failed');
+		});
+
+		await expect(client.getCurrentWeather(paris)).rejects.toThrow('Open-Meteo is unreachable');
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('aborts requests that take longer than the timeout', async () => {
+		const { client } = clientWith(
+			(_url, init) =>
+				new Promise((_resolve, reject) => {
+					init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+				}),
+			{ timeoutMs: 10, retries: 0 }
+		);
+
+		const error = await client.getCurrentWeather(paris).catch((e) => e);
+
+		expect(error).toBeInstanceOf(OpenMeteoUpstreamError);
+		expect(error.cause.name).toBe('TimeoutError');
+	});
+
+	it('caches responses until the TTL expires', async () => {
+		vi.useFakeTimers();
+		try {
+			const { client, fetch } = clientWith(() => json(currentResponse), { cacheTtlMs: 1000 });
+
+			await client.getCurrentWeather(paris);
+			// Nearby coordinates share the entry
+			await client.getCurrentWeather({ latitude: 48.851, longitude: 2.349 });
+			expect(fetch).toHaveBeenCalledTimes(1);
+
+			vi.advanceTimersByTime(1001);
+			await client.getCurrentWeather(paris);
+			expect(fetch).toHaveBeenCalledTimes(2);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('throws LocationNotFoundError when geocoding finds nothing', async () => {
+		const { client } = clientWith(() => json({}));
+
+		await expect(client.geocode('Atlantis')).rejects.toBeInstanceOf(LocationNotFoundError);
+	});
+});
+
+describe('resolveLocation', () => {
+	it('is ambiguous when places with the same name are in different regions', async () => {
+		const { client } = clientWith(() => json({ results: [paris, parisTexas] }));
+
+		expect(await client.resolveLocation('Paris')).toEqual({
+			status: 'ambiguous',
+			candidates: [paris, parisTexas],
+		});
+	});
+
+	it('narrows the candidates with region and country qualifiers', async () => {
+		const { client } = clientWith(() => json({ results: [paris, parisTexas] }));
+
+		expect(await client.resolveLocation('Paris, Texas')).toEqual({
+			status: 'resolved',
+			location: parisTexas,
+		});
+		expect(await client.resolveLocation('paris, FR')).toEqual({
+			status: 'resolved',
+			location: paris,
+		});
+	});
+
+	it('ignores places whose name only resembles the one asked for', async () => {
+		const parisHill = { ...parisTexas, name: 'Paris Hill' };
+		const { client } = clientWith(() => json({ results: [paris, parisHill] }));
+
+		expect(await client.resolveLocation('Paris')).toEqual({ status: 'resolved', location: paris });
+	});
+
+	it('throws LocationNotFoundError when no place matches the qualifiers', async () => {
+		const { client } = clientWith(() => json({ results: [paris, parisTexas] }));
+
+		await expect(client.resolveLocation('Paris, Japan')).rejects.toBeInstanceOf(
+			LocationNotFoundError
+		);
+	});
+});
@@ -0,0 +1,472 @@
+/**
+ * Open-Meteo client shared by the weather tool and the weather workflow.
+ *
+ * Wraps the geocoding and forecast APIs with request timeouts, bounded retries,
+ * an in-process TTL cache and typed errors. Point it at a local stand-in with
+ * OPEN_METEO_BASE_URL (or the per-API OPEN_METEO_GEOCODING_URL / OPEN_METEO_FORECAST_URL).
+ * With MODEL_PROVIDER=mock it answers from the offline stand-in in open-meteo-fixture.ts.
+ */
+import { openMeteoFixtureFetch } from './open-meteo-fixture';
+
+const DEFAULT_GEOCODING_URL = 'https://geocoding-api.open-meteo.com';
+const DEFAULT_FORECAST_URL = 'https://api.open-meteo.com';
+
+const DEFAULT_TIMEOUT_MS = 8_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_CACHE_TTL_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 250;
+const DISAMBIGUATION_SEARCH_COUNT = 10;
+const MAX_CANDIDATES = 5;
+
+export const MAX_FORECAST_DAYS = 16;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * The requested location does not exist in the geocoding index
+ */
+export class LocationNotFoundError extends Error {
+	constructor(public readonly location: string) {
+		super(`Location '${location}' not found`);
+		this.name = 'LocationNotFoundError';
+	}
+}
+
+/**
+ * Open-Meteo could not be reached or answered with an error
+ */
+export class OpenMeteoUpstreamError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		options?: { cause?: unknown }
+	) {
+		super(message, options);
+		this.name = 'OpenMeteoUpstreamError';
+	}
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Coordinates {
+	latitude: number;
+	longitude: number;
+}
+
+export interface GeocodingResult extends Coordinates {
+	id?: number;
+	name: string;
+	country?: string;
+	country_code?: string;
+	admin1?: string;
+	population?: number;
+	timezone?: string;
+}
+
+/**
+ * Result of resolving a free-text location: either a single place or
+ * several equally plausible places the user has to choose from
+ */
+export type LocationResolution =
+	| { status: 'resolved'; location: GeocodingResult }
+	| { status: 'ambiguous'; candidates: GeocodingResult[] };
+
+export interface CurrentWeather {
+	time: string;
+	temperature: number;
+	feelsLike: number;
+	humidity: number;
+	windSpeed: number;
+	windGust: number;
+	weatherCode: number;
+}
+
+export interface DailyForecast {
+	date: string;
+	weatherCode: number;
+	maxTemp: number;
+	minTemp: number;
+	precipitationChance: number;
+	sunrise: string;
+	sunset: string;
+	uvIndex: number;
+}
+
+interface GeocodingResponse {
+	results?: GeocodingResult[];
+}
+
+interface CurrentWeatherResponse {
+	current: {
+		time: string;
+		temperature_2m: number;
+		apparent_temperature: number;
+		relative_humidity_2m: number;
+		wind_speed_10m: number;
+		wind_gusts_10m: number;
+		weather_code: number;
+	};
+}
+
+interface DailyForecastResponse {
+	daily: {
+		time: string[];
+		weather_code: number[];
+		temperature_2m_max: number[];
+		temperature_2m_min: number[];
+		precipitation_probability_max: (number | null)[];
+		sunrise: string[];
+		sunset: string[];
+		uv_index_max: (number | null)[];
+	};
+}
+
+export interface OpenMeteoClientOptions {
+	/** Base URL of the geocoding API */
+	geocodingUrl?: string;
+	/** Base URL of the forecast API */
+	forecastUrl?: string;
+	/** Per-request timeout */
+	timeoutMs?: number;
+	/** Retries after the first attempt for timeouts, network errors, 429 and 5xx */
+	retries?: number;
+	/** How long responses are cached (0 disables the cache) */
+	cacheTtlMs?: number;
+	/** fetch implementation (defaults to the global fetch, or the offline stand-in with mock models) */
+	fetch?: typeof fetch;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+class TtlCache<T> {
+	private entries = new Map<string, { value: T; expiresAt: number }>();
+
+	constructor(private readonly ttlMs: number) {}
+
+	get(key: string): T | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.value;
+	}
+
+	set(key: string, value: T): void {
+		if (this.ttlMs <= 0) return;
+		this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
+
+/**
+ * Cache key for a coordinate pair, rounded to ~1 km so nearby lookups share entries
+ */
+function coordinatesKey({ latitude, longitude }: Coordinates): string {
+	return `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Lowercase and strip accents so "San José" matches "San Jose"
+ */
+function normalizeName(value: string): string {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.trim()
+		.toLowerCase();
+}
+
+/**
+ * Split "Paris, Texas, United States" into the place name and its qualifiers
+ */
+function parseLocationQuery(location: string): { name: string; qualifiers: string[] } {
+	const [name, ...qualifiers] = location
+		.split(',')
+		.map((part) => part.trim())
+		.filter(Boolean);
+	return { name: name ?? location.trim(), qualifiers: qualifiers.map(normalizeName) };
+}
+
+/**
+ * Whether every qualifier matches the result's region, country or country code
+ */
+function matchesQualifiers(result: GeocodingResult, qualifiers: string[]): boolean {
+	const fields = [result.admin1, result.country, result.country_code]
+		.filter((field): field is string => Boolean(field))
+		.map(normalizeName);
+	return qualifiers.every((qualifier) =>
+		fields.some((field) => field === qualifier || field.startsWith(qualifier))
+	);
+}
+
+/**
+ * Human readable label that uniquely identifies a place, e.g. "Paris, Texas, United States".
+ * Passing the label back to `resolveLocation` resolves to the same place.
+ */
+export function formatLocationLabel(result: GeocodingResult): string {
+	return [result.name, result.admin1, result.country]
+		.filter((part, i, parts): part is string => Boolean(part) && parts.indexOf(part) === i)
+		.join(', ');
+}
+
+function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create an Open-Meteo client. Most code should use the shared `openMeteo` instance;
+ * create a separate client to override URLs, timeouts or caching.
+ */
+export function createOpenMeteoClient(options: OpenMeteoClientOptions = {}) {
+	const geocodingUrl = (
+		options.geocodingUrl ??
+		process.env.OPEN_METEO_GEOCODING_URL ??
+		process.env.OPEN_METEO_BASE_URL ??
+		DEFAULT_GEOCODING_URL
+	).replace(/\/$/, '');
+	const forecastUrl = (
+		options.forecastUrl ??
+		process.env.OPEN_METEO_FORECAST_URL ??
+		process.env.OPEN_METEO_BASE_URL ??
+		DEFAULT_FORECAST_URL
+	).replace(/\/$/, '');
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const retries = options.retries ?? DEFAULT_RETRIES;
+	// Picked per request, so the shared client follows MODEL_PROVIDER changes. Read from the
+	// environment rather than utils/mock-model, which imports the tools that import this client.
+	const fetchImpl: typeof fetch =
+		options.fetch ??
+		((input, init) =>
+			(process.env.MODEL_PROVIDER === 'mock' ? openMeteoFixtureFetch : fetch)(input, init));
+	const cache = new TtlCache<unknown>(options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS);
+
+	async function request<T>(url: string): Promise<T> {
+		let lastError: unknown;
+
+		for (let attempt = 0; attempt <= retries; attempt++) {
+			if (attempt > 0) {
+				await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+			}
+
+			let response: Response;
+			try {
+				response = await fetchImpl(url, { signal: AbortSignal.timeout(timeoutMs) });
+			} catch (error) {
+				// Timeouts and network failures are retried
+				lastError = error;
+				continue;
+			}
+
+			if (response.ok) {
+				return (await response.json()) as T;
+			}
+
+			const error = new OpenMeteoUpstreamError(
+				`Open-Meteo request failed with status ${response.status}`,
+				response.status
+			);
+			if (!isRetryableStatus(response.status)) {
+				throw error;
+			}
+			lastError = error;
+		}
+
+		if (lastError instanceof OpenMeteoUpstreamError) {
+			throw lastError;
+		}
+		throw new OpenMeteoUpstreamError('Open-Meteo is unreachable', undefined, { cause: lastError });
+	}
+
+	async function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+		const hit = cache.get(key);
+		if (hit !== undefined) return hit as T;
+
+		const value = await load();
+		cache.set(key, value);
+		return value;
+	}
+
+	/**
+	 * Search locations by name, best match first.
+	 * Throws LocationNotFoundError when nothing matches.
+	 */
+	async function searchLocations(name: string, count = 1): Promise<GeocodingResult[]> {
+		const query = name.trim();
+		const results = await cached(`geocode:${query.toLowerCase()}:${count}`, async () => {
+			const url = `${geocodingUrl}/v1/search?name=${encodeURIComponent(query)}&count=${count}`;
+			const data = await request<GeocodingResponse>(url);
+			return data.results ?? [];
+		});
+
+		if (results.length === 0) {
+			throw new LocationNotFoundError(name);
+		}
+		return results;
+	}
+
+	/**
+	 * Resolve a free-text location ("Paris", "Paris, Texas", "San José, Costa Rica").
+	 * Region/country qualifiers narrow the search; if several places with the same
+	 * name remain in different countries or regions, the result is ambiguous.
+	 */
+	async function resolveLocation(location: string): Promise<LocationResolution> {
+		const { name, qualifiers } = parseLocationQuery(location);
+		const results = await searchLocations(name, DISAMBIGUATION_SEARCH_COUNT);
+
+		const matching = results.filter((result) => matchesQualifiers(result, qualifiers));
+		if (matching.length === 0) {
+			throw new LocationNotFoundError(location);
+		}
+
+		// Only places whose name is the one asked for compete with the best match
+		const exactName = normalizeName(name);
+		const sameName = matching.filter((result) => normalizeName(result.name) === exactName);
+
+		const candidates: GeocodingResult[] = [];
+		const seenRegions = new Set<string>();
+		for (const result of sameName) {
+			const region = `${result.country_code ?? result.country}|${result.admin1 ?? ''}`;
+			if (seenRegions.has(region)) continue;
+			seenRegions.add(region);
+			candidates.push(result);
+		}
+
+		if (candidates.length > 1) {
+			return { status: 'ambiguous', candidates: candidates.slice(0, MAX_CANDIDATES) };
+		}
+		return { status: 'resolved', location: matching[0] };
+	}
+
+	return {
+		searchLocations,
+		resolveLocation,
+
+		/**
+		 * Resolve a location to its best match, honoring region/country qualifiers
+		 * but never asking the caller to disambiguate
+		 */
+		async geocode(location: string): Promise<GeocodingResult> {
+			const { name, qualifiers } = parseLocationQuery(location);
+			const results = await searchLocations(
+				name,
+				qualifiers.length > 0 ? DISAMBIGUATION_SEARCH_COUNT : 1
+			);
+			const match = results.find((result) => matchesQualifiers(result, qualifiers));
+			if (!match) {
+				throw new LocationNotFoundError(location);
+			}
+			return match;
+		},
+
+		/**
+		 * Current conditions at a location
+		 */
+		async getCurrentWeather(coordinates: Coordinates): Promise<CurrentWeather> {
+			return cached(`current:${coordinatesKey(coordinates)}`, async () => {
+				const url = `${forecastUrl}/v1/forecast?latitude=${coordinates.latitude}&longitude=${coordinates.longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code`;
+				const { current } = await request<CurrentWeatherResponse>(url);
+
+				return {
+					time: current.time,
+					temperature: current.temperature_2m,
+					feelsLike: current.apparent_temperature,
+					humidity: current.relative_humidity_2m,
+					windSpeed: current.wind_speed_10m,
+					windGust: current.wind_gusts_10m,
+					weatherCode: current.weather_code,
+				};
+			});
+		},
+
+		/**
+		 * Day-by-day forecast (1-16 days) in the location's local timezone
+		 */
+		async getDailyForecast(coordinates: Coordinates, days: number): Promise<DailyForecast[]> {
+			const forecastDays = Math.min(Math.max(Math.round(days), 1), MAX_FORECAST_DAYS);
+
+			return cached(`daily:${coordinatesKey(coordinates)}:${forecastDays}`, async () => {
+				const url = `${forecastUrl}/v1/forecast?latitude=${coordinates.latitude}&longitude=${coordinates.longitude}&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max,sunrise,sunset,uv_index_max&forecast_days=${forecastDays}&timezone=auto`;
+				const { daily } = await request<DailyForecastResponse>(url);
+
+				return daily.time.map((date, i) => ({
+					date,
+					weatherCode: daily.weather_code[i],
+					maxTemp: daily.temperature_2m_max[i],
+					minTemp: daily.temperature_2m_min[i],
+					precipitationChance: daily.precipitation_probability_max[i] ?? 0,
+					sunrise: daily.sunrise[i],
+					sunset: daily.sunset[i],
+					uvIndex: daily.uv_index_max[i] ?? 0,
+				}));
+			});
+		},
+
+		/**
+		 * Drop every cached response
+		 */
+		clearCache(): void {
+			cache.clear();
+		},
+	};
+}
+
+export type OpenMeteoClient = ReturnType<typeof createOpenMeteoClient>;
+
+/**
+ * Shared client instance (one cache per server process)
+ */
+export const openMeteo = createOpenMeteoClient();
+
+/**
+ * Human readable description of a WMO weather code
+ */
+export function getWeatherCondition(code: number): string {
+	const conditions: Record<number, string> = {
+		0: 'Clear sky',
+		1: 'Mainly clear',
+		2: 'Partly cloudy',
+		3: 'Overcast',
+		45: 'Foggy',
+		48: 'Depositing rime fog',
+		51: 'Light drizzle',
+		53: 'Moderate drizzle',
+		55: 'Dense drizzle',
+		56: 'Light freezing drizzle',
+		57: 'Dense freezing drizzle',
+		61: 'Slight rain',
+		63: 'Moderate rain',
+		65: 'Heavy rain',
+		66: 'Light freezing rain',
+		67: 'Heavy freezing rain',
+		71: 'Slight snow fall',
+		73: 'Moderate snow fall',
+		75: 'Heavy snow fall',
+		77: 'Snow grains',
+		80: 'Slight rain showers',
+		81: 'Moderate rain showers',
+		82: 'Violent rain showers',
+		85: 'Slight snow showers',
+		86: 'Heavy snow showers',
+		95: 'Thunderstorm',
+		96: 'Thunderstorm with slight hail',
+		99: 'Thunderstorm with heavy hail',
+	};
+	return conditions[code] || 'Unknown';
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { WebSearchResult } from './web-search';
+import { dedupeSources, normalizeQuery, normalizeUrl } from './web-search-cache';
+
+function source(url: string) {
+	return { url, title: url };
+}
+
+describe('normalizeQuery', () => {
+	it('ignores case, repeated whitespace and trailing punctuation', () => {
+		expect(normalizeQuery('  Paris   Weather?! ')).toBe('paris weather');
+		expect(normalizeQuery('paris weather')).toBe('paris weather');
+	});
+
+	it('keeps punctuation inside the query', () => {
+		expect(normalizeQuery('St. Petersburg, Russia.')).toBe('st. petersburg, russia');
+	});
+});
+
+describe('normalizeUrl', () => {
+	it('drops www., the fragment and the trailing slash', () => {
+		expect(normalizeUrl('https://www.example.com/guide/#tips')).toBe('https://example.com/guide');
+	});
+
+	it('drops utm_ parameters and keeps the others', () => {
+		expect(normalizeUrl('https://example.com/guide?utm_source=x&page=2&utm_medium=y')).toBe(
+			'https://example.com/guide?page=2'
+		);
+	});
+
+	it('returns invalid URLs trimmed', () => {
+		expect(normalizeUrl(' not a url ')).toBe('not a url');
+	});
+});
+
+describe('dedupeSources', () => {
+	it('leaves a result without repeated sources untouched', () => {
+		const result: WebSearchResult = {
+			text: 'Sunny [1] and warm [2].',
+			sources: [source('https://a.com'), source('https://b.com')],
+		};
+
+		expect(dedupeSources(result, new Set())).toEqual(result);
+	});
+
+	it('points citations of a repeated source at its first occurrence', () => {
+		const result = dedupeSources(
+			{
+				text: 'Sunny [1], warm [2] and dry [3].',
+				sources: [
+					source('https://a.com'),
+					source('https://www.a.com/?utm_source=news'),
+					source('https://b.com'),
+				],
+			},
+			new Set()
+		);
+
+		expect(result.text).toBe('Sunny [1], warm [1] and dry [2].');
+		expect(result.sources.map((s) => s.url)).toEqual(['https://a.com', 'https://b.com']);
+	});
+
+	it('drops sources seen earlier in the thread along with their citations', () => {
+		const result = dedupeSources(
+			{
+				text: 'Sunny [1], warm [2] and dry [3].',
+				sources: [source('https://a.com'), source('https://b.com'), source('https://c.com')],
+			},
+			new Set(['https://b.com'])
+		);
+
+		expect(result.text).toBe('Sunny [1], warm and dry [2].');
+		expect(result.sources.map((s) => s.url)).toEqual(['https://a.com', 'https://c.com']);
+	});
+
+	it('keeps citations that point past the source list', () => {
+		const result = dedupeSources(
+			{ text: 'Sunny [1] and warm [4].', sources: [source('https://a.com')] },
+			new Set()
+		);
+
+		expect(result.text).toBe('Sunny [1] and warm [4].');
+	});
+});
@@ -0,0 +1,253 @@
+/**
+ * Persistent cache and per-thread source de-duplication for web searches.
+ *
+ * Results are cached in LibSQL per provider and normalized query for
+ * WEB_SEARCH_CACHE_TTL_MINUTES (one day by default, 0 disables the cache), so the same
+ * question asked twice in a turn or in another thread does not pay for a second search.
+ * Sources already shown by an earlier search in the same thread are dropped from later
+ * results and the citations of the answer are renumbered to match.
+ */
+import { db } from '../db/client';
+import {
+	type WebSearchOptions,
+	type WebSearchProvider,
+	type WebSearchResult,
+	type WebSearchSource,
+	webSearchResultSchema,
+} from './web-search';
+
+const DEFAULT_TTL_MINUTES = 24 * 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CachedWebSearchResult extends WebSearchResult {
+	/** The result was served from the cache instead of the provider */
+	cached: boolean;
+	/** When the cached result was fetched from the provider */
+	cachedAt?: string;
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+const createTablesSql = [
+	`CREATE TABLE IF NOT EXISTS web_search_cache (
+	provider TEXT NOT NULL,
+	query_key TEXT NOT NULL,
+	result TEXT NOT NULL,
+	created_at TEXT NOT NULL,
+	PRIMARY KEY (provider, query_key)
+)`,
+	`CREATE TABLE IF NOT EXISTS web_search_thread_sources (
+	thread_id TEXT NOT NULL,
+	url TEXT NOT NULL,
+	created_at TEXT NOT NULL,
+	PRIMARY KEY (thread_id, url)
+)`,
+];
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Create the cache tables on first use.
+ * Safe to call many times: the work only happens once per process.
+ */
+export function ensureWebSearchCacheTables(): Promise<void> {
+	if (!initPromise) {
+		initPromise = db
+			.batch(createTablesSql, 'write')
+			.then(() => undefined)
+			.catch((error) => {
+				// Allow a retry on the next call instead of caching the failure
+				initPromise = null;
+				throw error;
+			});
+	}
+	return initPromise;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Cache key of a query: case, repeated whitespace and trailing punctuation do not change
+ * the search, so "Paris weather?" and "paris  weather" share an entry
+ */
+export function normalizeQuery(query: string): string {
+	return query
+		.toLowerCase()
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/[\s?!.,;:]+$/, '');
+}
+
+/**
+ * Identity of a source URL: the same page with or without `www.`, a fragment, tracking
+ * parameters or a trailing slash counts once
+ */
+export function normalizeUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		parsed.hash = '';
+		parsed.hostname = parsed.hostname.replace(/^www\./, '');
+		for (const key of [...parsed.searchParams.keys()]) {
+			if (key.startsWith('utm_')) parsed.searchParams.delete(key);
+		}
+		return parsed.toString().replace(/\/$/, '');
+	} catch {
+		return url.trim();
+	}
+}
+
+function cacheTtlMs(): number {
+	const minutes = Number(process.env.WEB_SEARCH_CACHE_TTL_MINUTES ?? DEFAULT_TTL_MINUTES);
+	return Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : 0;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+async function readCache(
+	provider: string,
+	queryKey: string,
+	ttlMs: number
+): Promise<CachedWebSearchResult | null> {
+	await ensureWebSearchCacheTables();
+	const { rows } = await db.execute({
+		sql: 'SELECT result, created_at FROM web_search_cache WHERE provider = ? AND query_key = ?',
+		args: [provider, queryKey],
+	});
+	const row = rows[0];
+	if (!row) return null;
+
+	const createdAt = String(row.created_at);
+	if (Date.now() - Date.parse(createdAt) > ttlMs) return null;
+
+	const result = webSearchResultSchema.safeParse(JSON.parse(String(row.result)));
+	return result.success ? { ...result.data, cached: true, cachedAt: createdAt } : null;
+}
+
+async function writeCache(
+	provider: string,
+	queryKey: string,
+	result: WebSearchResult
+): Promise<void> {
+	await ensureWebSearchCacheTables();
+	await db.execute({
+		sql: `INSERT INTO web_search_cache (provider, query_key, result, created_at) VALUES (?, ?, ?, ?)
+			ON CONFLICT (provider, query_key) DO UPDATE SET result = excluded.result, created_at = excluded.created_at`,
+		args: [provider, queryKey, JSON.stringify(result), new Date().toISOString()],
+	});
+}
+
+/**
+ * Search through the cache. Cache failures are logged and never fail the search:
+ * the provider is called as if there were no cache.
+ */
+export async function searchWithCache(
+	provider: WebSearchProvider,
+	query: string,
+	options?: WebSearchOptions
+): Promise<CachedWebSearchResult> {
+	const ttlMs = cacheTtlMs();
+	const queryKey = normalizeQuery(query);
+
+	if (ttlMs > 0) {
+		try {
+			const cached = await readCache(provider.id, queryKey, ttlMs);
+			if (cached) return cached;
+		} catch (error) {
+			console.error('Failed to read web search cache:', error);
+		}
+	}
+
+	const result = await provider.search(query, options);
+
+	if (ttlMs > 0) {
+		await writeCache(provider.id, queryKey, result).catch((error) => {
+			console.error('Failed to write web search cache:', error);
+		});
+	}
+	return { ...result, cached: false };
+}
+
+// ============================================================================
+// Thread de-duplication
+// ============================================================================
+
+/**
+ * Keep the first occurrence of each source and point the citations of the text at the
+ * kept list. Citations of a source dropped because an earlier search of the thread already
+ * showed it are removed; those of a repeated source within the result move to its first
+ * occurrence.
+ */
+export function dedupeSources<T extends WebSearchResult>(result: T, seenUrls: Set<string>): T {
+	const sources: WebSearchSource[] = [];
+	const keptIndex = new Map<string, number>();
+	// Old citation number -> new citation number, or null when the source was dropped
+	const renumber = new Map<number, number | null>();
+
+	result.sources.forEach((source, index) => {
+		const key = normalizeUrl(source.url);
+		const existing = keptIndex.get(key);
+		if (existing !== undefined) {
+			renumber.set(index + 1, existing);
+		} else if (seenUrls.has(key)) {
+			renumber.set(index + 1, null);
+		} else {
+			sources.push(source);
+			keptIndex.set(key, sources.length);
+			renumber.set(index + 1, sources.length);
+		}
+	});
+
+	const text = result.text.replace(/ ?\[(\d+)\]/g, (marker, digits: string) => {
+		const target = renumber.get(Number(digits));
+		if (target === undefined) return marker;
+		if (target === null) return '';
+		return marker.replace(digits, String(target));
+	});
+
+	return { ...result, text, sources };
+}
+
+/**
+ * Drop the sources an earlier search of the thread already returned and remember the rest.
+ * Without a thread the result is only de-duplicated within itself; storage errors are logged
+ * and leave the result untouched.
+ */
+export async function dedupeThreadSources<T extends WebSearchResult>(
+	threadId: string | undefined,
+	result: T
+): Promise<T> {
+	if (!threadId) return dedupeSources(result, new Set());
+
+	try {
+		await ensureWebSearchCacheTables();
+		const { rows } = await db.execute({
+			sql: 'SELECT url FROM web_search_thread_sources WHERE thread_id = ?',
+			args: [threadId],
+		});
+		const deduped = dedupeSources(result, new Set(rows.map((row) => String(row.url))));
+
+		if (deduped.sources.length > 0) {
+			const createdAt = new Date().toISOString();
+			await db.batch(
+				deduped.sources.map((source) => ({
+					sql: 'INSERT OR IGNORE INTO web_search_thread_sources (thread_id, url, created_at) VALUES (?, ?, ?)',
+					args: [threadId, normalizeUrl(source.url), createdAt],
+				})),
+				'write'
+			);
+		}
+		return deduped;
+	} catch (error) {
+		console.error('Failed to de-duplicate web search sources:', error);
+		return result;
+	}
+}
@@ -0,0 +1,181 @@
+import type { LanguageModelV3GenerateResult } from '@ai-sdk/provider';
+import { MockLanguageModelV3 } from 'ai/test';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createPerplexityProvider,
+	createSearxngProvider,
+	WebSearchUpstreamError,
+} from './web-search';
+
+const sonar = vi.hoisted(() => ({ result: undefined as unknown }));
+
+vi.mock('@ai-sdk/perplexity', () => ({
+	perplexity: () =>
+		new MockLanguageModelV3({
+			provider: 'perplexity',
+			modelId: 'sonar',
+			doGenerate: async () => sonar.result as LanguageModelV3GenerateResult,
+		}),
+}));
+
+function sonarResult(body: unknown): LanguageModelV3GenerateResult {
+	return {
+		content: [
+			{ type: 'text', text: 'Lisbon hosts a jazz festival [1].' },
+			{ type: 'source', sourceType: 'url', id: 's1', url: 'https://www.visitlisboa.com/events' },
+			{
+				type: 'source',
+				sourceType: 'url',
+				id: 's2',
+				url: 'https://timeout.com/lisbon',
+				title: 'Time Out Lisbon',
+			},
+		],
+		finishReason: { unified: 'stop', raw: 'stop' },
+		usage: {
+			inputTokens: { total: 10, noCache: 10, cacheRead: 0, cacheWrite: 0 },
+			outputTokens: { total: 10, text: 10, reasoning: 0 },
+		},
+		response: { body },
+		warnings: [],
+	};
+}
+
+function searxng(respond: () => Response | Promise<Response>) {
+	return createSearxngProvider({
+		url: 'http://searx.test/',
+		fetch: (async () => respond()) as unknown as typeof fetch,
+	});
+}
+
+describe('createSearxngProvider', () => {
+	it('numbers the top results like citations, after the instant answers', async () => {
+		const provider = searxng(() =>
+			Response.json({
+				answers: ['Plain answer', { answer: 'Object answer' }],
+				results: [
+					{ url: 'https://a.com/page', title: 'Page A', content: 'Snippet A' },
+					{ url: 'https://www.b.com/', title: null, publishedDate: '2026-10-01' },
+				],
+			})
+		);
+
+		expect(await provider.search('lisbon events')).toEqual({
+			text: [
+				'Plain answer',
+				'Object answer',
+				'Top web results for "lisbon events":',
+				'[1] Page A: Snippet A',
+				'[2] b.com',
+			].join('\n'),
+			sources: [
+				{ url: 'https://a.com/page', title: 'Page A', description: 'Snippet A' },
+				{ url: 'https://www.b.com/', title: 'b.com', lastUpdated: '2026-10-01' },
+			],
+		});
+	});
+
+	it('says so when there are no results', async () => {
+		const provider = searxng(() => Response.json({ results: [] }));
+
+		expect(await provider.search('nothing')).toEqual({
+			text: 'No web results found for "nothing".',
+			sources: [],
+		});
+	});
+
+	it('reports error statuses', async () => {
+		const provider = searxng(() => new Response('Too many requests', { status: 429 }));
+
+		await expect(provider.search('lisbon')).rejects.toMatchObject({
+			name: 'WebSearchUpstreamError',
+			status: 429,
+		});
+	});
+
+	it('reports responses that are not JSON or not search results', async () => {
+		const notJson = searxng(() => new Response('<html>captcha</html>'));
+		const wrongShape = searxng(() => Response.json({ results: [{ title: 'No URL' }] }));
+
+		await expect(notJson.search('lisbon')).rejects.toThrow(
+			'SearxNG returned an unexpected response'
+		);
+		await expect(wrongShape.search('lisbon')).rejects.toThrow(
+			'SearxNG returned an unexpected response'
+		);
+	});
+
+	it('reports an unreachable instance', async () => {
+		const provider = searxng(() => {
+			throw new TypeError('fetch failed');
+		});
+
+		const error = await provider.search('lisbon').catch((e) => e);
+
+		expect(error).toBeInstanceOf(WebSearchUpstreamError);
+		expect(error.message).toBe('SearxNG is unreachable');
+		expect(error.cause).toBeInstanceOf(TypeError);
+	});
+
+	it('requires a base URL', async () => {
+		const provider = createSearxngProvider({ url: '' });
+
+		await expect(provider.search('lisbon')).rejects.toThrow('SEARXNG_URL is not set');
+	});
+});
+
+describe('createPerplexityProvider', () => {
+	beforeEach(() => {
+		vi.stubEnv('MODEL_PROVIDER', '');
+		vi.stubEnv('MODEL_RECORDING', '');
+	});
+
+	it('takes the sources from the Sonar search results', async () => {
+		sonar.result = sonarResult({
+			search_results: [
+				{
+					url: 'https://www.visitlisboa.com/events',
+					title: 'Events in Lisbon',
+					snippet: 'Jazz festival',
+					last_updated: '2026-10-10',
+				},
+				{ url: 'https://timeout.com/lisbon', title: null },
+			],
+		});
+
+		expect(await createPerplexityProvider().search('lisbon events')).toEqual({
+			text: 'Lisbon hosts a jazz festival [1].',
+			sources: [
+				{
+					url: 'https://www.visitlisboa.com/events',
+					title: 'Events in Lisbon',
+					description: 'Jazz festival',
+					lastUpdated: '2026-10-10',
+				},
+				{ url: 'https://timeout.com/lisbon', title: 'timeout.com' },
+			],
+		});
+	});
+
+	it('falls back to the AI SDK sources without search results', async () => {
+		sonar.result = sonarResult({ citations: ['https://www.visitlisboa.com/events'] });
+
+		const { sources } = await createPerplexityProvider().search('lisbon events');
+
+		expect(sources).toEqual([
+			{ url: 'https://www.visitlisboa.com/events', title: 'visitlisboa.com' },
+			{ url: 'https://timeout.com/lisbon', title: 'Time Out Lisbon' },
+		]);
+	});
+
+	it('falls back to the AI SDK sources when the body is not a Sonar response', async () => {
+		sonar.result = sonarResult({ search_results: 'unexpected' });
+
+		const { sources } = await createPerplexityProvider().search('lisbon events');
+
+		expect(sources.map((source) => source.url)).toEqual([
+			'https://www.visitlisboa.com/events',
+			'https://timeout.com/lisbon',
+		]);
+	});
+});
@@ -0,0 +1,331 @@
+/**
+ * Web search backends for the web search tool.
+ *
+ * Every provider answers a query with `{ text, sources }`: an answer with inline citations
+ * ([1], [2], ...) and the sources they point to. Perplexity Sonar is used by default; set
+ * WEB_SEARCH_PROVIDER=searxng (with SEARXNG_URL) for a self-hosted SearxNG-style JSON endpoint,
+ * or WEB_SEARCH_PROVIDER=fixture for canned results that work offline (WEB_SEARCH_FIXTURES
+ * points at a JSON file of rules, see `WebSearchFixture`).
+ */
+import { readFileSync } from 'node:fs';
+import { perplexity } from '@ai-sdk/perplexity';
+import type { RequestContext } from '@mastra/core/request-context';
+import { generateText } from 'ai';
+import { z } from 'zod';
+import { withUsageTracking } from '../usage/tracking';
+import { useDevTools } from '../utils/dev-tools';
+import { withMockModel } from '../utils/mock-model';
+import { withRecording } from '../utils/recording';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_SEARXNG_RESULTS = 5;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * The search backend could not be reached or answered with an error
+ */
+export class WebSearchUpstreamError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		options?: { cause?: unknown }
+	) {
+		super(message, options);
+		this.name = 'WebSearchUpstreamError';
+	}
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WebSearchProviderId = 'perplexity' | 'searxng' | 'fixture';
+
+const WEB_SEARCH_PROVIDERS: WebSearchProviderId[] = ['perplexity', 'searxng', 'fixture'];
+
+const webSearchSourceSchema = z.object({
+	url: z.string().describe('Source URL'),
+	title: z.string().describe('Source title'),
+	description: z.string().optional().describe('Source snippet/description'),
+	lastUpdated: z.string().optional().describe('When the source was last updated'),
+});
+
+export const webSearchResultSchema = z.object({
+	text: z.string().describe('Search results with inline citations [1], [2], etc.'),
+	sources: z.array(webSearchSourceSchema).describe('Web sources used for the information'),
+});
+
+export type WebSearchSource = z.infer<typeof webSearchSourceSchema>;
+export type WebSearchResult = z.infer<typeof webSearchResultSchema>;
+
+export interface WebSearchOptions {
+	/** Request the search runs for, so model-backed providers can bill its token usage */
+	requestContext?: RequestContext;
+}
+
+export interface WebSearchProvider {
+	id: WebSearchProviderId;
+	search(query: string, options?: WebSearchOptions): Promise<WebSearchResult>;
+}
+
+function extractDomainFromUrl(url: string): string {
+	try {
+		const urlObj = new URL(url);
+		return urlObj.hostname.replace('www.', '');
+	} catch {
+		return url;
+	}
+}
+
+// ============================================================================
+// Perplexity
+// ============================================================================
+
+/**
+ * Part of the Sonar response body with the rich search results (the AI SDK sources only
+ * carry URLs)
+ */
+const perplexityBodySchema = z.object({
+	search_results: z
+		.array(
+			z.object({
+				url: z.string(),
+				title: z.string().nullish(),
+				snippet: z.string().nullish(),
+				last_updated: z.string().nullish(),
+			})
+		)
+		.optional(),
+});
+
+export function createPerplexityProvider(modelId = 'sonar'): WebSearchProvider {
+	const baseModel = withRecording(withMockModel(perplexity(modelId)));
+
+	return {
+		id: 'perplexity',
+		async search(query, { requestContext } = {}) {
+			const result = await generateText({
+				model: useDevTools(withUsageTracking(baseModel, requestContext, 'web-search')),
+				prompt: query,
+			});
+
+			const body = perplexityBodySchema.safeParse(result.response?.body);
+			const searchResults = body.success ? (body.data.search_results ?? []) : [];
+			const sources: WebSearchSource[] =
+				searchResults.length > 0
+					? searchResults.map((searchResult) => ({
+							url: searchResult.url,
+							title: searchResult.title || extractDomainFromUrl(searchResult.url),
+							description: searchResult.snippet ?? undefined,
+							lastUpdated: searchResult.last_updated ?? undefined,
+						}))
+					: result.sources.flatMap((source) =>
+							source.sourceType === 'url'
+								? [{ url: source.url, title: source.title || extractDomainFromUrl(source.url) }]
+								: []
+						);
+
+			return { text: result.text, sources };
+		},
+	};
+}
+
+// ============================================================================
+// SearxNG
+// ============================================================================
+
+const searxngResponseSchema = z.object({
+	answers: z.array(z.union([z.string(), z.object({ answer: z.string() })])).optional(),
+	results: z.array(
+		z.object({
+			url: z.string(),
+			title: z.string().nullish(),
+			content: z.string().nullish(),
+			publishedDate: z.string().nullish(),
+		})
+	),
+});
+
+export interface SearxngProviderOptions {
+	/** Base URL of the instance; `/search?format=json` is appended */
+	url?: string;
+	/** Per-request timeout */
+	timeoutMs?: number;
+	/** fetch implementation (defaults to the global fetch) */
+	fetch?: typeof fetch;
+}
+
+/**
+ * SearxNG returns results, not an answer: the text lists the top results with their
+ * snippets, numbered like the citations of the other providers
+ */
+function searxngText(query: string, answers: string[], sources: WebSearchSource[]): string {
+	if (sources.length === 0) return `No web results found for "${query}".`;
+
+	const lines = sources.map(
+		(source, index) =>
+			`[${index + 1}] ${source.title}${source.description ? `: ${source.description}` : ''}`
+	);
+	return [...answers, `Top web results for "${query}":`, ...lines].join('\n');
+}
+
+export function createSearxngProvider(options: SearxngProviderOptions = {}): WebSearchProvider {
+	const baseUrl = (options.url ?? process.env.SEARXNG_URL ?? '').replace(/\/$/, '');
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const fetchImpl = options.fetch ?? fetch;
+
+	return {
+		id: 'searxng',
+		async search(query) {
+			if (!baseUrl) {
+				throw new WebSearchUpstreamError('SEARXNG_URL is not set');
+			}
+
+			let response: Response;
+			try {
+				response = await fetchImpl(`${baseUrl}/search?q=${encodeURIComponent(query)}&format=json`, {
+					signal: AbortSignal.timeout(timeoutMs),
+				});
+			} catch (error) {
+				throw new WebSearchUpstreamError('SearxNG is unreachable', undefined, { cause: error });
+			}
+			if (!response.ok) {
+				throw new WebSearchUpstreamError(
+					`SearxNG request failed with status ${response.status}`,
+					response.status
+				);
+			}
+
+			const data = searxngResponseSchema.safeParse(await response.json().catch(() => null));
+			if (!data.success) {
+				throw new WebSearchUpstreamError('SearxNG returned an unexpected response', undefined, {
+					cause: data.error,
+				});
+			}
+
+			const sources: WebSearchSource[] = data.data.results
+				.slice(0, MAX_SEARXNG_RESULTS)
+				.map((result) => ({
+					url: result.url,
+					title: result.title || extractDomainFromUrl(result.url),
+					description: result.content ?? undefined,
+					lastUpdated: result.publishedDate ?? undefined,
+				}));
+			const answers = (data.data.answers ?? []).map((answer) =>
+				typeof answer === 'string' ? answer : answer.answer
+			);
+
+			return { text: searxngText(query, answers, sources), sources };
+		},
+	};
+}
+
+// ============================================================================
+// Fixture (offline)
+// ============================================================================
+
+/**
+ * Canned search result. The first fixture whose `match` (case-insensitive regular expression)
+ * matches the query is returned; without a match a generic result is built from the query.
+ */
+export interface WebSearchFixture extends WebSearchResult {
+	match: string;
+}
+
+function isValidPattern(pattern: string): boolean {
+	try {
+		new RegExp(pattern, 'i');
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+const webSearchFixturesSchema = z.array(
+	webSearchResultSchema.extend({
+		match: z.string().refine(isValidPattern, { error: 'Invalid regular expression' }),
+	})
+);
+
+function loadFixtures(path: string | undefined): WebSearchFixture[] {
+	if (!path) return [];
+	try {
+		const fixtures = webSearchFixturesSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+		if (!fixtures.success) {
+			console.error(`Ignoring invalid web search fixtures in ${path}:`, fixtures.error.issues);
+			return [];
+		}
+		return fixtures.data;
+	} catch (error) {
+		console.error(`Failed to load web search fixtures ${path}:`, error);
+		return [];
+	}
+}
+
+function genericFixture(query: string): WebSearchResult {
+	const slug = encodeURIComponent(query.toLowerCase().replace(/\s+/g, '-')).slice(0, 60);
+	return {
+		text: `Offline search results for "${query}" [1]. Live web search is disabled while WEB_SEARCH_PROVIDER=fixture [2].`,
+		sources: [
+			{
+				url: `https://example.com/search/${slug}`,
+				title: `Fixture result for ${query}`,
+				description: 'Canned source returned by the offline search provider.',
+			},
+			{
+				url: 'https://example.org/offline-mode',
+				title: 'Offline mode',
+				description: 'Set WEB_SEARCH_PROVIDER to perplexity or searxng to search the web.',
+			},
+		],
+	};
+}
+
+export function createFixtureProvider(
+	fixtures: WebSearchFixture[] = loadFixtures(process.env.WEB_SEARCH_FIXTURES)
+): WebSearchProvider {
+	// Compiled once here rather than on every search
+	const patterns = fixtures.map((fixture) => ({
+		fixture,
+		pattern: new RegExp(fixture.match, 'i'),
+	}));
+
+	return {
+		id: 'fixture',
+		async search(query) {
+			const fixture = patterns.find(({ pattern }) => pattern.test(query))?.fixture;
+			if (!fixture) return genericFixture(query);
+
+			const { text, sources } = fixture;
+			return { text, sources };
+		},
+	};
+}
+
+// ============================================================================
+// Shared instance
+// ============================================================================
+
+function isWebSearchProviderId(value: unknown): value is WebSearchProviderId {
+	return WEB_SEARCH_PROVIDERS.includes(value as WebSearchProviderId);
+}
+
+export function createWebSearchProvider(
+	provider: WebSearchProviderId = isWebSearchProviderId(process.env.WEB_SEARCH_PROVIDER)
+		? process.env.WEB_SEARCH_PROVIDER
+		: 'perplexity'
+): WebSearchProvider {
+	switch (provider) {
+		case 'searxng':
+			return createSearxngProvider();
+		case 'fixture':
+			return createFixtureProvider();
+		default:
+			return createPerplexityProvider();
+	}
+}
+
+export const webSearch = createWebSearchProvider();
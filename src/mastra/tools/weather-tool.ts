@@ -1,102 +1,153 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import {
+	formatLocationLabel,
+	type GeocodingResult,
+	getWeatherCondition,
+	MAX_FORECAST_DAYS,
+	openMeteo,
+} from '../services/open-meteo';
 
-interface GeocodingResponse {
-	results: {
-		latitude: number;
-		longitude: number;
-		name: string;
-	}[];
-}
-interface WeatherResponse {
-	current: {
-		time: string;
-		temperature_2m: number;
-		apparent_temperature: number;
-		relative_humidity_2m: number;
-		wind_speed_10m: number;
-		wind_gusts_10m: number;
-		weather_code: number;
-	};
-}
+const DEFAULT_FORECAST_DAYS = 7;
+
+const currentWeatherSchema = z.object({
+	mode: z.literal('current'),
+	temperature: z.number(),
+	feelsLike: z.number(),
+	humidity: z.number(),
+	windSpeed: z.number(),
+	windGust: z.number(),
+	conditions: z.string(),
+	location: z.string(),
+});
+
+const forecastDaySchema = z.object({
+	date: z.string(),
+	conditions: z.string(),
+	maxTemp: z.number(),
+	minTemp: z.number(),
+	precipitationChance: z.number(),
+	sunrise: z.string(),
+	sunset: z.string(),
+	uvIndex: z.number(),
+});
+
+const forecastWeatherSchema = z.object({
+	mode: z.literal('forecast'),
+	location: z.string(),
+	days: z.array(forecastDaySchema),
+});
+
+const locationCandidateSchema = z.object({
+	label: z.string().describe('Unambiguous location to pass back as `location`'),
+	name: z.string(),
+	region: z.string().optional(),
+	country: z.string().optional(),
+	countryCode: z.string().optional(),
+	latitude: z.number(),
+	longitude: z.number(),
+	population: z.number().optional(),
+});
+
+const disambiguationSchema = z.object({
+	mode: z.literal('disambiguation'),
+	query: z.string(),
+	candidates: z.array(locationCandidateSchema),
+});
+
+export const weatherOutputSchema = z.discriminatedUnion('mode', [
+	currentWeatherSchema,
+	forecastWeatherSchema,
+	disambiguationSchema,
+]);
 
 export const weatherTool = createTool({
 	id: 'get-weather',
-	description: 'Get current weather for a location',
+	description: `Get weather for a location.
+    Use mode "current" (default) for the conditions right now, or mode "forecast" for a
+    day-by-day forecast of up to ${MAX_FORECAST_DAYS} days (min/max temperature, precipitation
+    probability, sunrise/sunset and UV index).
+    If the city name is ambiguous (e.g. "Paris" or "San José"), returns mode "disambiguation"
+    with a list of candidates instead of weather: ask the user which one they mean and call
+    again with the chosen candidate's label.`,
 	inputSchema: z.object({
-		location: z.string().describe('City name'),
-	}),
-	outputSchema: z.object({
-		temperature: z.number(),
-		feelsLike: z.number(),
-		humidity: z.number(),
-		windSpeed: z.number(),
-		windGust: z.number(),
-		conditions: z.string(),
-		location: z.string(),
+		location: z
+			.string()
+			.describe(
+				'City name, optionally followed by region and/or country (e.g. "Paris, Texas" or "San José, Costa Rica")'
+			),
+		mode: z
+			.enum(['current', 'forecast'])
+			.optional()
+			.describe('"current" for conditions right now, "forecast" for upcoming days'),
+		days: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_FORECAST_DAYS)
+			.optional()
+			.describe(
+				`Number of forecast days (1-${MAX_FORECAST_DAYS}, default ${DEFAULT_FORECAST_DAYS}). Only used in forecast mode`
+			),
 	}),
+	outputSchema: weatherOutputSchema,
 	execute: async (inputData) => {
-		return await getWeather(inputData.location);
+		const resolution = await openMeteo.resolveLocation(inputData.location);
+		if (resolution.status === 'ambiguous') {
+			return {
+				mode: 'disambiguation' as const,
+				query: inputData.location,
+				candidates: resolution.candidates.map(toLocationCandidate),
+			};
+		}
+
+		if (inputData.mode === 'forecast') {
+			return await getForecast(resolution.location, inputData.days ?? DEFAULT_FORECAST_DAYS);
+		}
+		return await getWeather(resolution.location);
 	},
 });
 
-const getWeather = async (location: string) => {
-	const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`;
-	const geocodingResponse = await fetch(geocodingUrl);
-	const geocodingData = (await geocodingResponse.json()) as GeocodingResponse;
-
-	if (!geocodingData.results?.[0]) {
-		throw new Error(`Location '${location}' not found`);
-	}
-
-	const { latitude, longitude, name } = geocodingData.results[0];
-
-	const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code`;
+const toLocationCandidate = (place: GeocodingResult): z.infer<typeof locationCandidateSchema> => ({
+	label: formatLocationLabel(place),
+	name: place.name,
+	region: place.admin1,
+	country: place.country,
+	countryCode: place.country_code,
+	latitude: place.latitude,
+	longitude: place.longitude,
+	population: place.population,
+});
 
-	const response = await fetch(weatherUrl);
-	const data = (await response.json()) as WeatherResponse;
+const getWeather = async (
+	place: GeocodingResult
+): Promise<z.infer<typeof currentWeatherSchema>> => {
+	const current = await openMeteo.getCurrentWeather(place);
 
 	return {
-		temperature: data.current.temperature_2m,
-		feelsLike: data.current.apparent_temperature,
-		humidity: data.current.relative_humidity_2m,
-		windSpeed: data.current.wind_speed_10m,
-		windGust: data.current.wind_gusts_10m,
-		conditions: getWeatherCondition(data.current.weather_code),
-		location: name,
+		mode: 'current',
+		temperature: current.temperature,
+		feelsLike: current.feelsLike,
+		humidity: current.humidity,
+		windSpeed: current.windSpeed,
+		windGust: current.windGust,
+		conditions: getWeatherCondition(current.weatherCode),
+		location: place.name,
 	};
 };
 
-function getWeatherCondition(code: number): string {
-	const conditions: Record<number, string> = {
-		0: 'Clear sky',
-		1: 'Mainly clear',
-		2: 'Partly cloudy',
-		3: 'Overcast',
-		45: 'Foggy',
-		48: 'Depositing rime fog',
-		51: 'Light drizzle',
-		53: 'Moderate drizzle',
-		55: 'Dense drizzle',
-		56: 'Light freezing drizzle',
-		57: 'Dense freezing drizzle',
-		61: 'Slight rain',
-		63: 'Moderate rain',
-		65: 'Heavy rain',
-		66: 'Light freezing rain',
-		67: 'Heavy freezing rain',
-		71: 'Slight snow fall',
-		73: 'Moderate snow fall',
-		75: 'Heavy snow fall',
-		77: 'Snow grains',
-		80: 'Slight rain showers',
-		81: 'Moderate rain showers',
-		82: 'Violent rain showers',
-		85: 'Slight snow showers',
-		86: 'Heavy snow showers',
-		95: 'Thunderstorm',
-		96: 'Thunderstorm with slight hail',
-		99: 'Thunderstorm with heavy hail',
+const getForecast = async (
+	place: GeocodingResult,
+	days: number
+): Promise<z.infer<typeof forecastWeatherSchema>> => {
+	const forecast = await openMeteo.getDailyForecast(place, days);
+
+	return {
+		mode: 'forecast',
+		location: place.name,
+		days: forecast.map(({ weatherCode, ...day }) => ({
+			...day,
+			conditions: getWeatherCondition(weatherCode),
+		})),
 	};
-	return conditions[code] || 'Unknown';
-}
+};
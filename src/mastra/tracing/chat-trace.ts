@@ -0,0 +1,93 @@
+import { TransformStream } from 'node:stream/web';
+import type { Mastra } from '@mastra/core/mastra';
+import { type AnySpan, SpanType, type TracingContext } from '@mastra/core/observability';
+import type { RequestContext } from '@mastra/core/request-context';
+import type { ChunkType } from '@mastra/core/stream';
+
+/**
+ * What a chat trace is recorded for: a new message, or the answer to a tool approval
+ * that resumes a suspended run
+ */
+export type ChatTraceKind = 'chat' | 'approval';
+
+export interface ChatTraceOptions {
+	kind: ChatTraceKind;
+	userId: string | undefined;
+	threadId: string | undefined;
+	/** Network run; an approval resumes the run of the message it belongs to */
+	runId: string;
+	input?: unknown;
+	requestContext: RequestContext;
+}
+
+/**
+ * Open the root span of a /chat request. The network run is started under it, so routing
+ * decisions, sub-agent runs, tool calls and model calls all land in one trace.
+ * The ids go in the metadata, which the storage exporter copies into indexed columns.
+ */
+export function startChatTrace(mastra: Mastra, options: ChatTraceOptions): AnySpan | undefined {
+	const { kind, userId, threadId, runId, input, requestContext } = options;
+	const instance = mastra.observability.getSelectedInstance({ requestContext });
+
+	return instance?.startSpan({
+		type: SpanType.GENERIC,
+		name: kind === 'chat' ? 'chat request' : 'chat approval',
+		input,
+		metadata: { userId, resourceId: userId, threadId, runId, kind },
+		requestContext,
+	});
+}
+
+export function chatTracingContext(span: AnySpan | undefined): TracingContext {
+	return { currentSpan: span };
+}
+
+/**
+ * The network does not trace its routing model calls, so each routing step is recorded from
+ * the stream as a model generation under the request span, with its latency, token usage and
+ * decision. The request span ends when the network stream finishes, with the final answer as
+ * output, so its duration covers the whole streamed answer.
+ */
+export function traceChatStream(span: AnySpan | undefined) {
+	let routingSpan: AnySpan | undefined;
+
+	return new TransformStream<ChunkType, ChunkType>({
+		transform(chunk, controller) {
+			if (chunk.type === 'routing-agent-start') {
+				routingSpan = span?.createChildSpan({
+					type: SpanType.MODEL_GENERATION,
+					name: 'routing decision',
+					input: chunk.payload.inputData,
+				});
+			}
+			if (chunk.type === 'routing-agent-end') {
+				const { primitiveId, primitiveType, selectionReason, iteration, usage } = chunk.payload;
+				routingSpan?.end({
+					output: { primitiveId, primitiveType, selectionReason, iteration },
+					attributes: {
+						usage: { inputTokens: usage?.inputTokens, outputTokens: usage?.outputTokens },
+					},
+				});
+				routingSpan = undefined;
+			}
+			if (chunk.type === 'network-execution-event-finish') {
+				span?.update({ output: chunk.payload.result });
+			}
+			controller.enqueue(chunk);
+		},
+		flush() {
+			routingSpan?.end();
+			span?.end();
+		},
+	});
+}
+
+/**
+ * Close the span of a request that failed before streaming
+ */
+export function failChatTrace(span: AnySpan | undefined, error: unknown) {
+	span?.error({
+		error: error instanceof Error ? error : new Error(String(error)),
+		endSpan: true,
+	});
+}
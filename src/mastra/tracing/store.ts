@@ -0,0 +1,192 @@
+import type { Mastra } from '@mastra/core/mastra';
+import { SpanType } from '@mastra/core/observability';
+import type { SpanRecord } from '@mastra/core/storage';
+import type { ChatTraceKind } from './chat-trace';
+
+const MAX_RUNS = 50;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TraceStatus = 'success' | 'error' | 'running';
+
+/**
+ * One /chat request of a thread: a new message or the answer to a tool approval
+ */
+export interface TraceRun {
+	traceId: string;
+	/** Network run; a message and the approvals that resume it share it */
+	runId: string | null;
+	kind: ChatTraceKind;
+	startedAt: string;
+	endedAt: string | null;
+	durationMs: number | null;
+	status: TraceStatus;
+}
+
+export interface TraceSpan {
+	spanId: string;
+	parentSpanId: string | null;
+	name: string;
+	type: SpanType;
+	startedAt: string;
+	endedAt: string | null;
+	durationMs: number | null;
+	/** Model of model generation spans */
+	model?: string;
+	inputTokens?: number;
+	outputTokens?: number;
+	error?: string;
+}
+
+export interface RunTrace {
+	run: TraceRun;
+	/** Every span of the request, oldest first, with the network and sub-agent traces under the request span */
+	spans: TraceSpan[];
+	totals: { inputTokens: number; outputTokens: number; modelCalls: number; toolCalls: number };
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/** Streaming chunks add one span per chunk without telling anything the model step does not */
+const HIDDEN_SPAN_TYPES = new Set<SpanType>([SpanType.MODEL_CHUNK]);
+
+function durationMs(span: SpanRecord): number | null {
+	return span.endedAt ? span.endedAt.getTime() - span.startedAt.getTime() : null;
+}
+
+function spanStatus(span: SpanRecord): TraceStatus {
+	if (span.error) return 'error';
+	return span.endedAt ? 'success' : 'running';
+}
+
+function errorMessage(error: unknown): string | undefined {
+	if (!error) return undefined;
+	if (typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+		return error.message;
+	}
+	return String(error);
+}
+
+function toTraceRun(span: SpanRecord): TraceRun {
+	return {
+		traceId: span.traceId,
+		runId: span.runId ?? null,
+		kind: span.metadata?.kind === 'approval' ? 'approval' : 'chat',
+		startedAt: span.startedAt.toISOString(),
+		endedAt: span.endedAt?.toISOString() ?? null,
+		durationMs: durationMs(span),
+		status: spanStatus(span),
+	};
+}
+
+function toTraceSpan(span: SpanRecord, parentSpanId: string | null): TraceSpan {
+	const traceSpan: TraceSpan = {
+		spanId: span.spanId,
+		parentSpanId,
+		name: span.name,
+		type: span.spanType,
+		startedAt: span.startedAt.toISOString(),
+		endedAt: span.endedAt?.toISOString() ?? null,
+		durationMs: durationMs(span),
+		error: errorMessage(span.error),
+	};
+
+	if (span.spanType === SpanType.MODEL_GENERATION) {
+		const attributes = span.attributes ?? {};
+		const usage = attributes.usage as { inputTokens?: number; outputTokens?: number } | undefined;
+		traceSpan.model = typeof attributes.model === 'string' ? attributes.model : undefined;
+		traceSpan.inputTokens = usage?.inputTokens ?? 0;
+		traceSpan.outputTokens = usage?.outputTokens ?? 0;
+	}
+	return traceSpan;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+async function getObservabilityStore(mastra: Mastra) {
+	const store = await mastra.getStorage()?.getStore('observability');
+	if (!store) throw new Error('Trace storage is not configured');
+	return store;
+}
+
+/**
+ * Requests traced for a thread of the user, newest first
+ */
+export async function listThreadRuns(
+	mastra: Mastra,
+	userId: string,
+	threadId: string
+): Promise<TraceRun[]> {
+	const store = await getObservabilityStore(mastra);
+	// Only the /chat request spans are generic root spans
+	const { spans } = await store.listTraces({
+		filters: { userId, threadId, spanType: SpanType.GENERIC },
+		pagination: { page: 0, perPage: MAX_RUNS },
+		orderBy: { field: 'startedAt', direction: 'DESC' },
+	});
+	return spans.map(toTraceRun);
+}
+
+/**
+ * Waterfall of one request, or null when it does not exist or belongs to another user.
+ * The network and each sub-agent run are traced separately by Mastra with the request's run
+ * id, so the traces of that run that started while the request was open are hung under it.
+ */
+export async function getRunTrace(
+	mastra: Mastra,
+	userId: string,
+	traceId: string
+): Promise<RunTrace | null> {
+	const store = await getObservabilityStore(mastra);
+	const trace = await store.getTrace({ traceId });
+	const root = trace?.spans.find((span: SpanRecord) => !span.parentSpanId);
+	if (!trace || !root || root.userId !== userId) return null;
+
+	const records: Array<{ span: SpanRecord; parentSpanId: string | null }> = trace.spans.map(
+		(span: SpanRecord) => ({ span, parentSpanId: span.parentSpanId ?? null })
+	);
+
+	if (root.runId) {
+		const { spans: runRoots } = await store.listTraces({
+			filters: {
+				runId: root.runId,
+				startedAt: { start: root.startedAt, end: root.endedAt ?? new Date() },
+			},
+			pagination: { page: 0, perPage: MAX_RUNS },
+			orderBy: { field: 'startedAt', direction: 'ASC' },
+		});
+
+		for (const runRoot of runRoots) {
+			if (runRoot.traceId === traceId) continue;
+			const runTrace = await store.getTrace({ traceId: runRoot.traceId });
+			for (const span of runTrace?.spans ?? []) {
+				records.push({ span, parentSpanId: span.parentSpanId ?? root.spanId });
+			}
+		}
+	}
+
+	const spans = records
+		.filter(({ span }) => !HIDDEN_SPAN_TYPES.has(span.spanType))
+		.sort((a, b) => a.span.startedAt.getTime() - b.span.startedAt.getTime())
+		.map(({ span, parentSpanId }) => toTraceSpan(span, parentSpanId));
+
+	const totals = { inputTokens: 0, outputTokens: 0, modelCalls: 0, toolCalls: 0 };
+	for (const span of spans) {
+		if (span.type === SpanType.MODEL_GENERATION) {
+			totals.modelCalls += 1;
+			totals.inputTokens += span.inputTokens ?? 0;
+			totals.outputTokens += span.outputTokens ?? 0;
+		}
+		if (span.type === SpanType.TOOL_CALL || span.type === SpanType.MCP_TOOL_CALL) {
+			totals.toolCalls += 1;
+		}
+	}
+
+	return { run: toTraceRun(root), spans, totals };
+}
@@ -0,0 +1,120 @@
+import type { MastraMemory } from '@mastra/core/memory';
+import { MASTRA_RESOURCE_ID_KEY, type RequestContext } from '@mastra/core/request-context';
+import { z } from 'zod';
+
+/**
+ * What the assistant remembers about a user across threads. Stored as Mastra working memory
+ * scoped to the resource (the user), so every thread reads and updates the same profile.
+ */
+export const travelProfileSchema = z.object({
+	homeAirport: z
+		.string()
+		.optional()
+		.describe('Airport the user usually flies from, as an IATA code or city, e.g. "MAD"'),
+	budget: z
+		.string()
+		.optional()
+		.describe('Usual trip budget with currency and what it covers, e.g. "€2000 per trip"'),
+	travelParty: z
+		.string()
+		.optional()
+		.describe('Who usually travels with the user, e.g. "partner and two kids (5 and 8)"'),
+	dietaryNeeds: z
+		.array(z.string())
+		.optional()
+		.describe('Diets and food allergies, e.g. ["vegetarian", "nut allergy"]'),
+	mobility: z
+		.string()
+		.optional()
+		.describe('Accessibility or mobility needs, e.g. "wheelchair user, avoid stairs"'),
+	preferredClimates: z
+		.array(z.string())
+		.optional()
+		.describe('Weather the user enjoys on trips, e.g. ["warm", "dry"]'),
+	pastTrips: z
+		.array(z.string())
+		.optional()
+		.describe('Trips already taken, with year and impressions, e.g. ["Lisbon 2023, loved it"]'),
+});
+
+export type TravelProfile = z.infer<typeof travelProfileSchema>;
+
+/**
+ * Parse the stored working memory; anything unreadable counts as an empty profile
+ */
+function parseProfile(workingMemory: string | null): TravelProfile {
+	if (!workingMemory) return {};
+	try {
+		const result = travelProfileSchema.safeParse(JSON.parse(workingMemory));
+		return result.success ? result.data : {};
+	} catch {
+		return {};
+	}
+}
+
+/** Fields that hold no value, such as empty strings or lists, are left out */
+function isEmptyValue(value: unknown): boolean {
+	return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function compactProfile(profile: TravelProfile): TravelProfile {
+	return Object.fromEntries(
+		Object.entries(profile).filter(([, value]) => !isEmptyValue(value))
+	) as TravelProfile;
+}
+
+export async function getTravelProfile(
+	memory: MastraMemory,
+	resourceId: string
+): Promise<TravelProfile> {
+	// Resource-scoped working memory ignores the thread id
+	const workingMemory = await memory.getWorkingMemory({ threadId: '', resourceId });
+	return parseProfile(workingMemory);
+}
+
+/**
+ * Replace the whole profile, as edited by the user on the profile page
+ */
+export async function saveTravelProfile(
+	memory: MastraMemory,
+	resourceId: string,
+	profile: TravelProfile
+): Promise<TravelProfile> {
+	const compacted = compactProfile(profile);
+	await memory.updateWorkingMemory({
+		threadId: '',
+		resourceId,
+		workingMemory: JSON.stringify(compacted),
+	});
+	return compacted;
+}
+
+/**
+ * Append the signed-in user's travel profile to agent instructions.
+ * Network routing leaves Mastra's own working memory prompt out, so the profile and the
+ * rules for updating it are added here, read fresh on every routing step.
+ */
+export async function withTravelProfile(
+	memory: MastraMemory,
+	requestContext: RequestContext | undefined,
+	instructions: string
+): Promise<string> {
+	const resourceId = requestContext?.get(MASTRA_RESOURCE_ID_KEY);
+	if (typeof resourceId !== 'string') return instructions;
+
+	const profile = await getTravelProfile(memory, resourceId);
+	const known =
+		Object.keys(profile).length > 0
+			? `What you remember about this user from earlier conversations:\n${JSON.stringify(profile, null, 2)}`
+			: 'You do not know anything about this user yet.';
+
+	return `${instructions}
+## Travel profile
+${known}
+
+Use the profile to personalize answers without asking again, and include the relevant parts
+(budget, travel party, dietary needs, mobility) in the prompts you send to other agents.
+When the user shares or changes any of these details, first call the updateWorkingMemory tool
+with only the fields that changed, then continue with the task.
+`;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCost, getContextWindow } from './pricing';
+
+const noTokens = { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0 };
+
+describe('estimateCost', () => {
+	it('prices input and output per million tokens', () => {
+		const cost = estimateCost('gemini-2.5-flash', {
+			...noTokens,
+			inputTokens: 1_000_000,
+			outputTokens: 1_000_000,
+		});
+
+		expect(cost).toBeCloseTo(0.3 + 2.5);
+	});
+
+	it('bills cached input at the cached rate instead of the input rate', () => {
+		const cost = estimateCost('gemini-2.5-flash', {
+			...noTokens,
+			inputTokens: 1_000_000,
+			cachedInputTokens: 400_000,
+		});
+
+		expect(cost).toBeCloseTo(0.6 * 0.3 + 0.4 * 0.03);
+	});
+
+	it('never bills negative uncached input when the counts disagree', () => {
+		const cost = estimateCost('gemini-2.5-flash', {
+			...noTokens,
+			inputTokens: 100_000,
+			cachedInputTokens: 200_000,
+		});
+
+		expect(cost).toBeCloseTo(0.2 * 0.03);
+	});
+
+	it('does not bill reasoning tokens on top of the output tokens that include them', () => {
+		const tokens = { ...noTokens, outputTokens: 1_000_000 };
+
+		expect(estimateCost('gemini-2.5-pro', { ...tokens, reasoningTokens: 600_000 })).toBe(
+			estimateCost('gemini-2.5-pro', tokens)
+		);
+	});
+
+	it('returns null for a model without a known price', () => {
+		expect(estimateCost('unknown-model', { ...noTokens, inputTokens: 1000 })).toBeNull();
+		expect(getContextWindow('unknown-model')).toBeNull();
+	});
+});
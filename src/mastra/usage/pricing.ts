@@ -0,0 +1,56 @@
+/**
+ * Token prices in USD per million tokens, standard tier for prompts up to 200k tokens.
+ * tokenlens has no entry for most of these models, so the app keeps its own table.
+ * Perplexity's per-request search fee is not included.
+ */
+interface ModelPricing {
+	input: number;
+	cachedInput: number;
+	/** Reasoning (thinking) tokens are billed as output */
+	output: number;
+	contextWindow: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+	'gemini-3-flash-preview': {
+		input: 0.5,
+		cachedInput: 0.05,
+		output: 3,
+		contextWindow: 1_048_576,
+	},
+	'gemini-2.5-flash': { input: 0.3, cachedInput: 0.03, output: 2.5, contextWindow: 1_048_576 },
+	'gemini-2.5-flash-lite': { input: 0.1, cachedInput: 0.01, output: 0.4, contextWindow: 1_048_576 },
+	'gemini-2.5-pro': { input: 1.25, cachedInput: 0.125, output: 10, contextWindow: 1_048_576 },
+	sonar: { input: 1, cachedInput: 1, output: 1, contextWindow: 127_072 },
+};
+
+const PER_MILLION = 1_000_000;
+
+export interface TokenCounts {
+	/** All prompt tokens, cached ones included */
+	inputTokens: number;
+	cachedInputTokens: number;
+	/** All generated tokens, reasoning included */
+	outputTokens: number;
+	reasoningTokens: number;
+}
+
+/**
+ * Estimated cost of a model call, or null for a model without a known price
+ */
+export function estimateCost(modelId: string, tokens: TokenCounts): number | null {
+	const pricing = MODEL_PRICING[modelId];
+	if (!pricing) return null;
+
+	const uncachedInput = Math.max(tokens.inputTokens - tokens.cachedInputTokens, 0);
+	return (
+		(uncachedInput * pricing.input +
+			tokens.cachedInputTokens * pricing.cachedInput +
+			tokens.outputTokens * pricing.output) /
+		PER_MILLION
+	);
+}
+
+export function getContextWindow(modelId: string): number | null {
+	return MODEL_PRICING[modelId]?.contextWindow ?? null;
+}
@@ -0,0 +1,218 @@
+import { randomUUID } from 'node:crypto';
+import type { Row } from '@libsql/client';
+import { db } from '../db/client';
+import { estimateCost, getContextWindow, type TokenCounts } from './pricing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One model call, attributed to the user, thread and network run that caused it
+ */
+export interface UsageEvent extends TokenCounts {
+	userId: string;
+	threadId: string | null;
+	/** Network run of the assistant message the call belongs to */
+	runId: string | null;
+	/** Agent id, or `title` / `web-search` for calls made outside an agent */
+	source: string;
+	provider: string;
+	modelId: string;
+}
+
+export interface UsageTotals extends TokenCounts {
+	totalTokens: number;
+	/** Estimated cost in USD; calls to models without a known price count as 0 */
+	costUSD: number;
+	calls: number;
+}
+
+export interface MessageUsage extends UsageTotals {
+	runId: string;
+	createdAt: string;
+}
+
+export interface ThreadUsage {
+	totals: UsageTotals;
+	/** One entry per assistant message, oldest first */
+	messages: MessageUsage[];
+	/**
+	 * Largest prompt of the latest message against its model's context window,
+	 * or null before the first call
+	 */
+	context: { usedTokens: number; maxTokens: number; modelId: string } | null;
+}
+
+export interface UserUsage {
+	totals: UsageTotals;
+	threads: Array<UsageTotals & { threadId: string }>;
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+const createTablesSql = [
+	`CREATE TABLE IF NOT EXISTS token_usage (
+	id TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL,
+	thread_id TEXT,
+	run_id TEXT,
+	source TEXT NOT NULL,
+	provider TEXT NOT NULL,
+	model_id TEXT NOT NULL,
+	input_tokens INTEGER NOT NULL,
+	cached_input_tokens INTEGER NOT NULL,
+	output_tokens INTEGER NOT NULL,
+	reasoning_tokens INTEGER NOT NULL,
+	cost_usd REAL,
+	created_at TEXT NOT NULL
+)`,
+	'CREATE INDEX IF NOT EXISTS token_usage_user_thread_idx ON token_usage (user_id, thread_id)',
+];
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Create the usage table on first use.
+ * Safe to call many times: the work only happens once per process.
+ */
+export function ensureUsageTables(): Promise<void> {
+	if (!initPromise) {
+		initPromise = db
+			.batch(createTablesSql, 'write')
+			.then(() => undefined)
+			.catch((error) => {
+				// Allow a retry on the next call instead of caching the failure
+				initPromise = null;
+				throw error;
+			});
+	}
+	return initPromise;
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+export async function recordUsage(event: UsageEvent): Promise<void> {
+	await ensureUsageTables();
+	await db.execute({
+		sql: `INSERT INTO token_usage (
+			id, user_id, thread_id, run_id, source, provider, model_id,
+			input_tokens, cached_input_tokens, output_tokens, reasoning_tokens, cost_usd, created_at
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		args: [
+			randomUUID(),
+			event.userId,
+			event.threadId,
+			event.runId,
+			event.source,
+			event.provider,
+			event.modelId,
+			event.inputTokens,
+			event.cachedInputTokens,
+			event.outputTokens,
+			event.reasoningTokens,
+			estimateCost(event.modelId, event),
+			new Date().toISOString(),
+		],
+	});
+}
+
+// ============================================================================
+// Aggregates
+// ============================================================================
+
+const TOTALS_SQL = `COALESCE(SUM(input_tokens), 0) AS input_tokens,
+	COALESCE(SUM(cached_input_tokens), 0) AS cached_input_tokens,
+	COALESCE(SUM(output_tokens), 0) AS output_tokens,
+	COALESCE(SUM(reasoning_tokens), 0) AS reasoning_tokens,
+	COALESCE(SUM(cost_usd), 0) AS cost_usd,
+	COUNT(*) AS calls`;
+
+function rowToTotals(row: Row | undefined): UsageTotals {
+	const inputTokens = Number(row?.input_tokens ?? 0);
+	const outputTokens = Number(row?.output_tokens ?? 0);
+	return {
+		inputTokens,
+		cachedInputTokens: Number(row?.cached_input_tokens ?? 0),
+		outputTokens,
+		reasoningTokens: Number(row?.reasoning_tokens ?? 0),
+		totalTokens: inputTokens + outputTokens,
+		costUSD: Number(row?.cost_usd ?? 0),
+		calls: Number(row?.calls ?? 0),
+	};
+}
+
+export async function getThreadUsage(userId: string, threadId: string): Promise<ThreadUsage> {
+	await ensureUsageTables();
+
+	const [totals, messages] = await db.batch(
+		[
+			{
+				sql: `SELECT ${TOTALS_SQL} FROM token_usage WHERE user_id = ? AND thread_id = ?`,
+				args: [userId, threadId],
+			},
+			{
+				sql: `SELECT run_id, MIN(created_at) AS created_at, ${TOTALS_SQL} FROM token_usage
+					WHERE user_id = ? AND thread_id = ? AND run_id IS NOT NULL
+					GROUP BY run_id ORDER BY MIN(created_at)`,
+				args: [userId, threadId],
+			},
+		],
+		'read'
+	);
+
+	const latestRunId = messages.rows.at(-1)?.run_id;
+	let context: ThreadUsage['context'] = null;
+	if (latestRunId) {
+		const { rows } = await db.execute({
+			sql: `SELECT model_id, input_tokens FROM token_usage
+				WHERE user_id = ? AND thread_id = ? AND run_id = ?
+				ORDER BY input_tokens DESC LIMIT 1`,
+			args: [userId, threadId, latestRunId],
+		});
+		const modelId = rows[0] ? String(rows[0].model_id) : null;
+		const maxTokens = modelId ? getContextWindow(modelId) : null;
+		if (modelId && maxTokens) {
+			context = { usedTokens: Number(rows[0].input_tokens), maxTokens, modelId };
+		}
+	}
+
+	return {
+		totals: rowToTotals(totals.rows[0]),
+		messages: messages.rows.map((row) => ({
+			runId: String(row.run_id),
+			createdAt: String(row.created_at),
+			...rowToTotals(row),
+		})),
+		context,
+	};
+}
+
+export async function getUserUsage(userId: string): Promise<UserUsage> {
+	await ensureUsageTables();
+
+	const [totals, threads] = await db.batch(
+		[
+			{
+				sql: `SELECT ${TOTALS_SQL} FROM token_usage WHERE user_id = ?`,
+				args: [userId],
+			},
+			{
+				sql: `SELECT thread_id, ${TOTALS_SQL} FROM token_usage
+					WHERE user_id = ? AND thread_id IS NOT NULL
+					GROUP BY thread_id ORDER BY MAX(created_at) DESC`,
+				args: [userId],
+			},
+		],
+		'read'
+	);
+
+	return {
+		totals: rowToTotals(totals.rows[0]),
+		threads: threads.rows.map((row) => ({ threadId: String(row.thread_id), ...rowToTotals(row) })),
+	};
+}
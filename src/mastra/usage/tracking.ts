@@ -0,0 +1,96 @@
+import type {
+	LanguageModelV3,
+	LanguageModelV3Middleware,
+	LanguageModelV3StreamPart,
+	LanguageModelV3Usage,
+} from '@ai-sdk/provider';
+import { MASTRA_RESOURCE_ID_KEY, type RequestContext } from '@mastra/core/request-context';
+import { wrapLanguageModel } from 'ai';
+import { recordUsage } from './store';
+
+/**
+ * requestContext key holding the thread and network run model calls are billed to
+ */
+export const USAGE_SCOPE_KEY = 'usageScope';
+
+export interface UsageScope {
+	threadId: string | null;
+	runId: string | null;
+}
+
+function saveUsage(
+	model: LanguageModelV3,
+	requestContext: RequestContext | undefined,
+	source: string,
+	usage: LanguageModelV3Usage
+) {
+	// Only calls made for a signed-in user are billed (not the dev playground)
+	const userId = requestContext?.get(MASTRA_RESOURCE_ID_KEY) as string | undefined;
+	if (!userId) return;
+
+	const scope = requestContext?.get(USAGE_SCOPE_KEY) as UsageScope | undefined;
+
+	recordUsage({
+		userId,
+		threadId: scope?.threadId ?? null,
+		runId: scope?.runId ?? null,
+		source,
+		provider: model.provider,
+		modelId: model.modelId,
+		inputTokens: usage.inputTokens.total ?? 0,
+		cachedInputTokens: usage.inputTokens.cacheRead ?? 0,
+		outputTokens: usage.outputTokens.total ?? 0,
+		reasoningTokens: usage.outputTokens.reasoning ?? 0,
+	}).catch((error) => {
+		// A failed usage write must not break the chat
+		console.error('Failed to record token usage:', error);
+	});
+}
+
+function usageMiddleware(
+	requestContext: RequestContext | undefined,
+	source: string
+): LanguageModelV3Middleware {
+	return {
+		specificationVersion: 'v3',
+
+		wrapGenerate: async ({ doGenerate, model }) => {
+			const result = await doGenerate();
+			saveUsage(model, requestContext, source, result.usage);
+			return result;
+		},
+
+		wrapStream: async ({ doStream, model }) => {
+			const { stream, ...rest } = await doStream();
+
+			return {
+				...rest,
+				stream: stream.pipeThrough(
+					new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+						transform(chunk, controller) {
+							if (chunk.type === 'finish') {
+								saveUsage(model, requestContext, source, chunk.usage);
+							}
+							controller.enqueue(chunk);
+						},
+					})
+				),
+			};
+		},
+	};
+}
+
+/**
+ * Store the token usage of every call to `model` for the user in `requestContext`.
+ * `source` tells which agent or feature made the call.
+ */
+export function withUsageTracking(
+	model: LanguageModelV3,
+	requestContext: RequestContext | undefined,
+	source: string
+): LanguageModelV3 {
+	return wrapLanguageModel({
+		model,
+		middleware: usageMiddleware(requestContext, source),
+	});
+}
@@ -0,0 +1,648 @@
+/**
+ * Offline mock language model for development and CI.
+ *
+ * Set MODEL_PROVIDER=mock and every model wrapped with `withMockModel` answers locally instead
+ * of calling Gemini or Perplexity: the routing agent picks network primitives by keyword, the
+ * sub-agents call `get-weather` and `destinations-search`, structured outputs are filled from
+ * their JSON schema and web searches return fixture sources. Point MOCK_MODEL_SCRIPT at a JSON
+ * file of rules to script answers for specific prompts (see `MockRule`).
+ */
+import { readFileSync } from 'node:fs';
+import type {
+	JSONSchema7,
+	LanguageModelV3,
+	LanguageModelV3CallOptions,
+	LanguageModelV3Content,
+	LanguageModelV3FinishReason,
+	LanguageModelV3Prompt,
+	LanguageModelV3StreamPart,
+	LanguageModelV3Usage,
+} from '@ai-sdk/provider';
+import { z } from 'zod';
+import { destinationsSearchOutputSchema } from '../tools/destinations-tool';
+import { weatherOutputSchema } from '../tools/weather-tool';
+
+const CHUNK_DELAY_MS = 15;
+
+const OFFLINE_ANSWER =
+	"I'm running with offline mock models, so I can only help with a few things: ask me about the weather in a city or where to travel.";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scripted answer, matched against the latest user message (or network task).
+ * The first matching rule wins over the built-in patterns.
+ */
+export interface MockRule {
+	/** Case-insensitive regular expression */
+	match: string;
+	/** Answer text; for the routing agent, the final answer without calling any primitive */
+	text?: string;
+	/** Tool call to make when a model with that tool is asked */
+	toolCall?: { toolName: string; input: Record<string, unknown> };
+	/** Network routing decision */
+	route?: {
+		primitiveId: string;
+		primitiveType: 'agent' | 'workflow' | 'tool';
+		prompt: string;
+	};
+}
+
+/** A script rule with its pattern compiled */
+interface CompiledRule {
+	rule: MockRule;
+	pattern: RegExp;
+}
+
+type MockReply =
+	| { type: 'text'; text: string; body?: unknown }
+	| { type: 'tool-call'; toolName: string; input: Record<string, unknown> };
+
+export function isMockModelEnabled(): boolean {
+	return process.env.MODEL_PROVIDER === 'mock';
+}
+
+// ============================================================================
+// Prompt helpers
+// ============================================================================
+
+function messageText(message: LanguageModelV3Prompt[number]): string {
+	if (typeof message.content === 'string') return message.content;
+	return message.content
+		.map((part) => (part.type === 'text' || part.type === 'reasoning' ? part.text : ''))
+		.join('\n');
+}
+
+function systemText(prompt: LanguageModelV3Prompt): string {
+	return prompt
+		.filter((message) => message.role === 'system')
+		.map(messageText)
+		.join('\n');
+}
+
+function lastUserText(prompt: LanguageModelV3Prompt): string {
+	const message = [...prompt].reverse().find((m) => m.role === 'user');
+	return message ? messageText(message).trim() : '';
+}
+
+/**
+ * The user's request: the network task when the prompt comes from the network loop,
+ * the latest user message otherwise
+ */
+function getTask(prompt: LanguageModelV3Prompt): string {
+	const text = prompt.map(messageText).join('\n');
+	const networkTask = text.match(/following task:\s*([\s\S]*?)\n\s*# Rules/);
+	if (networkTask) return networkTask[1].trim();
+	const originalTask = text.match(/Original task:\s*(.*)/);
+	if (originalTask) return originalTask[1].trim();
+	return lastUserText(prompt);
+}
+
+/** City-like name after "in", "to", "for" or "at", e.g. "weather in San José, Costa Rica" */
+function extractPlace(text: string): string | undefined {
+	const match = text.match(
+		/\b(?:in|to|for|at|visit)\s+(\p{Lu}[\p{L}'-]*(?:(?:\s+|,\s*)\p{Lu}[\p{L}'-]*)*)/u
+	);
+	return match?.[1];
+}
+
+function isValidPattern(pattern: string): boolean {
+	try {
+		new RegExp(pattern, 'i');
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+const mockScriptSchema = z.array(
+	z.object({
+		match: z.string().refine(isValidPattern, { error: 'Invalid regular expression' }),
+		text: z.string().optional(),
+		toolCall: z
+			.object({ toolName: z.string(), input: z.record(z.string(), z.unknown()) })
+			.optional(),
+		route: z
+			.object({
+				primitiveId: z.string(),
+				primitiveType: z.enum(['agent', 'workflow', 'tool']),
+				prompt: z.string(),
+			})
+			.optional(),
+	})
+);
+
+function loadScript(): MockRule[] {
+	const path = process.env.MOCK_MODEL_SCRIPT;
+	if (!path) return [];
+	try {
+		const rules = mockScriptSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+		if (!rules.success) {
+			console.error(`Ignoring invalid mock model script ${path}:`, rules.error.issues);
+			return [];
+		}
+		return rules.data;
+	} catch (error) {
+		console.error(`Failed to load mock model script ${path}:`, error);
+		return [];
+	}
+}
+
+function findRule(rules: CompiledRule[], text: string): MockRule | undefined {
+	return rules.find(({ pattern }) => pattern.test(text))?.rule;
+}
+
+// ============================================================================
+// Structured output
+// ============================================================================
+
+/**
+ * Smallest value that satisfies a JSON schema, with readable placeholder strings
+ */
+function sampleFromSchema(schema: JSONSchema7, key = 'value'): unknown {
+	if (schema.const !== undefined) return schema.const;
+	if (schema.enum?.length) return schema.enum[0];
+	if (schema.default !== undefined) return schema.default;
+
+	const variant = schema.anyOf?.[0] ?? schema.oneOf?.[0];
+	if (variant && typeof variant === 'object') return sampleFromSchema(variant, key);
+
+	const type = Array.isArray(schema.type)
+		? (schema.type.find((t) => t !== 'null') ?? 'null')
+		: schema.type;
+
+	switch (type) {
+		case 'object':
+			return Object.fromEntries(
+				Object.entries(schema.properties ?? {}).map(([name, property]) => [
+					name,
+					typeof property === 'object' ? sampleFromSchema(property, name) : null,
+				])
+			);
+		case 'array': {
+			const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+			const length = Math.max(schema.minItems ?? 0, 1);
+			return typeof items === 'object'
+				? Array.from({ length }, () => sampleFromSchema(items, key))
+				: [];
+		}
+		case 'string':
+			if (schema.description?.includes('YYYY-MM-DD') || schema.format === 'date') {
+				return new Date().toISOString().slice(0, 10);
+			}
+			if (schema.description?.includes('HH:mm')) return '09:00';
+			return `Mock ${key}`;
+		case 'number':
+		case 'integer':
+			return schema.minimum ?? 1;
+		case 'boolean':
+			return false;
+		default:
+			return null;
+	}
+}
+
+// ============================================================================
+// Replies
+// ============================================================================
+
+const workingMemoryResultSchema = z.object({ success: z.boolean() });
+
+function describeWeather(data: z.infer<typeof weatherOutputSchema>): string {
+	switch (data.mode) {
+		case 'current':
+			return `It's currently ${data.temperature}°C (feels like ${data.feelsLike}°C) and ${data.conditions.toLowerCase()} in ${data.location}, with ${data.humidity}% humidity and wind at ${data.windSpeed} km/h.`;
+		case 'forecast': {
+			const days = data.days.map(
+				(day) =>
+					`- **${day.date}**: ${day.conditions}, ${day.minTemp}°C to ${day.maxTemp}°C, ${day.precipitationChance}% chance of rain`
+			);
+			return `Here is the forecast for ${data.location}:\n\n${days.join('\n')}`;
+		}
+		case 'disambiguation': {
+			const labels = data.candidates.map((candidate) => candidate.label);
+			return `There are several places called "${data.query}". Which one do you mean: ${labels.join('; ')}?`;
+		}
+	}
+}
+
+function describeToolResult(toolName: string, result: unknown): string {
+	const weather = weatherOutputSchema.safeParse(result);
+	if (/weather/i.test(toolName) && weather.success) {
+		return describeWeather(weather.data);
+	}
+
+	const search = destinationsSearchOutputSchema.safeParse(result);
+	if (/destination/i.test(toolName) && search.success) {
+		if (search.data.destinations.length === 0) return "I couldn't find destinations matching that.";
+		const destinations = search.data.destinations.map(
+			(destination) =>
+				`- **${destination.city}, ${destination.country}**: ${destination.description}`
+		);
+		return `Here are some destinations you might enjoy:\n\n${destinations.join('\n')}`;
+	}
+
+	const workingMemory = workingMemoryResultSchema.safeParse(result);
+	if (toolName === 'updateWorkingMemory' && workingMemory.data?.success) {
+		return "Got it, I'll remember that for your next trips.";
+	}
+	return `Here is what I found:\n\n${JSON.stringify(result, null, 2)}`;
+}
+
+/**
+ * Answer after a tool ran, from the latest tool result in the prompt
+ */
+function replyToToolResult(prompt: LanguageModelV3Prompt): MockReply | undefined {
+	const last = prompt[prompt.length - 1];
+	if (last?.role !== 'tool') return undefined;
+
+	const part = [...last.content].reverse().find((p) => p.type === 'tool-result');
+	if (!part) return undefined;
+
+	const { output } = part;
+	if (output.type === 'error-text' || output.type === 'error-json') {
+		const message = output.type === 'error-text' ? output.value : JSON.stringify(output.value);
+		return { type: 'text', text: `I couldn't get that information: ${message}` };
+	}
+	if (output.type === 'execution-denied') {
+		return { type: 'text', text: 'Okay, I did not run that.' };
+	}
+	const value = output.type === 'json' || output.type === 'text' ? output.value : undefined;
+	return { type: 'text', text: describeToolResult(part.toolName, value) };
+}
+
+/**
+ * Tool call for a sub-agent request, when one of the agent's tools fits it
+ */
+function pickToolCall(options: LanguageModelV3CallOptions, task: string): MockReply | undefined {
+	const tools = (options.tools ?? []).filter((tool) => tool.type === 'function');
+	const find = (pattern: RegExp) => tools.find((tool) => pattern.test(tool.name));
+
+	const weatherTool = find(/weather/i);
+	if (weatherTool) {
+		const location = extractPlace(task);
+		if (!location) {
+			return { type: 'text', text: 'Which city should I check the weather for?' };
+		}
+		const days = Number(task.match(/(\d+)\s*days?/i)?.[1]);
+		const forecast = Boolean(days) || /forecast|tomorrow|week|days/i.test(task);
+		return {
+			type: 'tool-call',
+			toolName: weatherTool.name,
+			input: forecast
+				? { location, mode: 'forecast', days: Math.min(days || 7, 16) }
+				: { location, mode: 'current' },
+		};
+	}
+
+	const destinationsTool = find(/destination/i);
+	if (destinationsTool) {
+		return {
+			type: 'tool-call',
+			toolName: destinationsTool.name,
+			input: { query: task, limit: 3 },
+		};
+	}
+
+	return undefined;
+}
+
+/**
+ * Travel profile details the user states in a message, as a working memory update
+ */
+function extractProfileUpdate(task: string): Record<string, unknown> | undefined {
+	const update: Record<string, unknown> = {};
+	const diets = task.match(/\b(vegetarian|vegan|gluten[- ]free|halal|kosher|pescatarian)\b/gi);
+	if (diets) update.dietaryNeeds = diets.map((diet) => diet.toLowerCase());
+	const budget = task.match(
+		/budget(?: is| of)?\s+([€$£]?\s?\d[\d.,]*\s?k?\s?(?:€|eur|euros|usd|dollars)?)/i
+	);
+	if (budget) update.budget = budget[1].trim();
+	const party = task.match(/travel(?:l)?ing with ([^,.;]+)/i);
+	if (party) update.travelParty = party[1].trim();
+	const airport = task.match(/\bfly(?:ing)? from ([A-Z]{3}\b|\p{Lu}[\p{L}'-]*)/u);
+	if (airport) update.homeAirport = airport[1];
+	return Object.keys(update).length > 0 ? update : undefined;
+}
+
+/**
+ * Network routing decision: one primitive per user task, then "none" with the answer
+ */
+function routeTask(prompt: LanguageModelV3Prompt, task: string, rule?: MockRule) {
+	const sinceLastUser = prompt.slice(prompt.map((m) => m.role).lastIndexOf('user') + 1);
+	const alreadyRan = sinceLastUser.some((message) =>
+		messageText(message).includes('"isNetwork":true')
+	);
+	const none = (selectionReason: string) => ({
+		primitiveId: 'none',
+		primitiveType: 'none',
+		prompt: '',
+		selectionReason,
+	});
+
+	if (alreadyRan) return none('The task has been completed.');
+	if (rule?.route) return { ...rule.route, selectionReason: `Scripted route for "${rule.match}"` };
+	if (rule?.text) return none(rule.text);
+
+	const system = systemText(prompt);
+	const has = (primitive: string) => system.includes(`**${primitive}**`);
+	const route = (primitiveId: string, primitiveType: string, primitivePrompt: string) => ({
+		primitiveId,
+		primitiveType,
+		prompt: primitivePrompt,
+		selectionReason: `Mock routing matched "${primitiveId}" for the task`,
+	});
+	const place = extractPlace(task);
+	const profileUpdate = extractProfileUpdate(task);
+
+	if (has('updateWorkingMemory') && profileUpdate) {
+		return route('updateWorkingMemory', 'tool', JSON.stringify({ memory: profileUpdate }));
+	}
+	if (has('web_search') && /\b(news|latest|current|events?|prices?|search)\b/i.test(task)) {
+		return route('web_search', 'tool', JSON.stringify({ query: task }));
+	}
+	if (has('weatherWorkflow') && place && /\bdo today\b|activities today/i.test(task)) {
+		return route('weatherWorkflow', 'workflow', JSON.stringify({ city: place }));
+	}
+	if (
+		has('weatherAgent') &&
+		/weather|forecast|temperature|rain|snow|sunny|wind|clima|tiempo/i.test(task)
+	) {
+		return route('weatherAgent', 'agent', task);
+	}
+	if (
+		has('destinationsAgent') &&
+		/travel|trip|destination|visit|vacation|holiday|beach|mountain|where|recommend|viaje|destino/i.test(
+			task
+		)
+	) {
+		return route('destinationsAgent', 'agent', task);
+	}
+	return none(OFFLINE_ANSWER);
+}
+
+/**
+ * Completion check and final result of the network: agent answers are final as they are,
+ * tool and workflow results are described
+ */
+function completeTask(prompt: LanguageModelV3Prompt, withCompletion: boolean) {
+	const text = prompt.map(messageText).join('\n');
+	const primitive = text.match(/The (agent|workflow|tool) (\S+) (?:has contributed|produced)/);
+	const resultJson = text.match(/(?:This is the result|produced this result):\s*(.*)/)?.[1];
+
+	let finalResult = '';
+	if (primitive && primitive[1] !== 'agent' && resultJson) {
+		try {
+			finalResult = describeToolResult(primitive[2], JSON.parse(resultJson));
+		} catch {
+			finalResult = resultJson;
+		}
+	}
+
+	return withCompletion
+		? {
+				isComplete: true,
+				completionReason: 'The mock network runs one primitive per task.',
+				finalResult,
+			}
+		: { finalResult };
+}
+
+function searchReply(query: string): MockReply {
+	const slug = encodeURIComponent(query.toLowerCase().replace(/\s+/g, '-')).slice(0, 60);
+	return {
+		type: 'text',
+		text: `Offline search results for "${query}" [1]. Live web search is disabled while MODEL_PROVIDER=mock [2].`,
+		body: {
+			search_results: [
+				{
+					url: `https://example.com/search/${slug}`,
+					title: `Mock result for ${query}`,
+					snippet: 'Fixture source returned by the offline mock model.',
+					last_updated: new Date().toISOString().slice(0, 10),
+				},
+				{
+					url: 'https://example.org/offline-mode',
+					title: 'Offline mode',
+					snippet: 'Set MODEL_PROVIDER to a real provider to search the web.',
+				},
+			],
+		},
+	};
+}
+
+/**
+ * Title from the first user message; Mastra sends its text parts as a JSON array
+ */
+function titleFor(text: string): string {
+	try {
+		const parts = JSON.parse(text);
+		if (Array.isArray(parts)) {
+			text = parts.map((part) => (typeof part?.text === 'string' ? part.text : '')).join(' ');
+		}
+	} catch {
+		// Plain text
+	}
+	const words = text
+		.replace(/[^\p{L}\p{N}\s'-]/gu, '')
+		.split(/\s+/)
+		.filter(Boolean)
+		.slice(0, 6);
+	const title = words.join(' ');
+	return title ? title.charAt(0).toUpperCase() + title.slice(1) : 'New chat';
+}
+
+/**
+ * Rolling conversation summary: the previous summary plus the user requests it now covers
+ */
+function summaryFor(text: string): string {
+	const previous = text.match(/^Current summary:\n([\s\S]*?)\n\nNew messages:/)?.[1];
+	const requests = [...text.matchAll(/^User: (.+)$/gm)].map((match) => match[1].trim());
+	return [
+		previous && previous !== '(none)' ? previous : '',
+		requests.length > 0 ? `The user asked: ${requests.join('; ')}.` : '',
+	]
+		.filter(Boolean)
+		.join(' ');
+}
+
+function reply(
+	provider: string,
+	options: LanguageModelV3CallOptions,
+	rules: CompiledRule[]
+): MockReply {
+	const { prompt } = options;
+	const task = getTask(prompt);
+	const rule = findRule(rules, task);
+
+	if (provider.startsWith('perplexity')) {
+		return searchReply(lastUserText(prompt));
+	}
+
+	if (options.responseFormat?.type === 'json') {
+		const schema = options.responseFormat.schema as JSONSchema7 | undefined;
+		const properties = schema?.properties ?? {};
+		let value: unknown;
+		if ('primitiveId' in properties) value = routeTask(prompt, task, rule);
+		else if ('isComplete' in properties) value = completeTask(prompt, true);
+		else if ('finalResult' in properties) value = completeTask(prompt, false);
+		else value = schema ? sampleFromSchema(schema) : {};
+		return { type: 'text', text: JSON.stringify(value) };
+	}
+
+	const toolResult = replyToToolResult(prompt);
+	if (toolResult) return toolResult;
+
+	// Summary of the messages that left the memory window
+	if (!options.tools?.length && /\brunning summary\b/i.test(systemText(prompt))) {
+		return { type: 'text', text: summaryFor(lastUserText(prompt)) };
+	}
+
+	// Memory title generation
+	if (!options.tools?.length && /\btitle\b/i.test(systemText(prompt))) {
+		return { type: 'text', text: titleFor(lastUserText(prompt)) };
+	}
+
+	if (rule?.toolCall && options.tools?.some((tool) => tool.name === rule.toolCall?.toolName)) {
+		return { type: 'tool-call', ...rule.toolCall };
+	}
+	if (rule?.text) return { type: 'text', text: rule.text };
+
+	return pickToolCall(options, task) ?? { type: 'text', text: OFFLINE_ANSWER };
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/** Rough token count, ~4 characters per token */
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function usageFor(options: LanguageModelV3CallOptions, output: string): LanguageModelV3Usage {
+	const input = estimateTokens(JSON.stringify(options.prompt));
+	const outputTokens = estimateTokens(output);
+	return {
+		inputTokens: { total: input, noCache: input, cacheRead: 0, cacheWrite: 0 },
+		outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 },
+	};
+}
+
+function finishReasonFor(mockReply: MockReply): LanguageModelV3FinishReason {
+	return mockReply.type === 'tool-call'
+		? { unified: 'tool-calls', raw: 'tool-calls' }
+		: { unified: 'stop', raw: 'stop' };
+}
+
+function toContent(mockReply: MockReply, id: string): LanguageModelV3Content[] {
+	if (mockReply.type === 'tool-call') {
+		return [
+			{
+				type: 'tool-call',
+				toolCallId: id,
+				toolName: mockReply.toolName,
+				input: JSON.stringify(mockReply.input),
+			},
+		];
+	}
+	return [{ type: 'text', text: mockReply.text }];
+}
+
+function toStreamParts(mockReply: MockReply, id: string): LanguageModelV3StreamPart[] {
+	if (mockReply.type === 'tool-call') {
+		const input = JSON.stringify(mockReply.input);
+		return [
+			{ type: 'tool-input-start', id, toolName: mockReply.toolName },
+			{ type: 'tool-input-delta', id, delta: input },
+			{ type: 'tool-input-end', id },
+			{ type: 'tool-call', toolCallId: id, toolName: mockReply.toolName, input },
+		];
+	}
+	// Word-sized deltas so the UI streams like a real model
+	const deltas = mockReply.text.match(/\S+\s*|\s+/g) ?? [];
+	return [
+		{ type: 'text-start', id },
+		...deltas.map((delta): LanguageModelV3StreamPart => ({ type: 'text-delta', id, delta })),
+		{ type: 'text-end', id },
+	];
+}
+
+function outputText(mockReply: MockReply): string {
+	return mockReply.type === 'tool-call' ? JSON.stringify(mockReply.input) : mockReply.text;
+}
+
+/**
+ * Offline stand-in for `model`, keeping its model id so traces and the model picker still make sense
+ */
+export function createMockModel(
+	model: LanguageModelV3,
+	rules: MockRule[] = loadScript()
+): LanguageModelV3 {
+	// Compiled once here rather than on every call
+	const compiledRules = rules.map((rule) => ({ rule, pattern: new RegExp(rule.match, 'i') }));
+
+	return {
+		specificationVersion: 'v3',
+		provider: 'mock',
+		modelId: model.modelId,
+		supportedUrls: {},
+		doGenerate: async (options) => {
+			const mockReply = reply(model.provider, options, compiledRules);
+			return {
+				content: toContent(mockReply, crypto.randomUUID()),
+				finishReason: finishReasonFor(mockReply),
+				usage: usageFor(options, outputText(mockReply)),
+				response: {
+					id: crypto.randomUUID(),
+					timestamp: new Date(),
+					modelId: model.modelId,
+					body: mockReply.type === 'text' ? mockReply.body : undefined,
+				},
+				warnings: [],
+			};
+		},
+		doStream: async (options) => {
+			const mockReply = reply(model.provider, options, compiledRules);
+			const parts: LanguageModelV3StreamPart[] = [
+				{ type: 'stream-start', warnings: [] },
+				{
+					type: 'response-metadata',
+					id: crypto.randomUUID(),
+					timestamp: new Date(),
+					modelId: model.modelId,
+				},
+				...toStreamParts(mockReply, crypto.randomUUID()),
+				{
+					type: 'finish',
+					finishReason: finishReasonFor(mockReply),
+					usage: usageFor(options, outputText(mockReply)),
+				},
+			];
+
+			let index = 0;
+			const stream = new ReadableStream<LanguageModelV3StreamPart>({
+				async pull(controller) {
+					if (index >= parts.length) {
+						controller.close();
+						return;
+					}
+					if (index > 0) {
+						await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+					}
+					controller.enqueue(parts[index++]);
+				},
+			});
+			return { stream };
+		},
+	};
+}
+
+/**
+ * Swap `model` for the offline mock when MODEL_PROVIDER=mock
+ */
+export function withMockModel(model: LanguageModelV3): LanguageModelV3 {
+	return isMockModelEnabled() ? createMockModel(model) : model;
+}
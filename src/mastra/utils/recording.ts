@@ -0,0 +1,242 @@
+/**
+ * Record and replay of language model calls, to reproduce a conversation exactly.
+ *
+ * MODEL_RECORDING=record saves every model call (prompt plus the generated result or every
+ * streamed chunk) to MODEL_RECORDINGS_DIR (default `.recordings`), one JSON file per request
+ * hash. MODEL_RECORDING=replay serves those files back without calling the provider, so the
+ * same conversation streams the same chunks offline and without API keys.
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+	LanguageModelV3,
+	LanguageModelV3CallOptions,
+	LanguageModelV3GenerateResult,
+	LanguageModelV3Middleware,
+	LanguageModelV3StreamPart,
+} from '@ai-sdk/provider';
+import { wrapLanguageModel } from 'ai';
+
+const DEFAULT_RECORDINGS_DIR = '.recordings';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecordingMode = 'record' | 'replay';
+
+interface RecordingBase {
+	provider: string;
+	modelId: string;
+	/** Kept for reading the file; the hash is what replay looks up */
+	prompt: LanguageModelV3CallOptions['prompt'];
+	recordedAt: string;
+}
+
+type Recording =
+	| (RecordingBase & { type: 'generate'; result: LanguageModelV3GenerateResult })
+	| (RecordingBase & { type: 'stream'; chunks: LanguageModelV3StreamPart[] });
+
+/**
+ * Replay mode found no recording for a model call
+ */
+export class RecordingNotFoundError extends Error {
+	constructor(
+		public readonly key: string,
+		public readonly path: string
+	) {
+		super(
+			`No model recording for request ${key} (${path}). Record it first with MODEL_RECORDING=record.`
+		);
+		this.name = 'RecordingNotFoundError';
+	}
+}
+
+export function getRecordingMode(): RecordingMode | null {
+	const mode = process.env.MODEL_RECORDING;
+	return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+// ============================================================================
+// Keys and files
+// ============================================================================
+
+/** JSON with sorted object keys, so equal requests always hash the same */
+function stableStringify(value: unknown): string {
+	return JSON.stringify(value, (_key, val) =>
+		val && typeof val === 'object' && !Array.isArray(val)
+			? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+			: val
+	);
+}
+
+/**
+ * Values that change on every run even for the same conversation: the network history Mastra
+ * sends back to the model embeds message and thread ids, timestamps and completion check durations
+ */
+const VOLATILE_VALUES: Array<[RegExp, string]> = [
+	[/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>'],
+	[/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g, '<timestamp>'],
+	[/Duration: \d+ms/g, 'Duration: <n>ms'],
+];
+
+function maskVolatileValues(json: string): string {
+	return VOLATILE_VALUES.reduce((masked, [pattern, mask]) => masked.replace(pattern, mask), json);
+}
+
+/**
+ * Request hash: model plus every call option that shapes the answer
+ * (abort signals and headers don't), with per-run values masked
+ */
+function requestKey(
+	type: Recording['type'],
+	model: LanguageModelV3,
+	params: LanguageModelV3CallOptions
+): string {
+	const { abortSignal, headers, ...options } = params;
+	return createHash('sha256')
+		.update(
+			maskVolatileValues(
+				stableStringify({ type, provider: model.provider, modelId: model.modelId, options })
+			)
+		)
+		.digest('hex')
+		.slice(0, 32);
+}
+
+function recordingPath(key: string): string {
+	return join(process.env.MODEL_RECORDINGS_DIR ?? DEFAULT_RECORDINGS_DIR, `${key}.json`);
+}
+
+async function saveRecording(key: string, recording: Recording) {
+	const path = recordingPath(key);
+	try {
+		await mkdir(join(path, '..'), { recursive: true });
+		await writeFile(path, JSON.stringify(recording, null, 2));
+	} catch (error) {
+		// A failed recording must not break the chat
+		console.error(`Failed to save model recording ${path}:`, error);
+	}
+}
+
+/** Dates become strings in JSON; the AI SDK expects them back as Date */
+function reviveTimestamp<T extends { timestamp?: Date | string }>(value: T): T {
+	return typeof value.timestamp === 'string'
+		? { ...value, timestamp: new Date(value.timestamp) }
+		: value;
+}
+
+async function loadRecording(key: string): Promise<Recording> {
+	const path = recordingPath(key);
+	let recording: Recording;
+	try {
+		recording = JSON.parse(await readFile(path, 'utf8'));
+	} catch {
+		throw new RecordingNotFoundError(key, path);
+	}
+
+	if (recording.type === 'generate') {
+		const { response } = recording.result;
+		return {
+			...recording,
+			result: { ...recording.result, response: response && reviveTimestamp(response) },
+		};
+	}
+	return {
+		...recording,
+		chunks: recording.chunks.map((chunk) =>
+			chunk.type === 'response-metadata' ? reviveTimestamp(chunk) : chunk
+		),
+	};
+}
+
+function recordingBase(model: LanguageModelV3, params: LanguageModelV3CallOptions): RecordingBase {
+	return {
+		provider: model.provider,
+		modelId: model.modelId,
+		prompt: params.prompt,
+		recordedAt: new Date().toISOString(),
+	};
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+function recordingMiddleware(mode: RecordingMode): LanguageModelV3Middleware {
+	return {
+		specificationVersion: 'v3',
+
+		wrapGenerate: async ({ doGenerate, params, model }) => {
+			const key = requestKey('generate', model, params);
+
+			if (mode === 'replay') {
+				const recording = await loadRecording(key);
+				if (recording.type !== 'generate') {
+					throw new RecordingNotFoundError(key, recordingPath(key));
+				}
+				return recording.result;
+			}
+
+			const result = await doGenerate();
+			await saveRecording(key, { ...recordingBase(model, params), type: 'generate', result });
+			return result;
+		},
+
+		wrapStream: async ({ doStream, params, model }) => {
+			const key = requestKey('stream', model, params);
+
+			if (mode === 'replay') {
+				const recording = await loadRecording(key);
+				if (recording.type !== 'stream') {
+					throw new RecordingNotFoundError(key, recordingPath(key));
+				}
+				return {
+					stream: new ReadableStream<LanguageModelV3StreamPart>({
+						start(controller) {
+							for (const chunk of recording.chunks) controller.enqueue(chunk);
+							controller.close();
+						},
+					}),
+				};
+			}
+
+			const { stream, ...rest } = await doStream();
+			const chunks: LanguageModelV3StreamPart[] = [];
+
+			return {
+				...rest,
+				stream: stream.pipeThrough(
+					new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+						transform(chunk, controller) {
+							// Raw provider chunks are only sent when requested and aren't needed to replay
+							if (chunk.type !== 'raw') {
+								chunks.push(
+									chunk.type === 'error' ? { ...chunk, error: String(chunk.error) } : chunk
+								);
+							}
+							controller.enqueue(chunk);
+						},
+						async flush() {
+							await saveRecording(key, { ...recordingBase(model, params), type: 'stream', chunks });
+						},
+					})
+				),
+			};
+		},
+	};
+}
+
+/**
+ * Record or replay `model` according to MODEL_RECORDING; unchanged otherwise
+ */
+export function withRecording(model: LanguageModelV3): LanguageModelV3 {
+	const mode = getRecordingMode();
+	if (!mode) return model;
+
+	return wrapLanguageModel({
+		model,
+		middleware: recordingMiddleware(mode),
+	});
+}
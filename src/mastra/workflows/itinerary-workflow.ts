@@ -0,0 +1,299 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { addDays, differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import { z } from 'zod';
+import { findDestinations } from '../destinations/catalog';
+import {
+	getWeatherCondition,
+	LocationNotFoundError,
+	MAX_FORECAST_DAYS,
+	OpenMeteoUpstreamError,
+	openMeteo,
+} from '../services/open-meteo';
+
+const MAX_ITINERARY_DAYS = 14;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const itineraryInputSchema = z.object({
+	destination: z.string().describe('City or place to visit'),
+	startDate: z.string().describe('First day of the trip (YYYY-MM-DD)'),
+	endDate: z.string().describe('Last day of the trip (YYYY-MM-DD)'),
+	partySize: z.number().int().min(1).describe('Number of travelers'),
+	interests: z.array(z.string()).default([]).describe('Interests, e.g. food, museums, hiking'),
+});
+
+const tripSchema = itineraryInputSchema.extend({
+	dates: z.array(z.string()),
+});
+
+const destinationProfileSchema = z.object({
+	name: z.string(),
+	country: z.string().optional(),
+	description: z.string().optional(),
+	highlights: z.array(z.string()),
+	travelTypes: z.array(z.string()),
+	bestTimeToVisit: z.string().optional(),
+});
+
+const dayWeatherSchema = z.object({
+	conditions: z.string(),
+	maxTemp: z.number(),
+	minTemp: z.number(),
+	precipitationChance: z.number(),
+});
+
+const tripForecastSchema = z.object({
+	location: z.string().optional(),
+	/** Weather by date; dates beyond the forecast window are missing */
+	days: z.record(z.string(), dayWeatherSchema),
+});
+
+export const itineraryActivitySchema = z.object({
+	title: z.string(),
+	description: z.string(),
+	location: z.string().describe('Venue, neighborhood or address'),
+	indoor: z.boolean(),
+	weatherNote: z.string().optional().describe('How the weather affects this activity'),
+});
+
+export const itineraryTimeSlotSchema = z.object({
+	period: z.enum(['morning', 'afternoon', 'evening']),
+	startTime: z.string().describe('HH:mm'),
+	endTime: z.string().describe('HH:mm'),
+	activities: z.array(itineraryActivitySchema).min(1),
+});
+
+/** What the model is asked to produce; weather is attached afterwards from the forecast */
+const plannedDaySchema = z.object({
+	date: z.string().describe('YYYY-MM-DD'),
+	title: z.string().describe('Short theme for the day'),
+	slots: z.array(itineraryTimeSlotSchema).min(1),
+});
+
+const itineraryPlanSchema = z.object({
+	days: z.array(plannedDaySchema),
+	tips: z.array(z.string()).describe('Practical tips for the whole trip'),
+});
+
+export const itineraryDaySchema = plannedDaySchema.extend({
+	dayNumber: z.number().int().min(1),
+	weather: dayWeatherSchema.nullable(),
+});
+
+export const itinerarySchema = z.object({
+	destination: z.string(),
+	country: z.string().optional(),
+	startDate: z.string(),
+	endDate: z.string(),
+	partySize: z.number().int().min(1),
+	interests: z.array(z.string()),
+	days: z.array(itineraryDaySchema).min(1),
+	tips: z.array(z.string()),
+});
+
+export type ItineraryActivity = z.infer<typeof itineraryActivitySchema>;
+export type ItineraryTimeSlot = z.infer<typeof itineraryTimeSlotSchema>;
+export type ItineraryDay = z.infer<typeof itineraryDaySchema>;
+export type Itinerary = z.infer<typeof itinerarySchema>;
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+const prepareTrip = createStep({
+	id: 'prepare-trip',
+	description: 'Validates the trip dates and lists every day of the trip',
+	inputSchema: itineraryInputSchema,
+	outputSchema: tripSchema,
+	execute: async ({ inputData }) => {
+		if (!inputData) {
+			throw new Error('Input data not found');
+		}
+
+		const start = parseISO(inputData.startDate);
+		const end = parseISO(inputData.endDate);
+		if (!isValid(start) || !isValid(end)) {
+			throw new Error('Trip dates must use the YYYY-MM-DD format');
+		}
+
+		const length = differenceInCalendarDays(end, start) + 1;
+		if (length < 1) {
+			throw new Error('The trip must end on or after its start date');
+		}
+		if (length > MAX_ITINERARY_DAYS) {
+			throw new Error(`Itineraries are limited to ${MAX_ITINERARY_DAYS} days`);
+		}
+
+		return {
+			...inputData,
+			dates: Array.from({ length }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd')),
+		};
+	},
+});
+
+const researchDestination = createStep({
+	id: 'research-destination',
+	description: 'Looks up the destination in the catalog',
+	inputSchema: tripSchema,
+	outputSchema: destinationProfileSchema,
+	execute: async ({ inputData }) => {
+		// Search word by word: "Lisbon, Portugal" as a whole never appears in the catalog
+		const destination = inputData.destination.toLowerCase();
+		const candidates = await findDestinations({
+			keywords: destination.split(/[\s,]+/),
+			limit: null,
+		});
+		const match = candidates.find((candidate) =>
+			destination.includes(candidate.city.toLowerCase())
+		);
+
+		if (!match) {
+			// Not in the catalog: the planner relies on its own knowledge
+			return { name: inputData.destination, highlights: [], travelTypes: [] };
+		}
+
+		return {
+			name: match.city,
+			country: match.country,
+			description: match.description,
+			highlights: match.highlights,
+			travelTypes: match.travelTypes,
+			bestTimeToVisit: match.bestTimeToVisit,
+		};
+	},
+});
+
+const fetchTripForecast = createStep({
+	id: 'fetch-trip-forecast',
+	description: 'Fetches the daily forecast for the trip days within the forecast window',
+	inputSchema: tripSchema,
+	outputSchema: tripForecastSchema,
+	execute: async ({ inputData }) => {
+		const lastDate = inputData.dates[inputData.dates.length - 1];
+		const daysAhead = differenceInCalendarDays(parseISO(lastDate), new Date()) + 1;
+		if (daysAhead < 1) {
+			return { days: {} };
+		}
+
+		try {
+			const place = await openMeteo.geocode(inputData.destination);
+			const forecast = await openMeteo.getDailyForecast(
+				place,
+				Math.min(daysAhead, MAX_FORECAST_DAYS)
+			);
+
+			const days = Object.fromEntries(
+				forecast
+					.filter((day) => inputData.dates.includes(day.date))
+					.map((day) => [
+						day.date,
+						{
+							conditions: getWeatherCondition(day.weatherCode),
+							maxTemp: day.maxTemp,
+							minTemp: day.minTemp,
+							precipitationChance: day.precipitationChance,
+						},
+					])
+			);
+
+			return { location: place.name, days };
+		} catch (error) {
+			// Weather is a nice-to-have: plan without it rather than failing the itinerary, also when
+			// the destination is not a place the geocoder knows
+			if (error instanceof OpenMeteoUpstreamError || error instanceof LocationNotFoundError) {
+				return { days: {} };
+			}
+			throw error;
+		}
+	},
+});
+
+const planItinerary = createStep({
+	id: 'plan-itinerary',
+	description: 'Builds a day-by-day itinerary from the destination profile and the forecast',
+	inputSchema: z.object({
+		'research-destination': destinationProfileSchema,
+		'fetch-trip-forecast': tripForecastSchema,
+	}),
+	outputSchema: itinerarySchema,
+	execute: async ({ inputData, getStepResult, mastra }) => {
+		const trip = getStepResult(prepareTrip);
+		const profile = inputData['research-destination'];
+		const forecast = inputData['fetch-trip-forecast'];
+
+		const agent = mastra?.getAgent('destinationsAgent');
+		if (!agent) {
+			throw new Error('Destinations agent not found');
+		}
+
+		const prompt = `Plan a day-by-day itinerary for ${trip.partySize} traveler(s) visiting ${profile.name}${profile.country ? `, ${profile.country}` : ''}.
+
+Trip days: ${trip.dates.join(', ')}
+Interests: ${trip.interests.length > 0 ? trip.interests.join(', ') : 'general sightseeing'}
+
+Destination profile:
+${JSON.stringify(profile, null, 2)}
+
+Weather forecast by date (days without an entry have no forecast yet):
+${JSON.stringify(forecast.days, null, 2)}
+
+Guidelines:
+- Return exactly one day per trip date, in order, using the dates above
+- Use morning, afternoon and evening slots with realistic HH:mm times
+- Every activity needs a specific venue, neighborhood or route as its location
+- When precipitation is above 50% or temperatures are extreme, favor indoor activities and say why in weatherNote
+- Match activities to the interests and the party size
+- Add a few practical tips for the whole trip`;
+
+		const response = await agent.generate(prompt, {
+			structuredOutput: { schema: itineraryPlanSchema },
+		});
+		const plan = itineraryPlanSchema.parse(response.object);
+
+		// Pin each planned day to its trip date so weather always lines up
+		const days = trip.dates.flatMap((date, index) => {
+			const planned = plan.days.find((day) => day.date === date) ?? plan.days[index];
+			if (!planned) return [];
+			return [
+				{
+					...planned,
+					date,
+					dayNumber: index + 1,
+					weather: forecast.days[date] ?? null,
+				},
+			];
+		});
+
+		return itinerarySchema.parse({
+			destination: profile.name,
+			country: profile.country,
+			startDate: trip.startDate,
+			endDate: trip.endDate,
+			partySize: trip.partySize,
+			interests: trip.interests,
+			days,
+			tips: plan.tips,
+		});
+	},
+});
+
+// ============================================================================
+// Workflow
+// ============================================================================
+
+const itineraryWorkflow = createWorkflow({
+	id: 'itinerary-workflow',
+	description:
+		'Plans a multi-day trip: researches the destination, checks the forecast for the trip dates and returns a structured day-by-day itinerary',
+	inputSchema: itineraryInputSchema,
+	outputSchema: itinerarySchema,
+})
+	.then(prepareTrip)
+	.parallel([researchDestination, fetchTripForecast])
+	.then(planItinerary);
+
+itineraryWorkflow.commit();
+
+export { itineraryWorkflow };
@@ -0,0 +1,32 @@
+import type { ToolStream } from '@mastra/core/tools';
+
+/**
+ * Progress event streamed by workflow steps as a `data-workflow-progress` part.
+ * Events sharing an id replace each other in the UI, so each step keeps a single progress line.
+ */
+export interface WorkflowProgress {
+	workflow: string;
+	step: string;
+	status: 'running' | 'done';
+	message: string;
+}
+
+export interface ProgressTarget {
+	writer?: ToolStream;
+	/** Stable id for the step's progress part, e.g. `${runId}-${stepId}` */
+	id: string;
+	workflow: string;
+	step: string;
+}
+
+/**
+ * Emit a progress event from a workflow step (no-op when the run is not streamed)
+ */
+export async function reportProgress(
+	{ writer, id, workflow, step }: ProgressTarget,
+	message: string,
+	status: WorkflowProgress['status'] = 'running'
+): Promise<void> {
+	const data: WorkflowProgress = { workflow, step, status, message };
+	await writer?.custom({ type: 'data-workflow-progress', id, data });
+}
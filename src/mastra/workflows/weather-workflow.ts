@@ -1,5 +1,7 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
+import { getWeatherCondition, openMeteo } from '../services/open-meteo';
+import { reportProgress } from './progress';
 
 const forecastSchema = z.object({
 	date: z.string(),
@@ -10,28 +12,6 @@ const forecastSchema = z.object({
 	location: z.string(),
 });
 
-function getWeatherCondition(code: number): string {
-	const conditions: Record<number, string> = {
-		0: 'Clear sky',
-		1: 'Mainly clear',
-		2: 'Partly cloudy',
-		3: 'Overcast',
-		45: 'Foggy',
-		48: 'Depositing rime fog',
-		51: 'Light drizzle',
-		53: 'Moderate drizzle',
-		55: 'Dense drizzle',
-		61: 'Slight rain',
-		63: 'Moderate rain',
-		65: 'Heavy rain',
-		71: 'Slight snow fall',
-		73: 'Moderate snow fall',
-		75: 'Heavy snow fall',
-		95: 'Thunderstorm',
-	};
-	return conditions[code] || 'Unknown';
-}
-
 const fetchWeather = createStep({
 	id: 'fetch-weather',
 	description: 'Fetches weather forecast for a given city',
@@ -39,61 +19,68 @@ const fetchWeather = createStep({
 		city: z.string().describe('The city to get the weather for'),
 	}),
 	outputSchema: forecastSchema,
-	execute: async ({ inputData }) => {
+	execute: async ({ inputData, writer, runId }) => {
 		if (!inputData) {
 			throw new Error('Input data not found');
 		}
 
-		const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(inputData.city)}&count=1`;
-		const geocodingResponse = await fetch(geocodingUrl);
-		const geocodingData = (await geocodingResponse.json()) as {
-			results: { latitude: number; longitude: number; name: string }[];
+		const progress = {
+			writer,
+			id: `${runId}-fetch-weather`,
+			workflow: 'weather-workflow',
+			step: 'fetch-weather',
 		};
+		await reportProgress(progress, `Fetching the forecast for ${inputData.city}`);
 
-		if (!geocodingData.results?.[0]) {
-			throw new Error(`Location '${inputData.city}' not found`);
-		}
-
-		const { latitude, longitude, name } = geocodingData.results[0];
-
-		const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=precipitation,weathercode&timezone=auto,&hourly=precipitation_probability,temperature_2m`;
-		const response = await fetch(weatherUrl);
-		const data = (await response.json()) as {
-			current: {
-				time: string;
-				precipitation: number;
-				weathercode: number;
-			};
-			hourly: {
-				precipitation_probability: number[];
-				temperature_2m: number[];
-			};
-		};
+		const place = await openMeteo.geocode(inputData.city);
+		const [today] = await openMeteo.getDailyForecast(place, 1);
 
 		const forecast = {
-			date: new Date().toISOString(),
-			maxTemp: Math.max(...data.hourly.temperature_2m),
-			minTemp: Math.min(...data.hourly.temperature_2m),
-			condition: getWeatherCondition(data.current.weathercode),
-			precipitationChance: data.hourly.precipitation_probability.reduce(
-				(acc, curr) => Math.max(acc, curr),
-				0
-			),
-			location: name,
+			date: today.date,
+			maxTemp: today.maxTemp,
+			minTemp: today.minTemp,
+			condition: getWeatherCondition(today.weatherCode),
+			precipitationChance: today.precipitationChance,
+			location: place.name,
 		};
 
+		await reportProgress(progress, `Forecast ready for ${place.name}`, 'done');
+
 		return forecast;
 	},
 });
 
+const activitySchema = z.object({
+	name: z.string(),
+	description: z.string(),
+	location: z.string().describe('Specific venue, trail or neighborhood'),
+	timing: z.string().describe('Best time range, e.g. "9:00-11:30"'),
+	weatherNote: z.string().describe('How the forecast affects this activity'),
+});
+
+/** What the model is asked to produce; location, date and weather come from the forecast */
+const activityPlanSchema = z.object({
+	morning: z.array(activitySchema).describe('2-3 outdoor morning activities'),
+	afternoon: z.array(activitySchema).describe('2-3 outdoor afternoon activities'),
+	indoor: z.array(activitySchema).describe('1-2 indoor alternatives'),
+	considerations: z.array(z.string()).describe('Weather warnings, UV, wind, etc.'),
+});
+
+export const activitiesSchema = activityPlanSchema.extend({
+	location: z.string(),
+	date: z.string(),
+	weather: forecastSchema.omit({ date: true, location: true }),
+});
+
+export type Activity = z.infer<typeof activitySchema>;
+export type Activities = z.infer<typeof activitiesSchema>;
+
 const planActivities = createStep({
 	id: 'plan-activities',
 	description: 'Suggests activities based on weather conditions',
 	inputSchema: forecastSchema,
-	outputSchema: z.object({
-		activities: z.string(),
-	}),
-	execute: async ({ inputData, mastra }) => {
+	outputSchema: activitiesSchema,
+	execute: async ({ inputData, mastra, writer, runId }) => {
 		const forecast = inputData;
 
 		if (!forecast) {
@@ -105,64 +92,46 @@ const planActivities = createStep({
 			throw new Error('Weather agent not found');
 		}
 
-		const prompt = `Based on the following weather forecast for ${forecast.location}, suggest appropriate activities:
-      ${JSON.stringify(forecast, null, 2)}
-      For each day in the forecast, structure your response exactly as follows:
-
-      📅 [Day, Month Date, Year]
-      ═══════════════════════════
-
-      🌡️ WEATHER SUMMARY
-      • Conditions: [brief description]
-      • Temperature: [X°C/Y°F to A°C/B°F]
-      • Precipitation: [X% chance]
-
-      🌅 MORNING ACTIVITIES
-      Outdoor:
-      • [Activity Name] - [Brief description including specific location/route]
-        Best timing: [specific time range]
-        Note: [relevant weather consideration]
-
-      🌞 AFTERNOON ACTIVITIES
-      Outdoor:
-      • [Activity Name] - [Brief description including specific location/route]
-        Best timing: [specific time range]
-        Note: [relevant weather consideration]
+		const progress = {
+			writer,
+			id: `${runId}-plan-activities`,
+			workflow: 'weather-workflow',
+			step: 'plan-activities',
+		};
 
-      🏠 INDOOR ALTERNATIVES
-      • [Activity Name] - [Brief description including specific venue]
-        Ideal for: [weather condition that would trigger this alternative]
+		await reportProgress(progress, `Planning activities for ${forecast.location}`);
 
-      ⚠️ SPECIAL CONSIDERATIONS
-      • [Any relevant weather warnings, UV index, wind conditions, etc.]
+		const prompt = `Based on the following weather forecast for ${forecast.location}, suggest appropriate activities:
+      ${JSON.stringify(forecast, null, 2)}
 
       Guidelines:
-      - Suggest 2-3 time-specific outdoor activities per day
+      - Suggest 2-3 time-specific outdoor activities for the morning and for the afternoon
       - Include 1-2 indoor backup options
-      - For precipitation >50%, lead with indoor activities
+      - For precipitation >50%, favor indoor activities and say so in each weather note
       - All activities must be specific to the location
       - Include specific venues, trails, or locations
       - Consider activity intensity based on temperature
       - Keep descriptions concise but informative
+      - List any relevant weather warnings, UV index or wind conditions as considerations`;
 
-      Maintain this exact formatting for consistency, using the emoji and section headers as shown.`;
-
-		const response = await agent.stream([
-			{
-				role: 'user',
-				content: prompt,
-			},
-		]);
+		const response = await agent.generate(prompt, {
+			structuredOutput: { schema: activityPlanSchema },
+		});
+		const plan = activityPlanSchema.parse(response.object);
 
-		let activitiesText = '';
-
-		for await (const chunk of response.textStream) {
-			process.stdout.write(chunk);
-			activitiesText += chunk;
-		}
+		const count = plan.morning.length + plan.afternoon.length + plan.indoor.length;
+		await reportProgress(progress, `Planned ${count} activities`, 'done');
 
 		return {
-			activities: activitiesText,
+			...plan,
+			location: forecast.location,
+			date: forecast.date,
+			weather: {
+				condition: forecast.condition,
+				maxTemp: forecast.maxTemp,
+				minTemp: forecast.minTemp,
+				precipitationChance: forecast.precipitationChance,
+			},
 		};
 	},
 });
@@ -172,9 +141,7 @@ const weatherWorkflow = createWorkflow({
 	inputSchema: z.object({
 		city: z.string().describe('The city to get the weather for'),
 	}),
-	outputSchema: z.object({
-		activities: z.string(),
-	}),
+	outputSchema: activitiesSchema,
 })
 	.then(fetchWeather)
 	.then(planActivities);
@@ -6,11 +6,13 @@ import {
 	HeadContent,
 	Link,
 	Outlet,
+	redirect,
 	Scripts,
 } from '@tanstack/react-router';
 import { TanStackRouterDevtoolsPanel } from '@tanstack/react-router-devtools';
 import { SearchXIcon } from 'lucide-react';
 import { Suspense } from 'react';
+import { authHeaders, sessionQueryOptions } from '@/lib/auth';
 import { MASTRA_BASE_URL } from '@/lib/constants';
 import { threadsQueryOptions } from '@/lib/mastra-queries';
 import { AppSidebar } from '../components/app-sidebar';
@@ -33,9 +35,26 @@ interface MyRouterContext {
 	queryClient: QueryClient;
 }
 
+// Pages reachable without a session
+const PUBLIC_PATHS = ['/sign-in', '/auth/callback'];
+
 export const Route = createRootRouteWithContext<MyRouterContext>()({
+	beforeLoad: async ({ context, location }) => {
+		const session = await context.queryClient.ensureQueryData(sessionQueryOptions());
+		const isPublic = PUBLIC_PATHS.includes(location.pathname);
+
+		if (!session && !isPublic) {
+			throw redirect({ to: '/sign-in' });
+		}
+		if (session && location.pathname === '/sign-in') {
+			throw redirect({ to: '/' });
+		}
+
+		return { session };
+	},
 	loader: async ({ context }) => {
-		await context.queryClient.prefetchQuery(threadsQueryOptions());
+		if (!context.session) return;
+		await context.queryClient.prefetchQuery(threadsQueryOptions(context.session.user.id));
 	},
 	head: () => ({
 		meta: [
@@ -146,32 +165,41 @@ function MobileHeader() {
 }
 
 function RootDocument() {
+	const { session } = Route.useRouteContext();
+
 	return (
 		<html lang="en" suppressHydrationWarning>
 			<head>
 				<HeadContent />
 			</head>
 			<body>
-				<MastraReactProvider baseUrl={MASTRA_BASE_URL}>
+				<MastraReactProvider baseUrl={MASTRA_BASE_URL} headers={authHeaders(session?.token)}>
 					<ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
 						<PageTitleProvider>
-							<SidebarProvider>
-								<Suspense
-									fallback={
-										<aside className="flex h-full w-64 flex-col border-r bg-background">
-											<div className="p-4 text-sm text-muted-foreground">Loading...</div>
-										</aside>
-									}
-								>
-									<AppSidebar />
-								</Suspense>
-								<SidebarInset className="flex flex-col h-svh">
-									<MobileHeader />
-									<main className="flex-1 min-h-0">
-										<Outlet />
-									</main>
-								</SidebarInset>
-							</SidebarProvider>
+							{session ? (
+								<SidebarProvider>
+									<Suspense
+										fallback={
+											<aside className="flex h-full w-64 flex-col border-r bg-background">
+												<div className="p-4 text-sm text-muted-foreground">Loading...</div>
+											</aside>
+										}
+									>
+										<AppSidebar />
+									</Suspense>
+									<SidebarInset className="flex flex-col h-svh">
+										<MobileHeader />
+										<main className="flex-1 min-h-0">
+											<Outlet />
+										</main>
+									</SidebarInset>
+								</SidebarProvider>
+							) : (
+								// Signed out (sign-in page): no sidebar
+								<main className="min-h-svh">
+									<Outlet />
+								</main>
+							)}
 						</PageTitleProvider>
 					</ThemeProvider>
 				</MastraReactProvider>
@@ -0,0 +1,41 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { useEffect } from 'react';
+import { Spinner } from '@/components/ui/spinner';
+import { useRefreshSession } from '@/hooks/use-session';
+import { setSessionToken } from '@/lib/auth';
+
+export const Route = createFileRoute('/auth/callback')({
+	component: AuthCallbackPage,
+});
+
+/**
+ * Destino del login OAuth: el servidor Mastra deja el token (o el error) en el fragment
+ * de la URL, que solo se puede leer en el cliente
+ */
+function AuthCallbackPage() {
+	const navigate = useNavigate();
+	const refreshSession = useRefreshSession();
+
+	useEffect(() => {
+		const params = new URLSearchParams(window.location.hash.slice(1));
+		const token = params.get('token');
+
+		if (!token) {
+			navigate({
+				to: '/sign-in',
+				search: { error: params.get('error') ?? 'Sign-in failed' },
+				replace: true,
+			});
+			return;
+		}
+
+		setSessionToken(token);
+		refreshSession().then(() => navigate({ to: '/', replace: true }));
+	}, [navigate, refreshSession]);
+
+	return (
+		<div className="flex min-h-svh items-center justify-center">
+			<Spinner className="size-6 text-muted-foreground" />
+		</div>
+	);
+}
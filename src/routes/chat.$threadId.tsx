@@ -11,14 +11,29 @@ import {
 	ConversationScrollButton,
 } from '@/components/ai-elements/conversation';
 import { Message, MessageContent } from '@/components/ai-elements/message';
+import { SummaryNotice } from '@/components/chat/molecules/summary-notice';
 import { ThinkingPlaceholder } from '@/components/chat/molecules/thinking-placeholder';
-import { ChatEmptyState, ChatInput, ChatLayout, MemoizedMessage } from '@/components/chat';
+import {
+	ChatEmptyState,
+	ChatInput,
+	ChatLayout,
+	ChatProvider,
+	MemoizedMessage,
+} from '@/components/chat';
 import { usePageTitle } from '@/components/page-title-context';
 import { useThreads } from '@/hooks/use-threads';
 import { useInvalidateThreads } from '@/hooks/use-invalidate-threads';
+import { useSession } from '@/hooks/use-session';
+import { authHeaders } from '@/lib/auth';
 import { hasRenderableContent } from '@/lib/chat-utils';
-import { MASTRA_BASE_URL, RESOURCE_ID } from '@/lib/constants';
-import { threadMessagesQueryOptions } from '@/lib/mastra-queries';
+import { MASTRA_BASE_URL } from '@/lib/constants';
+import {
+	getThreadModelId,
+	getThreadSummary,
+	threadMessagesQueryOptions,
+	threadUsageQueryOptions,
+} from '@/lib/mastra-queries';
+import type { ToolApprovalData } from '@/lib/tool-approvals';
 
 const chatSearchSchema = z.object({
 	new: z.boolean().optional(),
@@ -66,12 +81,14 @@ function ChatPage() {
 	const { data: threads } = useThreads();
 	const [inputValue, setInputValue] = useState('');
 	const initialMessageSentRef = useRef(false);
-	const { invalidateThreads } = useInvalidateThreads();
+	const { invalidateThreads, invalidateThreadUsage } = useInvalidateThreads();
+	const { user, token } = useSession();
 
-	// Obtener el mensaje inicial y searchEnabled del estado de navegación
+	// Obtener el mensaje inicial, searchEnabled y el modelo del estado de navegación
 	const navigationState = routerState.location.state as {
 		initialMessage?: string;
 		searchEnabled?: boolean;
+		modelId?: string;
 	};
 	const initialMessage = navigationState?.initialMessage;
 	const initialSearchEnabled = navigationState?.searchEnabled ?? false;
@@ -87,6 +104,28 @@ function ChatPage() {
 		searchEnabledRef.current = searchEnabled;
 	}, [searchEnabled]);
 
+	// Modelo del thread: el elegido ahora, el del estado de navegación o el guardado en su metadata
+	const [selectedModelId, setSelectedModelId] = useState<string>();
+	const currentThread = threads?.find((t) => t.id === threadId);
+	const modelId = selectedModelId ?? navigationState?.modelId ?? getThreadModelId(currentThread);
+
+	// La elección no se arrastra al navegar a otro thread
+	useEffect(() => {
+		setSelectedModelId(undefined);
+	}, [threadId]);
+
+	const modelIdRef = useRef(modelId);
+
+	useEffect(() => {
+		modelIdRef.current = modelId;
+	}, [modelId]);
+
+	// Uso de tokens del thread para el indicador de contexto del input
+	const { data: usage } = useQuery(threadUsageQueryOptions(threadId));
+
+	// Los mensajes fuera de la ventana de memoria solo llegan al asistente como resumen
+	const summary = getThreadSummary(currentThread);
+
 	// Actualizar título de la página
 	useEffect(() => {
 		if (isNewChat) {
@@ -124,14 +163,33 @@ function ChatPage() {
 		() =>
 			new DefaultChatTransport({
 				api: `${MASTRA_BASE_URL}/chat`,
-				prepareSendMessagesRequest({ messages, id }) {
+				headers: authHeaders(token),
+				prepareSendMessagesRequest({ messages, id, body: requestBody }) {
+					// Las respuestas a aprobaciones reanudan el run suspendido en lugar de enviar un mensaje
+					const approval = requestBody?.approval as
+						| (ToolApprovalData & { approved: boolean })
+						| undefined;
+					if (approval) {
+						return {
+							api: `${MASTRA_BASE_URL}/chat/approval`,
+							body: {
+								...approval,
+								memory: {
+									thread: threadId,
+									resource: user.id,
+								},
+							},
+						};
+					}
+
 					const body = {
 						id,
 						messages: messages.length > 0 ? [messages[messages.length - 1]] : [],
 						webSearchEnabled: searchEnabledRef.current, // Usar ref para valor actual
+						modelId: modelIdRef.current, // El servidor lo guarda en la metadata del thread
 						memory: {
 							thread: threadId,
-							resource: RESOURCE_ID,
+							resource: user.id, // El servidor rechaza recursos de otro usuario
 						},
 					};
 
@@ -140,10 +198,10 @@ function ChatPage() {
 					};
 				},
 			}),
-		[threadId] // Solo recrear si cambia threadId
+		[threadId, user.id, token] // Solo recrear si cambia threadId o la sesión
 	);
 
-	const { messages, sendMessage, status, stop } = useChat({
+	const { messages, sendMessage, status, stop, regenerate } = useChat({
 		id: threadId,
 		messages: initialMessages,
 		generateId: () => uuidv4(),
@@ -174,10 +232,11 @@ function ChatPage() {
 
 				// Invalidar threads para actualizar la lista en sidebar
 				invalidateThreads(0); // Sin delay, el thread ya existe
+				invalidateThreadUsage(threadId);
 
 				if (isNewChat) {
 					navigate({
-						search: (old) => ({ ...old, new: undefined }),
+						search: (old: z.infer<typeof chatSearchSchema>) => ({ ...old, new: undefined }),
 						replace: true,
 					});
 				}
@@ -188,7 +247,15 @@ function ChatPage() {
 
 		// Actualizar ref para la próxima comparación
 		prevStatusRef.current = currentStatus;
-	}, [status, messages.length, invalidateThreads, isNewChat, navigate]);
+	}, [
+		status,
+		messages.length,
+		invalidateThreads,
+		invalidateThreadUsage,
+		threadId,
+		isNewChat,
+		navigate,
+	]);
 
 	const handleSubmit = (e: React.FormEvent) => {
 		e.preventDefault();
@@ -200,68 +267,96 @@ function ChatPage() {
 		// Las invalidaciones ahora ocurren cuando el stream termine exitosamente
 	};
 
+	// Enviar mensajes desde componentes de tools (p. ej. selector de ubicación)
+	const handleSendMessage = (text: string) => {
+		if (!text.trim() || status === 'streaming' || status === 'submitted') return;
+		sendMessage({ text });
+	};
+
+	// Responder a una aprobación pendiente: el stream reanudado continúa el último mensaje del asistente
+	const handleToolApproval = (approval: ToolApprovalData, approved: boolean) => {
+		if (status === 'streaming' || status === 'submitted') return;
+		sendMessage(undefined, { body: { approval: { ...approval, approved } } });
+	};
+
 	return (
-		<ChatLayout>
-			<Conversation className="flex-1 max-md:pt-12">
-				<ConversationContent>
-					{messages.length === 0 ? (
-						<ChatEmptyState />
-					) : (
-						<>
-							{messages.map((message, index) => {
-								// Check if message has any renderable content
-								if (!hasRenderableContent(message as any)) return null;
-
-								return (
-									<Message from={message.role} key={message.id}>
-										<MessageContent>
-											<MemoizedMessage
-												isLastMessage={index === messages.length - 1}
-												message={message}
-												status={status}
-											/>
-										</MessageContent>
-									</Message>
-								);
-							})}
-							{(() => {
-								const lastMessage = messages[messages.length - 1];
-								const showStreamingPlaceholder =
-									status === 'streaming' &&
-									(!lastMessage ||
-										lastMessage.role === 'user' ||
-										(lastMessage.role === 'assistant' &&
-											!hasRenderableContent(lastMessage as any)));
-
-								if (status === 'submitted' || showStreamingPlaceholder) {
+		<ChatProvider
+			messages={messages}
+			onReload={() => regenerate()}
+			onRespondToToolApproval={handleToolApproval}
+			onSendMessage={handleSendMessage}
+			onStop={stop}
+			onToggleWebSearch={() => setSearchEnabled((enabled) => !enabled)}
+			status={status}
+			threadId={threadId}
+			webSearchEnabled={searchEnabled}
+		>
+			<ChatLayout>
+				<Conversation className="flex-1 max-md:pt-12">
+					<ConversationContent>
+						{messages.length === 0 ? (
+							<ChatEmptyState />
+						) : (
+							<>
+								{summary && <SummaryNotice summary={summary} />}
+								{messages.map((message, index) => {
+									// Check if message has any renderable content
+									if (!hasRenderableContent(message as any)) return null;
+
 									return (
-										<Message from="assistant">
+										<Message from={message.role} key={message.id}>
 											<MessageContent>
-												<ThinkingPlaceholder />
+												<MemoizedMessage
+													isLastMessage={index === messages.length - 1}
+													message={message}
+													status={status}
+												/>
 											</MessageContent>
 										</Message>
 									);
-								}
-								return null;
-							})()}
-						</>
-					)}
-				</ConversationContent>
-				<ConversationScrollButton />
-			</Conversation>
-
-			<div className="shrink-0 pb-2 px-2">
-				<ChatInput
-					disabled={!inputValue.trim() && status !== 'streaming'}
-					onChange={setInputValue}
-					onSearchEnabledChange={setSearchEnabled}
-					onStop={stop}
-					onSubmit={handleSubmit}
-					searchEnabled={searchEnabled}
-					status={status}
-					value={inputValue}
-				/>
-			</div>
-		</ChatLayout>
+								})}
+								{(() => {
+									const lastMessage = messages[messages.length - 1];
+									const showStreamingPlaceholder =
+										status === 'streaming' &&
+										(!lastMessage ||
+											lastMessage.role === 'user' ||
+											(lastMessage.role === 'assistant' &&
+												!hasRenderableContent(lastMessage as any)));
+
+									if (status === 'submitted' || showStreamingPlaceholder) {
+										return (
+											<Message from="assistant">
+												<MessageContent>
+													<ThinkingPlaceholder />
+												</MessageContent>
+											</Message>
+										);
+									}
+									return null;
+								})()}
+							</>
+						)}
+					</ConversationContent>
+					<ConversationScrollButton />
+				</Conversation>
+
+				<div className="shrink-0 pb-2 px-2">
+					<ChatInput
+						disabled={!inputValue.trim() && status !== 'streaming'}
+						modelId={modelId}
+						onChange={setInputValue}
+						onModelChange={setSelectedModelId}
+						onSearchEnabledChange={setSearchEnabled}
+						onStop={stop}
+						onSubmit={handleSubmit}
+						searchEnabled={searchEnabled}
+						status={status}
+						usage={usage}
+						value={inputValue}
+					/>
+				</div>
+			</ChatLayout>
+		</ChatProvider>
 	);
 }
@@ -24,6 +24,7 @@ function HomePage() {
 	const { threadId } = Route.useLoaderData();
 	const [inputValue, setInputValue] = useState('');
 	const [searchEnabled, setSearchEnabled] = useState(false);
+	const [modelId, setModelId] = useState<string>();
 	const { navigateToChat } = useChatNavigation();
 	const { setTitle } = usePageTitle();
 
@@ -36,16 +37,16 @@ function HomePage() {
 			e.preventDefault();
 			if (!inputValue.trim()) return;
 
-			navigateToChat(threadId, inputValue, searchEnabled);
+			navigateToChat(threadId, inputValue, searchEnabled, modelId);
 		},
-		[inputValue, navigateToChat, threadId, searchEnabled]
+		[inputValue, navigateToChat, threadId, searchEnabled, modelId]
 	);
 
 	const handleSuggestionClick = useCallback(
 		(suggestion: string) => {
-			navigateToChat(threadId, suggestion, searchEnabled);
+			navigateToChat(threadId, suggestion, searchEnabled, modelId);
 		},
-		[navigateToChat, threadId, searchEnabled]
+		[navigateToChat, threadId, searchEnabled, modelId]
 	);
 
 	return (
@@ -65,7 +66,9 @@ function HomePage() {
 
 				<ChatInput
 					disabled={!inputValue.trim()}
+					modelId={modelId}
 					onChange={setInputValue}
+					onModelChange={setModelId}
 					onSearchEnabledChange={setSearchEnabled}
 					onSubmit={handleSubmit}
 					searchEnabled={searchEnabled}
@@ -0,0 +1,252 @@
+import { useSuspenseQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { SaveIcon, Trash2Icon } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { usePageTitle } from '@/components/page-title-context';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card';
+import { Field, FieldDescription, FieldGroup, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useTravelProfileMutations } from '@/hooks/use-travel-profile';
+import { type TravelProfile, travelProfileQueryOptions } from '@/lib/mastra-queries';
+
+export const Route = createFileRoute('/profile')({
+	loader: async ({ context }) => {
+		await context.queryClient.ensureQueryData(travelProfileQueryOptions());
+	},
+	head: () => ({
+		meta: [{ title: 'Travel profile - Mastra AI Chat' }],
+	}),
+	component: ProfilePage,
+});
+
+/**
+ * Valores del formulario: las listas se editan como texto
+ * (separadas por comas, o una por línea en viajes anteriores)
+ */
+interface ProfileFormValues {
+	homeAirport: string;
+	budget: string;
+	travelParty: string;
+	dietaryNeeds: string;
+	mobility: string;
+	preferredClimates: string;
+	pastTrips: string;
+}
+
+function toFormValues(profile: TravelProfile): ProfileFormValues {
+	return {
+		homeAirport: profile.homeAirport ?? '',
+		budget: profile.budget ?? '',
+		travelParty: profile.travelParty ?? '',
+		dietaryNeeds: profile.dietaryNeeds?.join(', ') ?? '',
+		mobility: profile.mobility ?? '',
+		preferredClimates: profile.preferredClimates?.join(', ') ?? '',
+		pastTrips: profile.pastTrips?.join('\n') ?? '',
+	};
+}
+
+function splitList(value: string, separator: string | RegExp): string[] {
+	return value
+		.split(separator)
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+function toProfile(values: ProfileFormValues): TravelProfile {
+	return {
+		homeAirport: values.homeAirport.trim(),
+		budget: values.budget.trim(),
+		travelParty: values.travelParty.trim(),
+		dietaryNeeds: splitList(values.dietaryNeeds, ','),
+		mobility: values.mobility.trim(),
+		preferredClimates: splitList(values.preferredClimates, ','),
+		pastTrips: splitList(values.pastTrips, /\r?\n/),
+	};
+}
+
+function ProfilePage() {
+	const { data: profile } = useSuspenseQuery(travelProfileQueryOptions());
+	const { setTitle } = usePageTitle();
+
+	useEffect(() => {
+		setTitle('Travel profile');
+	}, [setTitle]);
+
+	return (
+		<div className="flex h-full justify-center overflow-y-auto p-6 pt-14">
+			{/* La key reinicia el formulario cuando el perfil guardado cambia */}
+			<ProfileForm key={JSON.stringify(profile)} profile={profile} />
+		</div>
+	);
+}
+
+function ProfileForm({ profile }: { profile: TravelProfile }) {
+	const { saveProfile, clearProfile } = useTravelProfileMutations();
+	const [values, setValues] = useState(() => toFormValues(profile));
+	const [clearDialogOpen, setClearDialogOpen] = useState(false);
+
+	const isEmpty = Object.keys(profile).length === 0;
+	const error = saveProfile.error ?? clearProfile.error;
+
+	const setValue =
+		(field: keyof ProfileFormValues) =>
+		(e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+			setValues((current) => ({ ...current, [field]: e.target.value }));
+		};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		saveProfile.mutate(toProfile(values));
+	};
+
+	const handleConfirmClear = () => {
+		clearProfile.mutate();
+		setClearDialogOpen(false);
+	};
+
+	return (
+		<>
+			<Card className="h-fit w-full max-w-xl">
+				<CardHeader>
+					<CardTitle>Travel profile</CardTitle>
+					<CardDescription>
+						{isEmpty
+							? 'The assistant has not learned anything about you yet. Mention your budget, diet or who you travel with in any chat, or fill it in here.'
+							: 'What the assistant remembers about you in every conversation. It keeps this up to date as you chat.'}
+					</CardDescription>
+				</CardHeader>
+
+				<form onSubmit={handleSubmit}>
+					<CardContent>
+						<FieldGroup>
+							{error && (
+								<Alert variant="destructive">
+									<AlertDescription>{error.message}</AlertDescription>
+								</Alert>
+							)}
+
+							<Field>
+								<FieldLabel htmlFor="homeAirport">Home airport</FieldLabel>
+								<Input
+									id="homeAirport"
+									onChange={setValue('homeAirport')}
+									placeholder="MAD"
+									value={values.homeAirport}
+								/>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="budget">Budget</FieldLabel>
+								<Input
+									id="budget"
+									onChange={setValue('budget')}
+									placeholder="€2000 per trip"
+									value={values.budget}
+								/>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="travelParty">Travel party</FieldLabel>
+								<Input
+									id="travelParty"
+									onChange={setValue('travelParty')}
+									placeholder="Partner and two kids (5 and 8)"
+									value={values.travelParty}
+								/>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="dietaryNeeds">Dietary needs</FieldLabel>
+								<Input
+									id="dietaryNeeds"
+									onChange={setValue('dietaryNeeds')}
+									placeholder="vegetarian, nut allergy"
+									value={values.dietaryNeeds}
+								/>
+								<FieldDescription>Separate them with commas</FieldDescription>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="mobility">Mobility</FieldLabel>
+								<Input
+									id="mobility"
+									onChange={setValue('mobility')}
+									placeholder="Wheelchair user, avoid stairs"
+									value={values.mobility}
+								/>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="preferredClimates">Preferred climates</FieldLabel>
+								<Input
+									id="preferredClimates"
+									onChange={setValue('preferredClimates')}
+									placeholder="warm, dry"
+									value={values.preferredClimates}
+								/>
+								<FieldDescription>Separate them with commas</FieldDescription>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="pastTrips">Past trips</FieldLabel>
+								<Textarea
+									id="pastTrips"
+									onChange={setValue('pastTrips')}
+									placeholder="Lisbon 2023, loved it"
+									value={values.pastTrips}
+								/>
+								<FieldDescription>One trip per line</FieldDescription>
+							</Field>
+						</FieldGroup>
+					</CardContent>
+
+					<CardFooter className="mt-6 justify-between gap-2">
+						<Button
+							disabled={isEmpty || clearProfile.isPending}
+							onClick={() => setClearDialogOpen(true)}
+							type="button"
+							variant="outline"
+						>
+							<Trash2Icon className="size-4" />
+							Forget everything
+						</Button>
+						<Button disabled={saveProfile.isPending} type="submit">
+							<SaveIcon className="size-4" />
+							Save
+						</Button>
+					</CardFooter>
+				</form>
+			</Card>
+
+			<AlertDialog onOpenChange={setClearDialogOpen} open={clearDialogOpen}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>¿Olvidar tu perfil de viaje?</AlertDialogTitle>
+						<AlertDialogDescription>
+							El asistente dejará de recordar tu presupuesto, preferencias y viajes anteriores en
+							todas las conversaciones.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancelar</AlertDialogCancel>
+						<AlertDialogAction onClick={handleConfirmClear}>Olvidar</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
+	);
+}
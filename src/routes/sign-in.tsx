@@ -0,0 +1,174 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { LogInIcon } from 'lucide-react';
+import { useState } from 'react';
+import { z } from 'zod';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card';
+import { Field, FieldGroup, FieldLabel, FieldSeparator } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { useRefreshSession } from '@/hooks/use-session';
+import { type AuthProviders, fetchAuthProviders, oauthSignInUrl, signIn, signUp } from '@/lib/auth';
+
+const signInSearchSchema = z.object({
+	error: z.string().optional(),
+});
+
+export const Route = createFileRoute('/sign-in')({
+	validateSearch: signInSearchSchema,
+	loader: async (): Promise<AuthProviders> => {
+		try {
+			return await fetchAuthProviders();
+		} catch (error) {
+			// Sin lista de proveedores seguimos ofreciendo email/contraseña
+			console.error('Failed to load auth providers:', error);
+			return { mode: 'password', providers: [] };
+		}
+	},
+	head: () => ({
+		meta: [{ title: 'Sign in - Mastra AI Chat' }],
+	}),
+	component: SignInPage,
+});
+
+function SignInPage() {
+	const { mode, providers }: AuthProviders = Route.useLoaderData();
+	const { error: callbackError } = Route.useSearch();
+	const refreshSession = useRefreshSession();
+
+	const [isSignUp, setIsSignUp] = useState(false);
+	const [name, setName] = useState('');
+	const [email, setEmail] = useState('');
+	const [password, setPassword] = useState('');
+	const [error, setError] = useState<string | null>(callbackError ?? null);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	// En modo local no hay registro: cualquier email nuevo se crea al iniciar sesión
+	const canSignUp = mode === 'password';
+	const showSignUp = canSignUp && isSignUp;
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setIsSubmitting(true);
+
+		try {
+			if (showSignUp) {
+				await signUp({ email, password, name });
+			} else {
+				await signIn({ email, password });
+			}
+			// La ruta raíz redirige a / en cuanto hay sesión
+			await refreshSession();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Something went wrong');
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<div className="flex min-h-svh items-center justify-center p-6">
+			<Card className="w-full max-w-sm">
+				<CardHeader>
+					<CardTitle>{showSignUp ? 'Create an account' : 'Sign in'}</CardTitle>
+					<CardDescription>
+						{mode === 'local'
+							? 'Local mode: any email and password signs you in'
+							: 'Your conversations are private to your account'}
+					</CardDescription>
+				</CardHeader>
+
+				<CardContent>
+					<form onSubmit={handleSubmit}>
+						<FieldGroup>
+							{error && (
+								<Alert variant="destructive">
+									<AlertDescription>{error}</AlertDescription>
+								</Alert>
+							)}
+
+							{showSignUp && (
+								<Field>
+									<FieldLabel htmlFor="name">Name</FieldLabel>
+									<Input
+										autoComplete="name"
+										id="name"
+										onChange={(e) => setName(e.target.value)}
+										value={name}
+									/>
+								</Field>
+							)}
+							<Field>
+								<FieldLabel htmlFor="email">Email</FieldLabel>
+								<Input
+									autoComplete="email"
+									id="email"
+									onChange={(e) => setEmail(e.target.value)}
+									required
+									type="email"
+									value={email}
+								/>
+							</Field>
+							<Field>
+								<FieldLabel htmlFor="password">Password</FieldLabel>
+								<Input
+									autoComplete={showSignUp ? 'new-password' : 'current-password'}
+									id="password"
+									minLength={8}
+									onChange={(e) => setPassword(e.target.value)}
+									required
+									type="password"
+									value={password}
+								/>
+							</Field>
+
+							<Button disabled={isSubmitting} type="submit">
+								<LogInIcon className="size-4" />
+								{showSignUp ? 'Create account' : 'Sign in'}
+							</Button>
+
+							{providers.length > 0 && (
+								<>
+									<FieldSeparator>or</FieldSeparator>
+									{providers.map((provider) => (
+										<Button
+											key={provider.id}
+											render={<a href={oauthSignInUrl(provider.id)} />}
+											variant="outline"
+										>
+											Continue with {provider.name}
+										</Button>
+									))}
+								</>
+							)}
+						</FieldGroup>
+					</form>
+				</CardContent>
+
+				{canSignUp && (
+					<CardFooter className="justify-center text-sm text-muted-foreground">
+						{showSignUp ? 'Already have an account?' : "Don't have an account?"}
+						<Button
+							onClick={() => {
+								setIsSignUp(!isSignUp);
+								setError(null);
+							}}
+							size="sm"
+							variant="link"
+						>
+							{showSignUp ? 'Sign in' : 'Sign up'}
+						</Button>
+					</CardFooter>
+				)}
+			</Card>
+		</div>
+	);
+}
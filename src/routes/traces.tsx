@@ -0,0 +1,196 @@
+import { useQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { ActivityIcon } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { usePageTitle } from '@/components/page-title-context';
+import { TraceWaterfall } from '@/components/traces/trace-waterfall';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+	Empty,
+	EmptyDescription,
+	EmptyHeader,
+	EmptyMedia,
+	EmptyTitle,
+} from '@/components/ui/empty';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Switch } from '@/components/ui/switch';
+import { useThreads } from '@/hooks/use-threads';
+import { type TraceRun, threadTracesQueryOptions, traceQueryOptions } from '@/lib/mastra-queries';
+import { cn } from '@/lib/utils';
+
+const tracesSearchSchema = z.object({
+	threadId: z.string().optional(),
+	traceId: z.string().optional(),
+});
+
+export const Route = createFileRoute('/traces')({
+	validateSearch: tracesSearchSchema,
+	head: () => ({
+		meta: [{ title: 'Traces - Mastra AI Chat' }],
+	}),
+	component: TracesPage,
+});
+
+const timeFormat = new Intl.DateTimeFormat('es-ES', { dateStyle: 'short', timeStyle: 'medium' });
+
+const STATUS_VARIANTS: Record<TraceRun['status'], 'secondary' | 'destructive' | 'outline'> = {
+	success: 'secondary',
+	error: 'destructive',
+	running: 'outline',
+};
+
+function TracesPage() {
+	const navigate = Route.useNavigate();
+	const { threadId, traceId } = Route.useSearch();
+	const { data: threads } = useThreads();
+	const { setTitle } = usePageTitle();
+	const [showInternal, setShowInternal] = useState(false);
+
+	useEffect(() => {
+		setTitle('Traces');
+	}, [setTitle]);
+
+	// Sin thread elegido se muestra el más reciente
+	const selectedThreadId = threadId ?? threads[0]?.id;
+
+	const runs = useQuery({
+		...threadTracesQueryOptions(selectedThreadId ?? ''),
+		enabled: Boolean(selectedThreadId),
+	});
+
+	// Sin petición elegida se muestra la última del thread
+	const selectedTraceId = traceId ?? runs.data?.[0]?.traceId;
+
+	const trace = useQuery({
+		...traceQueryOptions(selectedTraceId ?? ''),
+		enabled: Boolean(selectedTraceId),
+	});
+
+	const threadItems = threads.map((thread) => ({
+		value: thread.id,
+		label: thread.title || 'Untitled',
+	}));
+
+	return (
+		<div className="flex h-full flex-col gap-4 overflow-y-auto p-6 pt-14">
+			<div className="flex flex-wrap items-end justify-between gap-4">
+				<div className="space-y-1">
+					<Label htmlFor="trace-thread">Conversation</Label>
+					<Select
+						items={threadItems}
+						onValueChange={(value) =>
+							navigate({ search: { threadId: value ?? undefined }, replace: true })
+						}
+						value={selectedThreadId ?? null}
+					>
+						<SelectTrigger className="w-72" id="trace-thread">
+							<SelectValue placeholder="Select a conversation" />
+						</SelectTrigger>
+						<SelectContent>
+							{threadItems.map((item) => (
+								<SelectItem key={item.value} value={item.value}>
+									{item.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="flex items-center gap-2">
+					<Switch checked={showInternal} id="show-internal" onCheckedChange={setShowInternal} />
+					<Label htmlFor="show-internal">Show workflow internals</Label>
+				</div>
+			</div>
+
+			{!selectedThreadId ? (
+				<Empty>
+					<EmptyHeader>
+						<EmptyMedia variant="icon">
+							<ActivityIcon />
+						</EmptyMedia>
+						<EmptyTitle>No conversations yet</EmptyTitle>
+						<EmptyDescription>Send a message and its trace will show up here.</EmptyDescription>
+					</EmptyHeader>
+				</Empty>
+			) : (
+				<div className="grid min-h-0 gap-4 lg:grid-cols-[18rem_minmax(0,1fr)]">
+					<Card className="h-fit">
+						<CardHeader>
+							<CardTitle>Requests</CardTitle>
+							<CardDescription>Every message and tool approval, newest first</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-1">
+							{runs.isPending && <Spinner />}
+							{runs.error && (
+								<Alert variant="destructive">
+									<AlertDescription>{runs.error.message}</AlertDescription>
+								</Alert>
+							)}
+							{runs.data?.length === 0 && (
+								<p className="text-muted-foreground text-xs">
+									No traced requests in this conversation.
+								</p>
+							)}
+							{runs.data?.map((run) => (
+								<button
+									className={cn(
+										'flex w-full items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-xs hover:bg-accent',
+										run.traceId === selectedTraceId && 'bg-accent'
+									)}
+									key={run.traceId}
+									onClick={() =>
+										navigate({
+											search: { threadId: selectedThreadId, traceId: run.traceId },
+											replace: true,
+										})
+									}
+									type="button"
+								>
+									<span className="flex flex-col">
+										<span>{run.kind === 'chat' ? 'Message' : 'Tool approval'}</span>
+										<span className="text-muted-foreground">
+											{timeFormat.format(new Date(run.startedAt))}
+										</span>
+									</span>
+									<Badge className="rounded-full text-xs" variant={STATUS_VARIANTS[run.status]}>
+										{run.durationMs === null
+											? run.status
+											: `${(run.durationMs / 1000).toFixed(1)} s`}
+									</Badge>
+								</button>
+							))}
+						</CardContent>
+					</Card>
+
+					<Card className="min-w-0">
+						<CardHeader>
+							<CardTitle>Waterfall</CardTitle>
+							<CardDescription>
+								Routing decisions, agent runs, tool calls and model calls of the request
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							{trace.isFetching && !trace.data && <Spinner />}
+							{trace.error && (
+								<Alert variant="destructive">
+									<AlertDescription>{trace.error.message}</AlertDescription>
+								</Alert>
+							)}
+							{trace.data && <TraceWaterfall showInternal={showInternal} trace={trace.data} />}
+						</CardContent>
+					</Card>
+				</div>
+			)}
+		</div>
+	);
+}
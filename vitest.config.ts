@@ -0,0 +1,11 @@
+import viteTsConfigPaths from 'vite-tsconfig-paths';
+import { defineConfig } from 'vitest/config';
+
+// Without the app plugins (TanStack Start, nitro): tests cover standalone modules
+export default defineConfig({
+	plugins: [viteTsConfigPaths({ projects: ['./tsconfig.json'] })],
+	test: {
+		environment: 'node',
+		include: ['src/**/*.test.ts'],
+	},
+});